@@ -1,169 +1,800 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   Users, 
   Download, 
+  Upload,
   Plus, 
   Search, 
   BrainCircuit, 
+  Bot,
   Trash, 
   ChevronLeft, 
   ChevronRight,
   Save,
   Loader2,
-  Sparkles
+  Sparkles,
+  Settings,
+  UserRound,
+  Undo2,
+  Redo2,
+  Trash2,
+  AlertTriangle,
+  RotateCcw,
+  DatabaseBackup,
+  MessageCircle,
+  Megaphone,
+  FileText,
+  LogOut,
+  Eye,
+  Rows3,
+  LayoutDashboard,
+  Table2,
+  Files,
+  SlidersHorizontal,
+  ArrowUp,
+  ArrowDown,
+  Landmark,
+  Tags,
+  QrCode,
+  X
 } from 'lucide-react';
 import SpreadsheetRow from './components/SpreadsheetRow';
-import { Participant } from './types';
-import { analyzeParticipants, generateMessageForParticipant } from './services/geminiService';
-import ReactMarkdown from 'react-markdown';
+import SpreadsheetGrid from './components/SpreadsheetGrid';
+import ExportModal from './components/ExportModal';
+import ImportModal from './components/ImportModal';
+import CohortSettingsModal from './components/CohortSettingsModal';
+import GroupSwitcher from './components/GroupSwitcher';
+import TransferModal from './components/TransferModal';
+import PaymentsModal from './components/PaymentsModal';
+import HistoryDrawer from './components/HistoryDrawer';
+import PixModal from './components/PixModal';
+import ReceiptModal from './components/ReceiptModal';
+import StatementModal from './components/StatementModal';
+import TrashModal from './components/TrashModal';
+import BackupModal from './components/BackupModal';
+import CampaignModal from './components/CampaignModal';
+import TemplatesModal from './components/TemplatesModal';
+import FieldsModal from './components/FieldsModal';
+import PixSettingsModal from './components/PixSettingsModal';
+import AiSettingsModal from './components/AiSettingsModal';
+import UsersModal from './components/UsersModal';
+import SyncIndicator from './components/SyncIndicator';
+import FilterBar from './components/FilterBar';
+import BulkActionsBar from './components/BulkActionsBar';
+import AnalysisPanel from './components/AnalysisPanel';
+import Dashboard from './components/Dashboard';
+import { AuthUser, CohortSettings, FieldSettings, Group, LedgerEvent, MessagingSettings, Participant, PixSettings, SortField, Workspace } from './types';
+import { AiAnalysis, analyzeParticipants, generateMessageForParticipant } from './services/aiService';
+import { ConflictResolution, ImportPreviewRow, applyImport } from './services/importService';
+import { SyncStatus, createWorkspaceStore } from './services/storageService';
+import { WorkspaceConflictError, applyRemoteChanges, createRemoteWorkspaceStore } from './services/remoteStore';
+import { API_URL } from './services/apiClient';
+import { getReceiptAmount, printReceipt } from './services/receiptService';
+import {
+  FREQUENCY_LABELS,
+  PERIOD_COLUMN_WIDTH,
+  createDefaultCohort,
+  formatShortDate,
+  getPeriodDates,
+  getPeriodLabel
+} from './utils/cohort';
+import {
+  TransferMode,
+  createEmptyParticipant,
+  createGroup,
+  summarizeGroups,
+  summarizeParticipants,
+  transferParticipants,
+  workspaceFromLegacy,
+  resizeParticipant
+} from './utils/groups';
+import { computeStats, formatBRL, mergeStats, withPayments } from './utils/finance';
+import { LedgerEntry, UNIDENTIFIED_OPERATOR, createLedgerEvents, diffParticipant, diffParticipants, getNextReceiptNumber, reconcileEntries, restoreLedger } from './utils/ledger';
+import { UndoHistory, createHistory, forgetGroups, recordHistory } from './utils/history';
+import { isActiveParticipant, isBlankParticipant } from './utils/participant';
+import { buildWhatsAppLink, findDuplicatePhones } from './utils/phone';
+import { buildTemplateValues, createDefaultMessaging, pickTemplate, renderTemplate } from './utils/templates';
+import { FIELD_COLUMN_WIDTH, NOTES_COLUMN_WIDTH, TAGS_COLUMN_WIDTH, collectTags, createDefaultFields, hasTag, normalizeTags, setFieldValue } from './utils/fields';
+import { RISK_SEGMENT_LABELS, RiskSegment, computeAdherence } from './utils/metrics';
+import { Permission, ROLE_LABELS, hasPermission } from './utils/permissions';
+import { CellWrite, GridColumns, applyCellWrites, isWeekColumn } from './utils/grid';
+import { ReconciledEntry, getPaymentReferences } from './utils/reconcile';
+import {
+  ListView,
+  SavedView,
+  filterParticipants,
+  hasFilters,
+  sortParticipants,
+  toggleSort,
+  viewFromParams,
+  viewToParams
+} from './utils/views';
 
 // Constants
 const ITEMS_PER_PAGE = 20;
 const TOTAL_INITIAL_ROWS = 1000;
-const LOCAL_STORAGE_KEY = 'hubx_strategy_data';
+// Operator name is per browser, not part of the shared workspace.
+const OPERATOR_STORAGE_KEY = 'hubx_operator_name';
+// Whether the list scrolls as one sheet or is split into pages; per browser too.
+const LIST_MODE_STORAGE_KEY = 'hubx_list_mode';
+// Saved views stay in this browser; a view is shared by its link.
+const SAVED_VIEWS_STORAGE_KEY = 'hubx_saved_views';
 
-const App: React.FC = () => {
+const loadSavedViews = (): SavedView[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_VIEWS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+// How often edits saved offline are retried, besides when the browser reports a connection.
+const SYNC_RETRY_INTERVAL = 30000;
+
+// With a team server configured the data lives there, and this browser's store
+// becomes its local mirror.
+const workspaceStore = API_URL ? createRemoteWorkspaceStore(createWorkspaceStore()) : createWorkspaceStore();
+
+interface AppProps {
+  // The logged-in account, or null without a team server (no accounts, full access).
+  user: AuthUser | null;
+  onLogout: () => void;
+}
+
+const App: React.FC<AppProps> = ({ user, onLogout }) => {
   // State
-  const [data, setData] = useState<Participant[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [activeGroupId, setActiveGroupId] = useState('');
+  const [ledger, setLedger] = useState<LedgerEvent[]>([]);
+  const [messaging, setMessaging] = useState<MessagingSettings>(createDefaultMessaging);
+  const [fieldSettings, setFieldSettings] = useState<FieldSettings>(createDefaultFields);
+  const [operator, setOperator] = useState(() => localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '');
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [listMode, setListMode] = useState<'scroll' | 'pages'>(() => localStorage.getItem(LIST_MODE_STORAGE_KEY) === 'pages' ? 'pages' : 'scroll');
+  const [revealRow, setRevealRow] = useState<{ id: string } | null>(null);
+  // Search, filters and sort start from the link the app was opened with.
+  const [listView, setListView] = useState<ListView>(() => viewFromParams(new URLSearchParams(window.location.search)));
+  // The sheet, or the dashboard; accounts that can't see the list start on the dashboard.
+  const [page, setPage] = useState<'sheet' | 'dashboard'>(() => user && !hasPermission(user.role, 'view-people') ? 'dashboard' : 'sheet');
+  const [isFilterBarOpen, setIsFilterBarOpen] = useState(() => hasFilters(listView));
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<string | null>(null);
-  const [generatedMessage, setGeneratedMessage] = useState<{id: string, text: string} | null>(null);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
+  const [analysis, setAnalysis] = useState<AiAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [segmentFilter, setSegmentFilter] = useState<RiskSegment | null>(null);
+  const [generatedMessage, setGeneratedMessage] = useState<{id: string, text: string, fromTemplate: boolean} | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [transferTarget, setTransferTarget] = useState<Participant[] | null>(null);
+  const [paymentsParticipantId, setPaymentsParticipantId] = useState<string | null>(null);
+  const [historyParticipantId, setHistoryParticipantId] = useState<string | null>(null);
+  const [pixParticipantId, setPixParticipantId] = useState<string | null>(null);
+  const [receiptParticipantId, setReceiptParticipantId] = useState<string | null>(null);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(createHistory);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isCampaignOpen, setIsCampaignOpen] = useState(false);
+  // Set when the campaign was opened for the checked rows only.
+  const [campaignIds, setCampaignIds] = useState<Set<string> | null>(null);
+  // Rows checked for batch actions, and the last one clicked (start of a shift-click range).
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isFieldsOpen, setIsFieldsOpen] = useState(false);
+  const [isPixSettingsOpen, setIsPixSettingsOpen] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [isUsersOpen, setIsUsersOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflictNotice, setConflictNotice] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+
+  // Latest groups, so commits issued in the same tick build on each other
+  // without making every row callback depend on `groups`.
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
+
+  const activeGroup = groups.find(g => g.id === activeGroupId);
+  const allParticipants = activeGroup?.participants ?? [];
+  const data = useMemo(() => allParticipants.filter(p => !p.deletedAt), [allParticipants]);
+  const trash = useMemo(() => allParticipants.filter(p => p.deletedAt), [allParticipants]);
+  const cohort = activeGroup?.settings ?? createDefaultCohort();
+
+  // Hides what the account may not do; the server enforces the same rules.
+  const can = useCallback((permission: Permission) => !user || hasPermission(user.role, permission), [user]);
 
   // Initialize Data
   useEffect(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsedData = JSON.parse(saved);
-        // Migration logic: Ensure all participants have 5 weeks
-        const migratedData = parsedData.map((p: any) => {
-            if (p.weeks && Array.isArray(p.weeks)) {
-                // If we have less than 5 weeks, pad with false
-                if (p.weeks.length < 5) {
-                    const diff = 5 - p.weeks.length;
-                    const padding = new Array(diff).fill(false);
-                    return { ...p, weeks: [...p.weeks, ...padding] };
-                }
-                // If we have more than 5 (unlikely, but just in case), slice
-                if (p.weeks.length > 5) {
-                    return { ...p, weeks: p.weeks.slice(0, 5) };
-                }
-            }
-            return p;
-        });
-        setData(migratedData);
-      } catch (e) {
-        console.error("Failed to load data", e);
-        initializeEmptyData();
-      }
-    } else {
-      initializeEmptyData();
-    }
-    setLoading(false);
+    workspaceStore.load()
+      .then(({ workspace, conflicts }) => {
+        setGroups(workspace.groups);
+        setActiveGroupId(workspace.activeGroupId);
+        setLedger(workspace.ledger);
+        setMessaging(workspace.messaging);
+        setFieldSettings(workspace.fields);
+        if (conflicts) {
+          setConflictNotice(`${conflicts} campo(s) editados sem conexão também foram alterados por outra pessoa; a versão do servidor foi mantida.`);
+        }
+      })
+      .catch((e) => {
+        console.error("Failed to load workspace", e);
+        // Keep the app usable from a fresh sheet; saving stays disabled so the
+        // stored data is not overwritten.
+        const workspace = workspaceFromLegacy(null, null);
+        setGroups(workspace.groups);
+        setActiveGroupId(workspace.activeGroupId);
+        setLedger(workspace.ledger);
+        setMessaging(workspace.messaging);
+        setFieldSettings(workspace.fields);
+        setSaveError(`Não foi possível carregar os dados salvos: ${e instanceof Error ? e.message : e}`);
+      })
+      .finally(() => setLoading(false));
   }, []);
 
-  const initializeEmptyData = () => {
-    // Initial load: Create 50 rows to start, users can add more.
-    const initialRows: Participant[] = Array.from({ length: 50 }).map(() => ({
-      id: uuidv4(),
-      name: '',
-      whatsapp: '',
-      weeks: [false, false, false, false, false]
-    }));
-    setData(initialRows);
-  };
+  useEffect(() => workspaceStore.subscribe?.(setSyncStatus), []);
+
+  const persistWorkspace = useCallback((workspace: Workspace) => {
+    setIsSaving(true);
+    workspaceStore.save(workspace)
+      .then(() => setSaveError(null))
+      .catch((e) => {
+        if (e instanceof WorkspaceConflictError) {
+          // Everything else was saved; take the server's copy of the rows that lost.
+          const before = groupsRef.current;
+          groupsRef.current = applyRemoteChanges(before, e.changes);
+          setGroups(groupsRef.current);
+          if (e.changes.messaging) setMessaging(e.changes.messaging);
+          if (e.changes.fields) setFieldSettings(e.changes.fields);
+          // Undoing in these groups would bring the overwritten rows back.
+          const affected = before.filter(g => !groupsRef.current.includes(g)).map(g => g.id);
+          setUndoHistory(prev => forgetGroups(prev, affected));
+          setSaveError(null);
+          if (e.conflicts > 0) setConflictNotice(e.message);
+          return;
+        }
+        console.error("Failed to save workspace", e);
+        setSaveError(`Erro ao salvar: ${e instanceof Error ? e.message : e}`);
+      })
+      .finally(() => setIsSaving(false));
+  }, []);
 
   // Persist Data 
   useEffect(() => {
     if (!loading) {
-        const timeout = setTimeout(() => {
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
-        }, 1000);
+        const timeout = setTimeout(() => persistWorkspace({ activeGroupId, groups, ledger, messaging, fields: fieldSettings }), 1000);
         return () => clearTimeout(timeout);
     }
-  }, [data, loading]);
+  }, [groups, activeGroupId, ledger, messaging, fieldSettings, loading, persistWorkspace]);
+
+  // Edits saved while offline go out as soon as the server answers again.
+  useEffect(() => {
+    if (loading || !syncStatus || syncStatus.online) return;
+    const retry = () => persistWorkspace({ activeGroupId, groups, ledger, messaging, fields: fieldSettings });
+    const timer = setInterval(retry, SYNC_RETRY_INTERVAL);
+    window.addEventListener('online', retry);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', retry);
+    };
+  }, [syncStatus, groups, activeGroupId, ledger, messaging, fieldSettings, loading, persistWorkspace]);
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_STORAGE_KEY, operator);
+  }, [operator]);
+
+  const replaceGroupParticipants = (groupId: string, participants: Participant[]) => {
+    groupsRef.current = groupsRef.current.map(g => g.id === groupId ? { ...g, participants } : g);
+    setGroups(groupsRef.current);
+  };
+
+  // Every spreadsheet edit goes through here: it updates the active group (trash
+  // included) and records an undo step. `coalesceKey` merges rapid edits of one cell.
+  const commitParticipants = useCallback((label: string, updater: (prev: Participant[]) => Participant[], coalesceKey?: string) => {
+    const group = groupsRef.current.find(g => g.id === activeGroupId);
+    if (!group) return;
+    const before = group.participants;
+    const after = updater(before);
+    if (after === before) return;
+    replaceGroupParticipants(group.id, after);
+    setUndoHistory(prev => recordHistory(prev, { groupId: group.id, label, before, after, coalesceKey, timestamp: Date.now() }));
+  }, [activeGroupId]);
+
+  const askOperator = () => {
+    const name = window.prompt('Seu nome (fica registrado no histórico de pagamentos):', operator);
+    if (name !== null) setOperator(name.trim());
+    return name?.trim() ?? operator;
+  };
+
+  // The ledger is append-only: nothing in the app removes or rewrites events.
+  // With accounts, events carry the username instead of the name set in the header.
+  const appendLedger = useCallback((entries: LedgerEntry[], groupId = activeGroupId) => {
+    if (entries.length === 0) return [];
+    const name = user?.username ?? (operator || UNIDENTIFIED_OPERATOR);
+    const events = createLedgerEvents(entries, groupId, name);
+    setLedger(prev => [...prev, ...events]);
+    return events;
+  }, [activeGroupId, operator, user]);
+
+  const updateGroup = useCallback((groupId: string, changes: Partial<Group>) => {
+    setGroups(prev => prev.map(g => g.id === groupId ? { ...g, ...changes } : g));
+  }, []);
 
   // Handlers
   const handleUpdate = useCallback((id: string, field: keyof Participant | 'week', value: any, weekIndex?: number) => {
-    setData(prev => prev.map(item => {
+    if (field === 'week' && typeof weekIndex === 'number') {
+        appendLedger([{ participantId: id, type: value ? 'mark-paid' : 'unmark', periodIndex: weekIndex }]);
+    }
+    const isWeek = field === 'week' && typeof weekIndex === 'number';
+    commitParticipants(isWeek ? 'Marcar pagamento' : 'Editar participante', prev => prev.map(item => {
       if (item.id === id) {
-        if (field === 'week' && typeof weekIndex === 'number') {
-          const newWeeks = [...item.weeks] as [boolean, boolean, boolean, boolean, boolean];
+        if (isWeek) {
+          const newWeeks = [...item.weeks];
           newWeeks[weekIndex] = value;
           return { ...item, weeks: newWeeks };
         }
         return { ...item, [field]: value };
       }
       return item;
-    }));
-  }, []);
+    }), isWeek ? undefined : `${id}:${field}`);
+  }, [commitParticipants, appendLedger]);
+
+  const handleUpdateField = useCallback((id: string, fieldId: string, value: string) => {
+    commitParticipants('Editar participante', prev => prev.map(item => item.id === id ? setFieldValue(item, fieldId, value) : item), `${id}:field:${fieldId}`);
+  }, [commitParticipants]);
 
+  // Deleting only moves the row to the trash; purging from the trash is the real removal.
   const handleDelete = useCallback((id: string) => {
-    if (window.confirm('Tem certeza que deseja remover esta linha?')) {
-        setData(prev => prev.filter(item => item.id !== id));
-    }
-  }, []);
+    const deletedAt = new Date().toISOString();
+    commitParticipants('Remover linha', prev => prev.map(item => item.id === id ? { ...item, deletedAt } : item));
+  }, [commitParticipants]);
+
+  const handleRestore = (ids: string[]) => {
+    commitParticipants('Restaurar da lixeira', prev => prev.map(item => {
+      if (!ids.includes(item.id)) return item;
+      const { deletedAt, ...rest } = item;
+      return rest;
+    }));
+  };
+
+  const handlePurge = (ids: string[]) => {
+    commitParticipants('Excluir definitivamente', prev => prev.filter(item => !(item.deletedAt && ids.includes(item.id))));
+  };
 
   const handleAddRow = () => {
-    const newRow: Participant = {
-      id: uuidv4(),
-      name: '',
-      whatsapp: '',
-      weeks: [false, false, false, false, false]
-    };
-    setData(prev => [...prev, newRow]);
+    const newRow = createEmptyParticipant(cohort.periodCount);
+    commitParticipants('Adicionar linha', prev => [...prev, newRow]);
     const newTotal = data.length + 1;
     setCurrentPage(Math.ceil(newTotal / ITEMS_PER_PAGE));
+    setRevealRow({ id: newRow.id });
+  };
+
+  // Keyboard and clipboard edits from the sheet, as one undo step. Cells the
+  // user's role can't edit are skipped.
+  const handleWriteCells = (writes: CellWrite[], label: string) => {
+    const allowed = writes.filter(w => can(isWeekColumn(w.col, gridColumns) ? 'edit-payments' : 'edit-contacts'));
+    if (allowed.length === 0) return;
+    const next = applyCellWrites(allParticipants, listRows, allowed, () => createEmptyParticipant(cohort.periodCount), gridColumns);
+    if (next === allParticipants) return;
+    appendLedger(diffParticipants(allParticipants, next));
+    commitParticipants(label, () => next);
+  };
+
+  const handleViewChange = (next: ListView) => {
+    setListView(next);
+    setCurrentPage(1);
+  };
+
+  const handleSaveView = (name: string) => {
+    const existing = savedViews.find(v => v.name.toLowerCase() === name.toLowerCase());
+    const next = existing
+      ? savedViews.map(v => v.id === existing.id ? { ...v, view: listView } : v)
+      : [...savedViews, { id: uuidv4(), name, view: listView }];
+    localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(next));
+    setSavedViews(next);
+  };
+
+  const handleDeleteView = (id: string) => {
+    const next = savedViews.filter(v => v.id !== id);
+    localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(next));
+    setSavedViews(next);
+  };
+
+  const handleCopyViewLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    alert("Link copiado! Quem abrir verá a lista com estes filtros.");
+  };
+
+  // Shift-click applies the clicked box's new state to every row in between, as shown.
+  const handleSelectRow = useCallback((id: string, selected: boolean, range: boolean) => {
+    const rows = listRowsRef.current;
+    const from = range && selectionAnchorRef.current ? rows.findIndex(p => p.id === selectionAnchorRef.current) : -1;
+    const to = rows.findIndex(p => p.id === id);
+    const ids = from >= 0 && to >= 0
+      ? rows.slice(Math.min(from, to), Math.max(from, to) + 1).map(p => p.id)
+      : [id];
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(rowId => selected ? next.add(rowId) : next.delete(rowId));
+      return next;
+    });
+    selectionAnchorRef.current = id;
+  }, []);
+
+  // Blank placeholder rows are left out of "select all".
+  const handleSelectAllFiltered = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(filteredData.filter(isActiveParticipant).map(p => p.id)) : new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  const handleBulkMark = (periodIndex: number, paid: boolean) => {
+    const after = allParticipants.map(p => {
+      if (!selectedIds.has(p.id) || p.deletedAt || p.weeks[periodIndex] === paid) return p;
+      const weeks = [...p.weeks];
+      weeks[periodIndex] = paid;
+      return { ...p, weeks };
+    });
+    if (after.every((p, i) => p === allParticipants[i])) return;
+    appendLedger(diffParticipants(allParticipants, after));
+    commitParticipants(`${paid ? 'Marcar' : 'Desmarcar'} ${getPeriodLabel(cohort, periodIndex)} em lote`, () => after);
+  };
+
+  const handleBulkAddTag = (tag: string) => {
+    const after = allParticipants.map(p =>
+      selectedIds.has(p.id) && !p.deletedAt && !hasTag(p, tag) ? { ...p, tags: normalizeTags([...(p.tags ?? []), tag]) } : p);
+    if (after.every((p, i) => p === allParticipants[i])) return;
+    commitParticipants(`Etiqueta "${tag}" em lote`, () => after);
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedParticipants.length;
+    if (!window.confirm(`Mover ${count} participante${count === 1 ? '' : 's'} para a lixeira?`)) return;
+    const deletedAt = new Date().toISOString();
+    commitParticipants(`Remover ${count} linhas`, prev => prev.map(item => selectedIds.has(item.id) && !item.deletedAt ? { ...item, deletedAt } : item));
+    setSelectedIds(new Set());
+  };
+
+  const handleListMode = (mode: 'scroll' | 'pages') => {
+    localStorage.setItem(LIST_MODE_STORAGE_KEY, mode);
+    setListMode(mode);
+  };
+
+  // The Pix key decides where payments go, so it is a treasurer setting even
+  // though it lives with the message settings.
+  const handlePixChange = (pix: PixSettings) => {
+    if (!can('manage-groups')) return;
+    setMessaging(prev => ({ ...prev, pix }));
   };
 
   const handleClearEmpty = () => {
     if(window.confirm("Remover todas as linhas vazias?")) {
-        setData(prev => prev.filter(p => p.name.trim() !== '' || p.whatsapp.trim() !== ''));
+        commitParticipants('Limpar linhas vazias', prev => prev.filter(p => !isBlankParticipant(p)));
+    }
+  };
+
+  const handleSaveCohort = (next: CohortSettings) => {
+    const participants = next.periodCount !== cohort.periodCount
+        ? allParticipants.map(p => resizeParticipant(p, next.periodCount))
+        : allParticipants;
+    appendLedger(diffParticipants(allParticipants, participants));
+    updateGroup(activeGroupId, { settings: next, participants });
+    setUndoHistory(prev => forgetGroups(prev, [activeGroupId]));
+    setIsSettingsOpen(false);
+  };
+
+  const handleImport = (preview: ImportPreviewRow[], resolutions: Record<string, ConflictResolution>) => {
+    const next = applyImport(allParticipants, preview, resolutions, uuidv4);
+    appendLedger(diffParticipants(allParticipants, next));
+    commitParticipants('Importar planilha', () => next);
+    setIsImportOpen(false);
+  };
+
+  // Each confirmed statement entry becomes a recorded payment, which ticks the
+  // period once it is fully paid. The whole statement is one undo step.
+  const handleApplyStatement = (entries: ReconciledEntry[]) => {
+    const next = allParticipants.map(participant => {
+      const matched = entries.filter(e => e.participantId === participant.id);
+      if (matched.length === 0) return participant;
+      const payments = matched.map(({ entry, periodIndex }) => ({
+        id: uuidv4(),
+        periodIndex,
+        amount: entry.amount,
+        date: entry.date,
+        method: /\bpix\b/i.test(entry.description) ? 'pix' as const : 'transfer' as const,
+        reference: entry.id
+      }));
+      return withPayments(participant, cohort, [...(participant.payments ?? []), ...payments]);
+    });
+    appendLedger(diffParticipants(allParticipants, next));
+    commitParticipants('Conciliação bancária', () => next);
+  };
+
+  // Undo/redo restore a snapshot of the group where the change happened. Payment
+  // flags that change as a result are written to the ledger like any other edit.
+  const applySnapshot = (groupId: string, participants: Participant[], select = true) => {
+    const group = groupsRef.current.find(g => g.id === groupId);
+    if (!group) return;
+    const restored = participants.map(p => resizeParticipant(p, group.settings.periodCount));
+    appendLedger(diffParticipants(group.participants, restored), groupId);
+    replaceGroupParticipants(groupId, restored);
+    if (select && groupId !== activeGroupId) setActiveGroupId(groupId);
+  };
+
+  const handleUndo = () => {
+    if (!can('edit-contacts')) return;
+    const entry = undoHistory.past[undoHistory.past.length - 1];
+    if (!entry) return;
+    entry.linked?.forEach(l => applySnapshot(l.groupId, l.before, false));
+    applySnapshot(entry.groupId, entry.before);
+    setUndoHistory(prev => ({ past: prev.past.slice(0, -1), future: [entry, ...prev.future] }));
+  };
+
+  const handleRedo = () => {
+    if (!can('edit-contacts')) return;
+    const entry = undoHistory.future[0];
+    if (!entry) return;
+    entry.linked?.forEach(l => applySnapshot(l.groupId, l.after, false));
+    applySnapshot(entry.groupId, entry.after);
+    setUndoHistory(prev => ({ past: [...prev.past, entry], future: prev.future.slice(1) }));
+  };
+
+  // Keyboard shortcuts. Inputs outside the spreadsheet (modals, search) keep
+  // their native text undo.
+  const undoRef = useRef(handleUndo);
+  const redoRef = useRef(handleRedo);
+  undoRef.current = handleUndo;
+  redoRef.current = handleRedo;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      const isField = !!target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (isField && !target.closest('[data-spreadsheet]')) return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redoRef.current();
+      else undoRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleSelectGroup = (groupId: string) => {
+    setActiveGroupId(groupId);
+    setCurrentPage(1);
+    setListView(view => ({ ...view, search: '' }));
+    setSelectedIds(new Set());
+    setSegmentFilter(null);
+    setIsAnalysisOpen(false);
+    setAnalysis(null);
+  };
+
+  const handleCreateGroup = (name: string) => {
+    // New turmas inherit the current period layout, the start date is usually the only change.
+    const group = createGroup(name, { ...cohort });
+    setGroups(prev => [...prev, group]);
+    handleSelectGroup(group.id);
+  };
+
+  const handleToggleArchive = (groupId: string) => {
+    const group = groups.find(g => g.id === groupId);
+    if (group) updateGroup(groupId, { archived: !group.archived });
+  };
+
+  const handleOpenTransfer = useCallback((participant: Participant) => {
+    setTransferTarget([participant]);
+  }, []);
+
+  const handleOpenPayments = useCallback((participant: Participant) => {
+    setPaymentsParticipantId(participant.id);
+  }, []);
+
+  const handleReplaceParticipant = (participant: Participant) => {
+    const before = data.find(p => p.id === participant.id);
+    if (before) appendLedger(diffParticipant(before, participant));
+    commitParticipants('Pagamentos', prev => prev.map(item => item.id === participant.id ? participant : item));
+  };
+
+  const handleOpenHistory = useCallback((participant: Participant) => {
+    setHistoryParticipantId(participant.id);
+  }, []);
+
+  const handleOpenPix = useCallback((participant: Participant) => {
+    setPixParticipantId(participant.id);
+  }, []);
+
+  const handleOpenReceipt = useCallback((participant: Participant) => {
+    setReceiptParticipantId(participant.id);
+  }, []);
+
+  const handlePrintReceipt = (participant: Participant, receipt: LedgerEvent) => {
+    printReceipt({
+      number: receipt.receiptNumber ?? 0,
+      issuedAt: receipt.timestamp,
+      participant,
+      groupName: activeGroup?.name ?? '',
+      cohort,
+      periodIndexes: receipt.periodIndexes ?? [],
+      beneficiary: messaging.pix.beneficiary,
+      operator: receipt.operator
+    });
+  };
+
+  // The receipt is a ledger event, so its number and periods sync like any payment.
+  const handleIssueReceipt = (participant: Participant, periodIndexes: number[]) => {
+    const receiptNumber = getNextReceiptNumber(ledger);
+    const [receipt] = appendLedger([{
+      participantId: participant.id,
+      type: 'receipt-issued',
+      receiptNumber,
+      periodIndexes,
+      amount: getReceiptAmount(participant, cohort, periodIndexes),
+      note: `Recibo nº ${receiptNumber}`
+    }]);
+    if (receipt) handlePrintReceipt(participant, receipt);
+  };
+
+  const handleAddNote = (participantId: string, note: string) => {
+    appendLedger([{ participantId, type: 'note', note }]);
+  };
+
+  const handleMarkContacted = (participantId: string, message: string) => {
+    appendLedger([{ participantId, type: 'contacted', note: message }]);
+  };
+
+  const handleReconcile = (participant: Participant) => {
+    appendLedger(reconcileEntries(participant, ledger.filter(e => e.participantId === participant.id)));
+  };
+
+  // One undo step covers both groups.
+  const handleTransfer = (targetGroupId: string, mode: TransferMode) => {
+    if (!transferTarget) return;
+    const before = groupsRef.current;
+    const after = transferParticipants(before, activeGroupId, targetGroupId, transferTarget.map(p => p.id), mode);
+    // A group with fewer periods drops the paid flags and payments past its end;
+    // the source group's history records them as removed.
+    if (mode === 'move') {
+      const moved = new Map(after.find(g => g.id === targetGroupId)?.participants.map(p => [p.id, p]));
+      const original = before.find(g => g.id === activeGroupId)?.participants ?? [];
+      appendLedger(original.flatMap(p => moved.has(p.id) ? diffParticipant(p, moved.get(p.id)!) : []));
     }
+    const snapshots = (groupId: string) => ({
+      groupId,
+      before: before.find(g => g.id === groupId)?.participants ?? [],
+      after: after.find(g => g.id === groupId)?.participants ?? []
+    });
+    groupsRef.current = after;
+    setGroups(after);
+    setUndoHistory(prev => recordHistory(prev, {
+      ...snapshots(activeGroupId),
+      label: transferTarget.length === 1 ? 'Transferir participante' : `Transferir ${transferTarget.length} participantes`,
+      linked: [snapshots(targetGroupId)],
+      timestamp: Date.now()
+    }));
+    setTransferTarget(null);
   };
 
+  // Restoring replaces the whole workspace, so the undo history no longer applies.
+  const handleRestoreWorkspace = (backup: Workspace) => {
+    const name = user?.username ?? (operator || UNIDENTIFIED_OPERATOR);
+    const before = groupsRef.current.flatMap(g => g.participants);
+    const workspace = { ...backup, ledger: restoreLedger(ledger, backup, before, name) };
+    groupsRef.current = workspace.groups;
+    setGroups(workspace.groups);
+    setActiveGroupId(workspace.activeGroupId);
+    setLedger(workspace.ledger);
+    setMessaging(workspace.messaging);
+    setFieldSettings(workspace.fields);
+    setUndoHistory(createHistory());
+    setIsBackupOpen(false);
+    setCurrentPage(1);
+    workspaceStore.replace(workspace)
+      .then(() => setSaveError(null))
+      .catch((e) => {
+        console.error("Failed to restore workspace", e);
+        setSaveError(`Erro ao salvar: ${e instanceof Error ? e.message : e}`);
+      });
+  };
+
+  // Charts come from `adherence` and are live; only the recommendations wait on the AI.
   const handleAnalyze = async () => {
+    setIsAnalysisOpen(true);
     setIsAnalyzing(true);
-    setAnalysisResult(null);
-    const result = await analyzeParticipants(data);
-    setAnalysisResult(result);
-    setIsAnalyzing(false);
+    setAnalysis(null);
+    setAnalysisError(null);
+    try {
+      setAnalysis(await analyzeParticipants(adherence, cohort));
+    } catch (error) {
+      console.error("Error analyzing data:", error);
+      setAnalysisError("Erro ao conectar com a IA. Os gráficos acima continuam valendo; tente as recomendações mais tarde.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleSelectSegment = (segment: RiskSegment) => {
+    setSegmentFilter(segment);
+    setCurrentPage(1);
   };
 
   const handleGenerateMessage = async (participant: Participant) => {
     setGeneratedMessage(null); // Clear previous
-    const msg = await generateMessageForParticipant(participant);
-    setGeneratedMessage({ id: participant.id, text: msg });
+    // The template for the participant's situation guides the AI and covers for it when it fails.
+    const template = pickTemplate(messaging.templates, participant, cohort);
+    const rendered = template
+      ? renderTemplate(template.body, buildTemplateValues(participant, cohort, { groupName: activeGroup?.name ?? '', pixLink: messaging.pixLink, pix: messaging.pix }))
+      : null;
+    const msg = await generateMessageForParticipant(participant, cohort, rendered);
+    setGeneratedMessage({ id: participant.id, ...msg });
   };
 
   // Filtering & Pagination
+  const adherence = useMemo(() => computeAdherence(data, cohort), [data, cohort]);
+
   const filteredData = useMemo(() => {
-    if (!searchTerm) return data;
-    const lower = searchTerm.toLowerCase();
-    return data.filter(item => 
-      item.name.toLowerCase().includes(lower) || 
-      item.whatsapp.includes(lower)
-    );
-  }, [data, searchTerm]);
+    const segmentIds = segmentFilter ? new Set(adherence.segments[segmentFilter]) : null;
+    const inSegment = segmentIds ? data.filter(item => segmentIds.has(item.id)) : data;
+    return sortParticipants(filterParticipants(inSegment, listView, cohort, fieldSettings.custom), listView);
+  }, [data, listView, segmentFilter, adherence, cohort, fieldSettings]);
+
+  // The address bar always holds the current view, ready to be shared.
+  useEffect(() => {
+    const params = viewToParams(listView, new URLSearchParams(window.location.search));
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [listView]);
+
+  const tagsInGroup = useMemo(() => collectTags(data), [data]);
+  const gridColumns = useMemo<GridColumns>(
+    () => ({ periodCount: cohort.periodCount, fields: fieldSettings.custom }),
+    [cohort.periodCount, fieldSettings]
+  );
+
+  const duplicatePhones = useMemo(() => findDuplicatePhones(groups, activeGroupId), [groups, activeGroupId]);
 
   const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE);
   const paginatedData = useMemo(() => {
     const start = (currentPage - 1) * ITEMS_PER_PAGE;
     return filteredData.slice(start, start + ITEMS_PER_PAGE);
   }, [filteredData, currentPage]);
+  const sortIcon = (field: SortField) => listView.sortField === field
+    ? (listView.sortOrder === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)
+    : null;
+
+  const listRows = listMode === 'pages' ? paginatedData : filteredData;
+  const listRowsRef = useRef(listRows);
+  listRowsRef.current = listRows;
+
+  // Rows that left the group or went to the trash drop out of the selection.
+  const selectedParticipants = useMemo(() => data.filter(p => selectedIds.has(p.id)), [data, selectedIds]);
+  const selectableCount = useMemo(() => filteredData.filter(isActiveParticipant).length, [filteredData]);
+  const firstRowIndex = listMode === 'pages' ? (currentPage - 1) * ITEMS_PER_PAGE : 0;
 
   // Stats
-  const stats = useMemo(() => {
-    const active = data.filter(p => p.name || p.whatsapp);
-    const totalWeeks = active.length * 5;
-    const paidWeeks = active.reduce((acc, curr) => acc + curr.weeks.filter(Boolean).length, 0);
-    const percentage = totalWeeks === 0 ? 0 : Math.round((paidWeeks / totalWeeks) * 100);
-    return { count: active.length, percentage };
-  }, [data]);
+  const stats = useMemo(() => summarizeParticipants(data, cohort.periodCount), [data, cohort.periodCount]);
+  const totals = useMemo(() => summarizeGroups(groups), [groups]);
+  const revenue = useMemo(() => computeStats(data, cohort), [data, cohort]);
+  const totalRevenue = useMemo(
+    () => mergeStats(groups.filter(g => !g.archived).map(g => computeStats(g.participants, g.settings))),
+    [groups]
+  );
+  const paymentsParticipant = data.find(p => p.id === paymentsParticipantId);
+  const historyParticipant = data.find(p => p.id === historyParticipantId);
+  const pixParticipant = data.find(p => p.id === pixParticipantId);
+  const receiptParticipant = data.find(p => p.id === receiptParticipantId);
+  const hasOtherGroups = groups.filter(g => !g.archived).length > 1;
+
+  const generatedMessageParticipant = generatedMessage && data.find(p => p.id === generatedMessage.id);
+  const generatedMessageLink = generatedMessage && generatedMessageParticipant
+    ? buildWhatsAppLink(generatedMessageParticipant.whatsapp, generatedMessage.text)
+    : null;
+
+  const periodDates = useMemo(() => getPeriodDates(cohort), [cohort]);
 
   if (loading) return <div className="flex items-center justify-center h-screen bg-indigo-50"><Loader2 className="animate-spin text-purple-600" size={48} /></div>;
 
@@ -179,22 +810,102 @@ const App: React.FC = () => {
                 </div>
                 <div>
                     <h1 className="text-2xl font-extrabold tracking-tight text-white drop-shadow-sm">Estratégia HUBX</h1>
-                    <p className="text-xs text-indigo-100 font-medium opacity-90">Gestão de Pagamentos</p>
+                    <GroupSwitcher
+                        groups={groups}
+                        activeGroupId={activeGroupId}
+                        onSelect={handleSelectGroup}
+                        onCreate={handleCreateGroup}
+                        onRename={(groupId, name) => updateGroup(groupId, { name })}
+                        onToggleArchive={handleToggleArchive}
+                        canManage={can('manage-groups')}
+                    />
                 </div>
             </div>
 
             <div className="flex items-center gap-4">
                  <div className="hidden md:flex flex-col items-end mr-2 bg-white/10 px-3 py-1 rounded-lg backdrop-blur-sm border border-white/10">
                     <span className="text-[10px] text-indigo-100 uppercase font-bold tracking-wider">Participantes</span>
-                    <span className="text-lg font-bold text-white">{stats.count}</span>
+                    <span className="text-lg font-bold text-white">
+                        {stats.count}
+                        {hasOtherGroups && <span className="text-xs font-semibold text-indigo-200"> / {totals.count} total</span>}
+                    </span>
                 </div>
                  <div className="hidden md:flex flex-col items-end mr-2 bg-white/10 px-3 py-1 rounded-lg backdrop-blur-sm border border-white/10">
                     <span className="text-[10px] text-indigo-100 uppercase font-bold tracking-wider">Arrecadação</span>
                     <span className={`text-lg font-bold ${stats.percentage > 80 ? 'text-emerald-300' : 'text-yellow-300'}`}>
                         {stats.percentage}%
+                        {hasOtherGroups && <span className="text-xs font-semibold text-indigo-200"> / {totals.percentage}% geral</span>}
                     </span>
                 </div>
+                {totalRevenue.revenuePotential > 0 && (
+                  <>
+                    <div className="hidden lg:flex flex-col items-end mr-2 bg-white/10 px-3 py-1 rounded-lg backdrop-blur-sm border border-white/10">
+                        <span className="text-[10px] text-indigo-100 uppercase font-bold tracking-wider">Recebido</span>
+                        <span className="text-lg font-bold text-emerald-300">
+                            {formatBRL(revenue.totalPaid)}
+                            {hasOtherGroups && <span className="text-xs font-semibold text-indigo-200"> / {formatBRL(totalRevenue.totalPaid)}</span>}
+                        </span>
+                    </div>
+                    <div className="hidden lg:flex flex-col items-end mr-2 bg-white/10 px-3 py-1 rounded-lg backdrop-blur-sm border border-white/10">
+                        <span className="text-[10px] text-indigo-100 uppercase font-bold tracking-wider">Pendente</span>
+                        <span className="text-lg font-bold text-white">
+                            {formatBRL(revenue.totalPending)}
+                            {revenue.totalOverdue > 0 && <span className="text-xs font-semibold text-rose-200"> ({formatBRL(revenue.totalOverdue)} em atraso)</span>}
+                        </span>
+                    </div>
+                  </>
+                )}
                 
+                <div className="flex items-center p-0.5 rounded-full bg-white/10 border border-white/10 text-xs font-semibold">
+                    <button
+                        onClick={() => setPage('sheet')}
+                        title="Planilha"
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors ${page === 'sheet' ? 'bg-white text-violet-700' : 'text-indigo-100 hover:bg-white/20'}`}
+                    >
+                        <Table2 size={14} /> <span className="hidden xl:inline">Planilha</span>
+                    </button>
+                    <button
+                        onClick={() => setPage('dashboard')}
+                        title="Painel"
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors ${page === 'dashboard' ? 'bg-white text-violet-700' : 'text-indigo-100 hover:bg-white/20'}`}
+                    >
+                        <LayoutDashboard size={14} /> <span className="hidden xl:inline">Painel</span>
+                    </button>
+                </div>
+
+                {user ? (
+                    <div className="hidden sm:flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-white/10 border border-white/10 text-xs font-semibold text-indigo-100">
+                        <UserRound size={14} />
+                        <span>{user.username}</span>
+                        <span className="text-indigo-200 font-normal">· {ROLE_LABELS[user.role]}</span>
+                        {can('manage-users') && (
+                            <button onClick={() => setIsUsersOpen(true)} title="Usuários" className="ml-1 p-1.5 rounded-full hover:bg-white/20 transition-colors">
+                                <Users size={14} />
+                            </button>
+                        )}
+                        <button onClick={onLogout} title="Sair" className="p-1.5 rounded-full hover:bg-white/20 transition-colors">
+                            <LogOut size={14} />
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={askOperator}
+                        title="Operador registrado no histórico"
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-full bg-white/10 border border-white/10 text-xs font-semibold text-indigo-100 hover:bg-white/20 transition-colors"
+                    >
+                        <UserRound size={14} />
+                        {operator || 'Identificar-se'}
+                    </button>
+                )}
+
+                <button
+                    onClick={() => setIsAiSettingsOpen(true)}
+                    title="Configurar IA"
+                    className="p-2.5 rounded-full bg-white/10 border border-white/10 text-indigo-100 hover:bg-white/20 transition-colors"
+                >
+                    <Bot size={18} />
+                </button>
+
                 <button 
                     onClick={handleAnalyze}
                     disabled={isAnalyzing}
@@ -211,61 +922,201 @@ const App: React.FC = () => {
       <main className="flex-1 max-w-7xl w-full mx-auto p-4 md:p-6 overflow-hidden flex flex-col">
         
         {/* Toolbar */}
-        <div className="mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
-            <div className="relative max-w-md w-full group">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-indigo-400 group-focus-within:text-violet-600 transition-colors" size={18} />
-                <input 
-                    type="text" 
-                    placeholder="Buscar por nome ou whatsapp..." 
-                    value={searchTerm}
-                    onChange={(e) => {
-                        setSearchTerm(e.target.value);
-                        setCurrentPage(1);
-                    }}
-                    className="w-full pl-10 pr-4 py-3 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none shadow-sm text-sm transition-all text-slate-700"
-                />
+        {page === 'sheet' && (
+          <div className="mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              {can('view-people') && (
+                  <div className="flex items-center gap-2 max-w-md w-full">
+                      <div className="relative flex-1 group">
+                          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-indigo-400 group-focus-within:text-violet-600 transition-colors" size={18} />
+                          <input 
+                              type="text" 
+                              placeholder="Buscar por nome ou whatsapp..." 
+                              value={listView.search}
+                              onChange={(e) => handleViewChange({ ...listView, search: e.target.value })}
+                              className="w-full pl-10 pr-4 py-3 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none shadow-sm text-sm transition-all text-slate-700"
+                          />
+                      </div>
+                      <button
+                          onClick={() => setIsFilterBarOpen(open => !open)}
+                          title="Filtros e visões salvas"
+                          className={`relative p-3 border rounded-xl shadow-sm transition-colors ${isFilterBarOpen ? 'bg-violet-100 border-violet-300 text-violet-700' : 'bg-white border-indigo-200 text-indigo-600 hover:bg-indigo-50'}`}
+                      >
+                          <SlidersHorizontal size={18} />
+                          {hasFilters(listView) && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-violet-600 ring-2 ring-white" />}
+                      </button>
+                  </div>
+              )}
+              <div className="flex items-center gap-2 overflow-x-auto pb-1 md:pb-0">
+                  {can('edit-contacts') && (
+                      <div className="flex items-center bg-white border border-indigo-200 rounded-xl shadow-sm">
+                          <button
+                              onClick={handleUndo}
+                              disabled={undoHistory.past.length === 0}
+                              title={undoHistory.past.length > 0 ? `Desfazer: ${undoHistory.past[undoHistory.past.length - 1].label} (Ctrl+Z)` : 'Desfazer (Ctrl+Z)'}
+                              className="p-2.5 text-indigo-700 hover:bg-indigo-50 rounded-l-xl disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                          >
+                              <Undo2 size={18} />
+                          </button>
+                          <button
+                              onClick={handleRedo}
+                              disabled={undoHistory.future.length === 0}
+                              title={undoHistory.future.length > 0 ? `Refazer: ${undoHistory.future[0].label} (Ctrl+Shift+Z)` : 'Refazer (Ctrl+Shift+Z)'}
+                              className="p-2.5 text-indigo-700 hover:bg-indigo-50 rounded-r-xl border-l border-indigo-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                          >
+                              <Redo2 size={18} />
+                          </button>
+                      </div>
+                  )}
+                  {can('edit-contacts') && (
+                      <button onClick={handleAddRow} className="flex items-center gap-1.5 px-4 py-2.5 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors text-sm font-semibold shadow-md shadow-violet-200 whitespace-nowrap">
+                          <Plus size={18} />
+                          Adicionar
+                      </button>
+                  )}
+                  {can('manage-groups') && (
+                      <button onClick={() => setIsSettingsOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <Settings size={18} />
+                          Turma
+                      </button>
+                  )}
+                  {can('manage-groups') && (
+                      <button onClick={() => setIsFieldsOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <Tags size={18} />
+                          Campos
+                      </button>
+                  )}
+                  {can('manage-groups') && (
+                      <button onClick={() => setIsPixSettingsOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <QrCode size={18} />
+                          Pix
+                      </button>
+                  )}
+                  {can('delete') && (
+                      <button onClick={handleClearEmpty} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-rose-200 text-rose-600 rounded-xl hover:bg-rose-50 hover:border-rose-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <Trash size={18} />
+                          Limpar
+                      </button>
+                  )}
+                  {can('delete') && (
+                      <button onClick={() => setIsTrashOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <Trash2 size={18} />
+                          Lixeira{trash.length > 0 && <span className="ml-0.5 px-1.5 rounded-full bg-rose-100 text-rose-600 text-xs font-bold">{trash.length}</span>}
+                      </button>
+                  )}
+                  {can('send-messages') && (
+                      <button onClick={() => setIsCampaignOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-emerald-200 text-emerald-700 rounded-xl hover:bg-emerald-50 hover:border-emerald-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <Megaphone size={18} />
+                          Cobrança
+                      </button>
+                  )}
+                  {can('send-messages') && (
+                      <button onClick={() => setIsTemplatesOpen(true)} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
+                          <FileText size={18} />
+                          Modelos
+                      </button>
+                  )}
+                  {can('manage-groups') && (
+                      <button 
+                        onClick={() => setIsImportOpen(true)}
+                        className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap"
+                      >
+                          <Upload size={18} />
+                          Importar
+                      </button>
+                  )}
+                  {can('edit-payments') && (
+                      <button 
+                        onClick={() => setIsStatementOpen(true)}
+                        className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap"
+                      >
+                          <Landmark size={18} />
+                          Extrato
+                      </button>
+                  )}
+                  {can('view-people') && (
+                      <button 
+                        onClick={() => setIsExportOpen(true)}
+                        className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap"
+                      >
+                          <Download size={18} />
+                          Exportar
+                      </button>
+                  )}
+                  {can('manage-data') && (
+                      <button 
+                        onClick={() => setIsBackupOpen(true)}
+                        className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap"
+                      >
+                          <DatabaseBackup size={18} />
+                          Backup
+                      </button>
+                  )}
+              </div>
+          </div>
+        )}
+
+        {page === 'sheet' && isFilterBarOpen && can('view-people') && (
+            <FilterBar
+                view={listView}
+                cohort={cohort}
+                savedViews={savedViews}
+                tags={tagsInGroup}
+                fields={fieldSettings.custom}
+                onChange={handleViewChange}
+                onSave={handleSaveView}
+                onDeleteSaved={handleDeleteView}
+                onCopyLink={handleCopyViewLink}
+            />
+        )}
+
+        {page === 'sheet' && segmentFilter && (
+            <div className="-mt-3 mb-4 flex items-center gap-2 text-sm">
+                <span className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full bg-violet-100 text-violet-700 font-semibold">
+                    {RISK_SEGMENT_LABELS[segmentFilter]} ({adherence.segments[segmentFilter].length})
+                    <button onClick={() => setSegmentFilter(null)} title="Remover filtro" className="p-0.5 rounded-full hover:bg-violet-200 transition-colors">
+                        <X size={14} />
+                    </button>
+                </span>
             </div>
-            <div className="flex items-center gap-2 overflow-x-auto pb-1 md:pb-0">
-                <button onClick={handleAddRow} className="flex items-center gap-1.5 px-4 py-2.5 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors text-sm font-semibold shadow-md shadow-violet-200 whitespace-nowrap">
-                    <Plus size={18} />
-                    Adicionar
-                </button>
-                <button onClick={handleClearEmpty} className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-rose-200 text-rose-600 rounded-xl hover:bg-rose-50 hover:border-rose-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap">
-                    <Trash size={18} />
-                    Limpar
-                </button>
-                <button 
-                  onClick={() => alert("Função de exportação CSV seria implementada aqui.")}
-                  className="flex items-center gap-1.5 px-4 py-2.5 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 hover:border-indigo-300 transition-colors text-sm font-medium shadow-sm whitespace-nowrap"
-                >
-                    <Download size={18} />
-                    Exportar
+        )}
+
+        {conflictNotice && (
+            <div className="mb-6 flex items-center gap-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 shadow-sm">
+                <AlertTriangle size={18} className="flex-shrink-0" />
+                <span className="flex-1">{conflictNotice}</span>
+                <button onClick={() => setConflictNotice(null)} title="Fechar" className="p-1 rounded-lg hover:bg-amber-100 transition-colors">
+                    <X size={16} />
                 </button>
             </div>
-        </div>
+        )}
 
-        {/* AI Analysis Result Panel */}
-        {analysisResult && (
-            <div className="mb-6 bg-gradient-to-br from-white to-purple-50 p-6 rounded-2xl shadow-lg border border-purple-100 relative animate-in fade-in slide-in-from-top-4 duration-500 ring-1 ring-purple-100">
-                <div className="flex items-center gap-2 mb-4 text-purple-700">
-                    <div className="bg-purple-100 p-2 rounded-lg">
-                        <BrainCircuit size={20} />
-                    </div>
-                    <h3 className="font-bold text-lg">Insights da Inteligência Artificial</h3>
-                </div>
-                <div className="prose prose-sm prose-purple max-w-none text-slate-600 bg-white/50 p-4 rounded-xl border border-purple-100/50">
-                    <ReactMarkdown>{analysisResult}</ReactMarkdown>
-                </div>
-                <button 
-                    onClick={() => setAnalysisResult(null)}
-                    className="absolute top-4 right-4 text-purple-300 hover:text-purple-500 transition-colors"
+        {saveError && (
+            <div className="mb-6 flex items-center gap-3 text-sm text-rose-700 bg-rose-50 border border-rose-200 rounded-xl px-4 py-3 shadow-sm">
+                <AlertTriangle size={18} className="flex-shrink-0" />
+                <span className="flex-1">{saveError}</span>
+                <button
+                    onClick={() => persistWorkspace({ activeGroupId, groups, ledger, messaging, fields: fieldSettings })}
+                    disabled={isSaving}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-rose-200 rounded-lg font-semibold hover:bg-rose-100 disabled:opacity-50 transition-colors whitespace-nowrap"
                 >
-                    <span className="sr-only">Fechar</span>
-                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    {isSaving ? <Loader2 className="animate-spin" size={14} /> : <RotateCcw size={14} />}
+                    Tentar novamente
                 </button>
             </div>
         )}
 
+        {/* AI Analysis Panel */}
+        {isAnalysisOpen && (
+            <AnalysisPanel
+                metrics={adherence}
+                analysis={analysis}
+                isAnalyzing={isAnalyzing}
+                error={analysisError}
+                onSelectSegment={handleSelectSegment}
+                onClose={() => setIsAnalysisOpen(false)}
+            />
+        )}
+
         {/* Generated Message Modal */}
         {generatedMessage && (
              <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
@@ -276,6 +1127,9 @@ const App: React.FC = () => {
                     <div className="bg-indigo-50 p-5 rounded-xl text-slate-700 text-sm mb-6 whitespace-pre-wrap border border-indigo-100 leading-relaxed shadow-inner">
                         {generatedMessage.text}
                     </div>
+                    {generatedMessage.fromTemplate && (
+                        <p className="-mt-4 mb-6 text-xs text-amber-600">A IA não respondeu; esta mensagem veio do modelo de mensagens.</p>
+                    )}
                     <div className="flex justify-end gap-3">
                         <button 
                             onClick={() => setGeneratedMessage(null)}
@@ -292,83 +1146,360 @@ const App: React.FC = () => {
                         >
                             Copiar Texto
                         </button>
+                        {generatedMessageLink && (
+                            <a
+                                href={generatedMessageLink}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1.5 px-5 py-2.5 bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:from-green-600 hover:to-emerald-700 rounded-xl text-sm font-bold shadow-md transform hover:-translate-y-0.5 transition-all"
+                            >
+                                <MessageCircle size={16} />
+                                Abrir no WhatsApp
+                            </a>
+                        )}
                     </div>
                 </div>
              </div>
         )}
 
-        {/* Table Container */}
-        <div className="bg-white rounded-2xl shadow-xl shadow-indigo-100/50 border border-indigo-100 flex flex-col flex-1 overflow-hidden">
-            {/* Table Header */}
-            <div className="flex items-center bg-indigo-50/80 border-b border-indigo-100 text-xs font-bold text-indigo-800 uppercase tracking-wider select-none backdrop-blur-sm">
-                <div className="w-12 text-center py-4 text-indigo-400">#</div>
-                <div className="flex-1 px-4 py-4 border-r border-orange-300">Participante</div>
-                <div className="w-40 md:w-48 px-4 py-4 border-r border-orange-300">WhatsApp</div>
-                <div className="w-56 md:w-80 border-r border-orange-300 flex">
-                   <div className="flex-1 text-center py-4 border-r border-orange-300">Sem 1</div>
-                   <div className="flex-1 text-center py-4 border-r border-orange-300">Sem 2</div>
-                   <div className="flex-1 text-center py-4 border-r border-orange-300">Sem 3</div>
-                   <div className="flex-1 text-center py-4 border-r border-orange-300">Sem 4</div>
-                   <div className="flex-1 text-center py-4">Sem 5</div>
-                </div>
-                <div className="w-24 text-center py-4">Status</div>
-            </div>
+        {/* Export Modal */}
+        {isExportOpen && (
+            <ExportModal
+                allData={data}
+                filteredData={filteredData}
+                selectedData={selectedParticipants}
+                cohort={cohort}
+                hasFilter={listView.search !== '' || hasFilters(listView) || segmentFilter !== null}
+                fields={fieldSettings.custom}
+                onClose={() => setIsExportOpen(false)}
+            />
+        )}
 
-            {/* Scrollable List */}
-            <div className="overflow-y-auto flex-1 bg-white custom-scrollbar">
-                {paginatedData.length > 0 ? (
-                    paginatedData.map((participant, idx) => (
-                        <SpreadsheetRow 
-                            key={participant.id} 
-                            index={(currentPage - 1) * ITEMS_PER_PAGE + idx}
-                            participant={participant} 
-                            onUpdate={handleUpdate}
-                            onDelete={handleDelete}
-                            onGenerateMessage={handleGenerateMessage}
-                        />
-                    ))
-                ) : (
-                    <div className="flex flex-col items-center justify-center h-64 text-indigo-300">
-                        <Users size={48} className="mb-4 opacity-50" />
-                        <p className="font-medium">Nenhum participante encontrado.</p>
-                        <button onClick={handleAddRow} className="mt-2 text-violet-600 hover:text-violet-800 font-semibold underline decoration-2 decoration-violet-200 hover:decoration-violet-500 transition-all">Adicionar novo participante</button>
+        {/* Import Modal */}
+        {isImportOpen && (
+            <ImportModal
+                data={data}
+                cohort={cohort}
+                fields={fieldSettings.custom}
+                onConfirm={handleImport}
+                onClose={() => setIsImportOpen(false)}
+            />
+        )}
+
+        {/* Cohort Settings Modal */}
+        {isSettingsOpen && (
+            <CohortSettingsModal
+                cohort={cohort}
+                data={data}
+                onSave={handleSaveCohort}
+                onClose={() => setIsSettingsOpen(false)}
+            />
+        )}
+
+        {/* Move / Copy Modal */}
+        {transferTarget && (
+            <TransferModal
+                participants={transferTarget}
+                groups={groups}
+                sourceGroupId={activeGroupId}
+                onConfirm={handleTransfer}
+                onClose={() => setTransferTarget(null)}
+            />
+        )}
+
+        {/* Payments Modal */}
+        {paymentsParticipant && (
+            <PaymentsModal
+                participant={paymentsParticipant}
+                cohort={cohort}
+                onChange={handleReplaceParticipant}
+                onClose={() => setPaymentsParticipantId(null)}
+            />
+        )}
+
+        {/* History Drawer */}
+        {historyParticipant && (
+            <HistoryDrawer
+                participant={historyParticipant}
+                cohort={cohort}
+                events={ledger.filter(e => e.participantId === historyParticipant.id)}
+                onAddNote={(note) => handleAddNote(historyParticipant.id, note)}
+                onReconcile={can('edit-payments') ? () => handleReconcile(historyParticipant) : undefined}
+                onClose={() => setHistoryParticipantId(null)}
+            />
+        )}
+
+        {/* Bank statement */}
+        {isStatementOpen && (
+            <StatementModal
+                participants={allParticipants}
+                cohort={cohort}
+                reconciled={getPaymentReferences(groups)}
+                onApply={handleApplyStatement}
+                onClose={() => setIsStatementOpen(false)}
+            />
+        )}
+
+        {/* Pix */}
+        {pixParticipant && (
+            <PixModal
+                participant={pixParticipant}
+                cohort={cohort}
+                pix={messaging.pix}
+                onClose={() => setPixParticipantId(null)}
+            />
+        )}
+
+        {/* Receipts */}
+        {receiptParticipant && (
+            <ReceiptModal
+                participant={receiptParticipant}
+                cohort={cohort}
+                events={ledger.filter(e => e.participantId === receiptParticipant.id)}
+                nextNumber={getNextReceiptNumber(ledger)}
+                onIssue={(periodIndexes) => handleIssueReceipt(receiptParticipant, periodIndexes)}
+                onReprint={(receipt) => handlePrintReceipt(receiptParticipant, receipt)}
+                onClose={() => setReceiptParticipantId(null)}
+            />
+        )}
+
+        {/* Trash */}
+        {isTrashOpen && (
+            <TrashModal
+                participants={trash}
+                onRestore={handleRestore}
+                onPurge={handlePurge}
+                onClose={() => setIsTrashOpen(false)}
+            />
+        )}
+
+        {/* Collection Campaign */}
+        {isCampaignOpen && (
+            <CampaignModal
+                participants={campaignIds ? data.filter(p => campaignIds.has(p.id)) : data}
+                cohort={cohort}
+                ledger={ledger}
+                messaging={messaging}
+                groupName={activeGroup?.name ?? ''}
+                onMarkSent={handleMarkContacted}
+                onClose={() => {
+                    setIsCampaignOpen(false);
+                    setCampaignIds(null);
+                }}
+                initialRule={campaignIds ? 'everyone' : undefined}
+            />
+        )}
+
+        {/* Message Templates */}
+        {isTemplatesOpen && (
+            <TemplatesModal
+                messaging={messaging}
+                participants={data}
+                cohort={cohort}
+                groupName={activeGroup?.name ?? ''}
+                onChange={setMessaging}
+                onClose={() => setIsTemplatesOpen(false)}
+            />
+        )}
+
+        {/* Pix Key */}
+        {isPixSettingsOpen && (
+            <PixSettingsModal
+                pix={messaging.pix}
+                onChange={handlePixChange}
+                onClose={() => setIsPixSettingsOpen(false)}
+            />
+        )}
+
+        {/* Custom Fields and Tag Colors */}
+        {isFieldsOpen && (
+            <FieldsModal
+                fields={fieldSettings}
+                tags={collectTags(groups.flatMap(g => g.participants))}
+                onChange={setFieldSettings}
+                onClose={() => setIsFieldsOpen(false)}
+            />
+        )}
+
+        {/* AI Provider */}
+        {isAiSettingsOpen && (
+            <AiSettingsModal onClose={() => setIsAiSettingsOpen(false)} />
+        )}
+
+        {/* Accounts */}
+        {isUsersOpen && user && (
+            <UsersModal currentUser={user} onClose={() => setIsUsersOpen(false)} />
+        )}
+
+        {/* Backup */}
+        {isBackupOpen && (
+            <BackupModal
+                workspace={{ activeGroupId, groups, ledger, messaging, fields: fieldSettings }}
+                loadSnapshots={workspaceStore.listSnapshots}
+                onRestore={handleRestoreWorkspace}
+                onClose={() => setIsBackupOpen(false)}
+            />
+        )}
+
+        {page === 'dashboard' ? (
+            <Dashboard groups={groups} activeGroupId={activeGroupId} showNames={can('view-people')} />
+        ) : can('view-people') ? (
+          <>
+            {selectedParticipants.length > 0 && (
+                <BulkActionsBar
+                    count={selectedParticipants.length}
+                    cohort={cohort}
+                    can={can}
+                    onMarkPeriod={handleBulkMark}
+                    onDelete={handleBulkDelete}
+                    onTransfer={() => setTransferTarget(selectedParticipants)}
+                    onExport={() => setIsExportOpen(true)}
+                    onMessages={() => {
+                        setCampaignIds(new Set(selectedIds));
+                        setIsCampaignOpen(true);
+                    }}
+                    onAddTag={handleBulkAddTag}
+                    onClear={() => setSelectedIds(new Set())}
+                />
+            )}
+
+            {/* Table Container */}
+            <div className="bg-white rounded-2xl shadow-xl shadow-indigo-100/50 border border-indigo-100 flex flex-col flex-1 overflow-hidden">
+                {/* Horizontal scroll keeps long cohorts (8, 12+ periods) usable on small screens */}
+                <div className="flex-1 overflow-x-auto overflow-y-hidden flex flex-col">
+                  <div className="min-w-max flex flex-col flex-1 overflow-hidden">
+                    {/* Table Header */}
+                    <div className="flex items-center bg-indigo-50/80 border-b border-indigo-100 text-xs font-bold text-indigo-800 uppercase tracking-wider select-none backdrop-blur-sm">
+                        <label className="w-12 flex items-center justify-center py-4 text-indigo-400" title="Selecionar todos do filtro atual">
+                            <input
+                                type="checkbox"
+                                checked={selectableCount > 0 && selectedParticipants.length >= selectableCount}
+                                ref={(el) => { if (el) el.indeterminate = selectedParticipants.length > 0 && selectedParticipants.length < selectableCount; }}
+                                onChange={(e) => handleSelectAllFiltered(e.target.checked)}
+                                className="w-4 h-4 accent-violet-600 cursor-pointer"
+                            />
+                        </label>
+                        <button onClick={() => handleViewChange(toggleSort(listView, 'name'))} className="flex-1 min-w-[200px] px-4 py-4 border-r border-orange-300 flex items-center gap-1 text-left uppercase hover:text-violet-700">Participante {sortIcon('name')}</button>
+                        <button onClick={() => handleViewChange(toggleSort(listView, 'whatsapp'))} className="w-40 md:w-48 px-4 py-4 border-r border-orange-300 flex items-center gap-1 text-left uppercase hover:text-violet-700">WhatsApp {sortIcon('whatsapp')}</button>
+                        <div className="flex-shrink-0 flex" style={{ width: cohort.periodCount * PERIOD_COLUMN_WIDTH }}>
+                           {periodDates.map((date, i) => (
+                             <div key={i} title={getPeriodLabel(cohort, i)} className="flex-1 text-center py-2 border-r border-orange-300 leading-tight">
+                               <div>{FREQUENCY_LABELS[cohort.frequency].short} {i + 1}</div>
+                               <div className="text-[10px] font-semibold text-indigo-400 normal-case tracking-normal">{formatShortDate(date)}</div>
+                             </div>
+                           ))}
+                        </div>
+                        {fieldSettings.custom.map(field => (
+                            <div key={field.id} title={field.name} style={{ width: FIELD_COLUMN_WIDTH }} className="flex-shrink-0 px-3 py-4 border-r border-orange-300 truncate">{field.name}</div>
+                        ))}
+                        <div style={{ width: TAGS_COLUMN_WIDTH }} className="flex-shrink-0 px-3 py-4 border-r border-orange-300">Etiquetas</div>
+                        <div style={{ width: NOTES_COLUMN_WIDTH }} className="flex-shrink-0 px-3 py-4 border-r border-orange-300">Observações</div>
+                        <button onClick={() => handleViewChange(toggleSort(listView, 'status'))} className="w-56 py-4 flex items-center justify-center gap-1 uppercase hover:text-violet-700">Status {sortIcon('status')}</button>
                     </div>
-                )}
-                
-                {/* Spacer */}
-                <div className="h-12 bg-gradient-to-t from-white to-transparent"></div>
-            </div>
 
-            {/* Pagination Footer */}
-            <div className="border-t border-indigo-100 bg-indigo-50/50 p-3 flex items-center justify-between text-xs sm:text-sm">
-                <div className="text-indigo-600 pl-2 font-medium">
-                    Mostrando {paginatedData.length > 0 ? (currentPage - 1) * ITEMS_PER_PAGE + 1 : 0} - {Math.min(currentPage * ITEMS_PER_PAGE, filteredData.length)} de <span className="font-bold">{filteredData.length}</span>
+                    {/* Sheet: one virtual scroll, or the current page */}
+                    <SpreadsheetGrid
+                        rows={listRows}
+                        columns={gridColumns}
+                        firstIndex={firstRowIndex}
+                        onWriteCells={handleWriteCells}
+                        reveal={revealRow}
+                        renderRow={(participant, index, activeCol, selectedCols) => (
+                            <SpreadsheetRow 
+                                index={index}
+                                participant={participant} 
+                                onUpdate={handleUpdate}
+                                onUpdateField={handleUpdateField}
+                                fields={fieldSettings}
+                                onDelete={handleDelete}
+                                onGenerateMessage={handleGenerateMessage}
+                                onTransfer={handleOpenTransfer}
+                                onOpenPayments={handleOpenPayments}
+                                onOpenHistory={handleOpenHistory}
+                                onOpenPix={handleOpenPix}
+                                onOpenReceipt={handleOpenReceipt}
+                                duplicateOf={duplicatePhones.get(participant.id)}
+                                can={can}
+                                activeCol={activeCol}
+                                selectedCols={selectedCols}
+                                isSelected={selectedIds.has(participant.id)}
+                                onSelect={handleSelectRow}
+                            />
+                        )}
+                        empty={
+                            <div className="flex flex-col items-center justify-center h-64 text-indigo-300">
+                                <Users size={48} className="mb-4 opacity-50" />
+                                <p className="font-medium">Nenhum participante encontrado.</p>
+                                {can('edit-contacts') && <button onClick={handleAddRow} className="mt-2 text-violet-600 hover:text-violet-800 font-semibold underline decoration-2 decoration-violet-200 hover:decoration-violet-500 transition-all">Adicionar novo participante</button>}
+                            </div>
+                        }
+                    />
+                  </div>
                 </div>
-                <div className="flex items-center gap-2">
-                    <button 
-                        onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                        disabled={currentPage === 1}
-                        className="p-2 rounded-lg hover:bg-white text-indigo-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all shadow-sm disabled:shadow-none"
-                    >
-                        <ChevronLeft size={18} />
-                    </button>
-                    <span className="px-3 py-1 bg-white rounded-lg shadow-sm font-bold text-indigo-800 border border-indigo-100">
-                        {currentPage} / {Math.max(1, totalPages)}
-                    </span>
-                    <button 
-                        onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                        disabled={currentPage === totalPages || totalPages === 0}
-                        className="p-2 rounded-lg hover:bg-white text-indigo-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all shadow-sm disabled:shadow-none"
-                    >
-                        <ChevronRight size={18} />
-                    </button>
+
+                {/* Footer: list mode and pagination */}
+                <div className="border-t border-indigo-100 bg-indigo-50/50 p-3 flex items-center justify-between gap-2 text-xs sm:text-sm">
+                    <div className="text-indigo-600 pl-2 font-medium">
+                        {listMode === 'pages' ? (
+                            <>Mostrando {paginatedData.length > 0 ? (currentPage - 1) * ITEMS_PER_PAGE + 1 : 0} - {Math.min(currentPage * ITEMS_PER_PAGE, filteredData.length)} de <span className="font-bold">{filteredData.length}</span></>
+                        ) : (
+                            <><span className="font-bold">{filteredData.length}</span> participantes</>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="flex bg-white rounded-lg border border-indigo-100 shadow-sm p-0.5">
+                            <button
+                                onClick={() => handleListMode('scroll')}
+                                title="Lista completa com rolagem"
+                                className={`flex items-center gap-1 px-2 py-1 rounded-md font-semibold transition-colors ${listMode === 'scroll' ? 'bg-violet-100 text-violet-700' : 'text-indigo-400 hover:text-indigo-700'}`}
+                            >
+                                <Rows3 size={14} /> <span className="hidden sm:inline">Rolagem</span>
+                            </button>
+                            <button
+                                onClick={() => handleListMode('pages')}
+                                title={`Páginas de ${ITEMS_PER_PAGE} linhas`}
+                                className={`flex items-center gap-1 px-2 py-1 rounded-md font-semibold transition-colors ${listMode === 'pages' ? 'bg-violet-100 text-violet-700' : 'text-indigo-400 hover:text-indigo-700'}`}
+                            >
+                                <Files size={14} /> <span className="hidden sm:inline">Páginas</span>
+                            </button>
+                        </div>
+                        {listMode === 'pages' && (
+                          <>
+                            <button 
+                                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                                disabled={currentPage === 1}
+                                className="p-2 rounded-lg hover:bg-white text-indigo-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all shadow-sm disabled:shadow-none"
+                            >
+                                <ChevronLeft size={18} />
+                            </button>
+                            <span className="px-3 py-1 bg-white rounded-lg shadow-sm font-bold text-indigo-800 border border-indigo-100">
+                                {currentPage} / {Math.max(1, totalPages)}
+                            </span>
+                            <button 
+                                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                                disabled={currentPage === totalPages || totalPages === 0}
+                                className="p-2 rounded-lg hover:bg-white text-indigo-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all shadow-sm disabled:shadow-none"
+                            >
+                                <ChevronRight size={18} />
+                            </button>
+                          </>
+                        )}
+                    </div>
                 </div>
             </div>
-        </div>
-        
-        {/* Helper hint */}
-        <div className="mt-3 text-center text-xs font-medium text-indigo-300">
-            Dica: Seus dados são salvos automaticamente no navegador.
+          </>
+        ) : (
+            <div className="bg-white rounded-2xl shadow-xl shadow-indigo-100/50 border border-indigo-100 flex flex-col items-center justify-center py-16 px-4 text-center text-indigo-400">
+                <Eye size={40} className="mb-3 opacity-60" />
+                <p className="font-semibold text-indigo-600">Seu perfil ({user && ROLE_LABELS[user.role]}) vê apenas as estatísticas.</p>
+                <p className="text-sm mt-1">Use o Painel ou "IA Analisar" para ver a adesão da turma. Peça a um tesoureiro para ver a lista de participantes.</p>
+            </div>
+        )}
+
+        {/* Save / sync status */}
+        <div className="mt-3 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs font-medium text-indigo-300">
+            <SyncIndicator status={syncStatus} isSaving={isSaving} />
+            {can('edit-contacts') && <span>Setas, Tab e Enter navegam; Espaço marca o período; Ctrl+C / Ctrl+V trocam células com o Excel. Ctrl+Z desfaz e Ctrl+Shift+Z refaz.</span>}
         </div>
       </main>
     </div>
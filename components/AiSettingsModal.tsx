@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Bot, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { AI_PROVIDER_LABELS, AiProviderKind, AiSettings, DEFAULT_MODELS, SERVER_MODELS } from '../services/aiProviders';
+import { getAiSettings, testAiSettings, updateAiSettings } from '../services/aiService';
+import { API_URL } from '../services/apiClient';
+
+interface AiSettingsModalProps {
+  onClose: () => void;
+}
+
+interface TestResult {
+  ok: boolean;
+  text: string;
+}
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<AiSettings>(getAiSettings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const update = (changes: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const handleProviderChange = (provider: AiProviderKind) => {
+    // Keep a custom model name, but swap the default one for the new provider's.
+    const model = draft.model === DEFAULT_MODELS[draft.provider] ? DEFAULT_MODELS[provider] : draft.model;
+    update({ provider, model });
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const text = await testAiSettings(draft);
+      setTestResult({ ok: true, text: text.trim() || 'Conectado.' });
+    } catch (e) {
+      setTestResult({ ok: false, text: e instanceof Error ? e.message : 'Não foi possível conectar.' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    updateAiSettings({ ...draft, model: draft.model.trim() || DEFAULT_MODELS[draft.provider], baseUrl: draft.baseUrl.trim() });
+    onClose();
+  };
+
+  const inputClass = "w-full px-3 py-2.5 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <Bot size={22} className="text-violet-600" /> Configurar IA
+        </h3>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Provedor</span>
+            <select
+              value={draft.provider}
+              onChange={(e) => handleProviderChange(e.target.value as AiProviderKind)}
+              className={`${inputClass} mt-1`}
+            >
+              {(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[])
+                .filter(kind => kind !== 'server' || API_URL || draft.provider === 'server')
+                .map(kind => (
+                  <option key={kind} value={kind}>{AI_PROVIDER_LABELS[kind]}</option>
+                ))}
+            </select>
+          </label>
+
+          {draft.provider !== 'mock' && (
+            <>
+              <label className="block">
+                <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Modelo</span>
+                {draft.provider === 'server' ? (
+                  <select
+                    value={SERVER_MODELS.includes(draft.model) ? draft.model : DEFAULT_MODELS.server}
+                    onChange={(e) => update({ model: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  >
+                    {SERVER_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={draft.model}
+                    placeholder={DEFAULT_MODELS[draft.provider]}
+                    onChange={(e) => update({ model: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                )}
+              </label>
+
+              {draft.provider === 'openai-compatible' && (
+                <label className="block">
+                  <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Endereço do servidor</span>
+                  <input
+                    type="url"
+                    value={draft.baseUrl}
+                    onChange={(e) => update({ baseUrl: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              )}
+
+              {draft.provider === 'server' ? (
+                <p className="text-xs text-slate-500 bg-indigo-50/60 border border-indigo-100 rounded-xl p-3">
+                  A chave fica no servidor da equipe (variável GEMINI_API_KEY) e não passa pelo navegador.
+                </p>
+              ) : (
+                <label className="block">
+                  <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">
+                    Chave da API{draft.provider === 'openai-compatible' && ' (opcional)'}
+                  </span>
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    value={draft.apiKey}
+                    onChange={(e) => update({ apiKey: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                  <span className="block text-[11px] text-indigo-300 mt-1">
+                    Fica salva apenas neste navegador. Não entra nos backups nem no código publicado.
+                  </span>
+                </label>
+              )}
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-500 bg-indigo-50/60 border border-indigo-100 rounded-xl p-3">
+              Respostas fixas geradas a partir dos dados, sem acesso à rede. Útil para testar a campanha e a análise.
+            </p>
+          )}
+
+          {testResult && (
+            <p className={`text-xs rounded-xl p-3 flex gap-2 border ${testResult.ok ? 'text-emerald-700 bg-emerald-50 border-emerald-200' : 'text-rose-700 bg-rose-50 border-rose-200'}`}>
+              {testResult.ok ? <CheckCircle2 size={16} className="flex-shrink-0" /> : <AlertCircle size={16} className="flex-shrink-0" />}
+              <span className="whitespace-pre-wrap line-clamp-4">{testResult.text}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 mt-6">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="flex items-center gap-1.5 px-4 py-2.5 text-violet-600 hover:bg-violet-50 rounded-xl text-sm font-semibold disabled:opacity-60 transition-colors"
+          >
+            {isTesting && <Loader2 className="animate-spin" size={16} />} Testar conexão
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md transition-all"
+            >
+              Salvar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
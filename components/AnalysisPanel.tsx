@@ -0,0 +1,135 @@
+import React from 'react';
+import { BrainCircuit, Loader2, Users, X } from 'lucide-react';
+import { AiAnalysis, RecommendationPriority } from '../services/aiService';
+import { AdherenceMetrics, RISK_SEGMENTS, RISK_SEGMENT_LABELS, RiskSegment, formatPercent } from '../utils/metrics';
+
+interface AnalysisPanelProps {
+  metrics: AdherenceMetrics;
+  analysis: AiAnalysis | null;
+  isAnalyzing: boolean;
+  error: string | null;
+  onSelectSegment: (segment: RiskSegment) => void;
+  onClose: () => void;
+}
+
+const SEGMENT_COLORS: Record<RiskSegment, string> = {
+  'paid-up': 'bg-emerald-400',
+  'one-behind': 'bg-amber-400',
+  'at-risk': 'bg-rose-400',
+  'never-paid': 'bg-slate-400'
+};
+
+const PRIORITY_STYLES: Record<RecommendationPriority, string> = {
+  alta: 'bg-rose-100 text-rose-700',
+  media: 'bg-amber-100 text-amber-700',
+  baixa: 'bg-indigo-100 text-indigo-600'
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ metrics, analysis, isAnalyzing, error, onSelectSegment, onClose }) => {
+  const maxDistribution = Math.max(1, ...metrics.paidDistribution);
+
+  return (
+    <div className="mb-6 bg-gradient-to-br from-white to-purple-50 p-6 rounded-2xl shadow-lg border border-purple-100 relative animate-in fade-in slide-in-from-top-4 duration-500 ring-1 ring-purple-100">
+      <div className="flex items-center gap-2 mb-4 text-purple-700">
+        <div className="bg-purple-100 p-2 rounded-lg">
+          <BrainCircuit size={20} />
+        </div>
+        <h3 className="font-bold text-lg">Análise de Adimplência</h3>
+        <span className="ml-2 text-sm text-slate-500">
+          {formatPercent(metrics.adherenceRate)} dos pagamentos até hoje · {metrics.participantCount} participantes
+        </span>
+      </div>
+      <button onClick={onClose} className="absolute top-4 right-4 text-purple-300 hover:text-purple-500 transition-colors">
+        <span className="sr-only">Fechar</span>
+        <X size={24} />
+      </button>
+
+      <div className="grid md:grid-cols-3 gap-4 mb-4">
+        {/* Rate per period */}
+        <div className="bg-white/70 border border-purple-100/60 rounded-xl p-4 md:col-span-2">
+          <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Pagamento por período</p>
+          <div className="flex items-end gap-1.5 h-32">
+            {metrics.periodRates.map(r => (
+              <div key={r.index} className="flex-1 h-full flex flex-col justify-end items-center gap-1 min-w-0" title={`${r.label}: ${r.paid} de ${r.total}`}>
+                <span className="text-[10px] font-semibold text-slate-500">{formatPercent(r.rate)}</span>
+                <div
+                  className={`w-full rounded-t-md ${r.index < metrics.periodsToDate ? 'bg-gradient-to-t from-violet-500 to-fuchsia-400' : 'bg-indigo-100'}`}
+                  style={{ height: `${Math.max(2, r.rate * 100)}%` }}
+                />
+                <span className="text-[10px] text-indigo-400">{r.index + 1}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Distribution of paid counts */}
+        <div className="bg-white/70 border border-purple-100/60 rounded-xl p-4">
+          <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3">Períodos pagos por pessoa</p>
+          <div className="space-y-1">
+            {metrics.paidDistribution.map((count, paid) => (
+              <div key={paid} className="flex items-center gap-2 text-[11px]">
+                <span className="w-5 text-right text-indigo-400">{paid}</span>
+                <div className="flex-1 bg-indigo-50 rounded-full h-2.5 overflow-hidden">
+                  <div className="h-full bg-violet-400 rounded-full" style={{ width: `${(count / maxDistribution) * 100}%` }} />
+                </div>
+                <span className="w-8 text-slate-500">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Risk segments */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+        {RISK_SEGMENTS.map(segment => (
+          <button
+            key={segment}
+            onClick={() => onSelectSegment(segment)}
+            disabled={metrics.segments[segment].length === 0}
+            className="text-left bg-white/70 border border-purple-100/60 rounded-xl p-3 hover:border-violet-300 hover:bg-white disabled:opacity-50 disabled:hover:bg-white/70 transition-colors"
+          >
+            <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-600">
+              <span className={`w-2 h-2 rounded-full ${SEGMENT_COLORS[segment]}`} />
+              {RISK_SEGMENT_LABELS[segment]}
+            </span>
+            <span className="text-2xl font-bold text-slate-800">{metrics.segments[segment].length}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* AI recommendations */}
+      <div className="bg-white/50 p-4 rounded-xl border border-purple-100/50">
+        {isAnalyzing ? (
+          <p className="flex items-center gap-2 text-sm text-purple-500"><Loader2 className="animate-spin" size={16} /> Gerando recomendações...</p>
+        ) : error ? (
+          <p className="text-sm text-rose-600">{error}</p>
+        ) : analysis ? (
+          <>
+            {analysis.summary && <p className="text-sm text-slate-600 mb-3">{analysis.summary}</p>}
+            <ul className="space-y-2">
+              {analysis.recommendations.map((r, i) => (
+                <li key={i} className="flex items-start gap-3">
+                  <span className={`mt-0.5 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${PRIORITY_STYLES[r.priority]}`}>{r.priority}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-slate-700">{r.title}</p>
+                    <p className="text-sm text-slate-500">{r.detail}</p>
+                  </div>
+                  {r.segment && metrics.segments[r.segment].length > 0 && (
+                    <button
+                      onClick={() => onSelectSegment(r.segment!)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold text-violet-600 hover:bg-violet-50 whitespace-nowrap transition-colors"
+                    >
+                      <Users size={14} /> Selecionar {metrics.segments[r.segment].length}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisPanel;
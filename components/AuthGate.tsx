@@ -0,0 +1,67 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { AuthUser } from '../types';
+import { API_URL, setUnauthorizedHandler } from '../services/apiClient';
+import { getAuthStatus, logout } from '../services/authService';
+import LoginScreen from './LoginScreen';
+
+interface AuthGateProps {
+  // `user` is null in the browser-only mode, which has no accounts.
+  children: (user: AuthUser | null, onLogout: () => void) => React.ReactNode;
+}
+
+type GateState =
+  | { status: 'checking' }
+  | { status: 'offline'; error: string }
+  | { status: 'login'; isSetup: boolean }
+  | { status: 'ready'; user: AuthUser };
+
+// With a team server the app only renders for a logged-in account.
+const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const [state, setState] = useState<GateState>({ status: 'checking' });
+
+  const check = useCallback(() => {
+    setState({ status: 'checking' });
+    getAuthStatus()
+      .then(({ needsSetup, user }) => setState(user ? { status: 'ready', user } : { status: 'login', isSetup: needsSetup }))
+      .catch((e) => setState({ status: 'offline', error: e instanceof Error ? e.message : String(e) }));
+  }, []);
+
+  useEffect(() => {
+    if (!API_URL) return;
+    check();
+    setUnauthorizedHandler(() => setState({ status: 'login', isSetup: false }));
+    return () => setUnauthorizedHandler(null);
+  }, [check]);
+
+  const handleLogout = useCallback(() => {
+    logout()
+      .catch((e) => console.error("Failed to end the session", e))
+      .finally(() => setState({ status: 'login', isSetup: false }));
+  }, []);
+
+  if (!API_URL) return <>{children(null, () => undefined)}</>;
+
+  switch (state.status) {
+    case 'checking':
+      return <div className="flex items-center justify-center h-screen bg-indigo-50"><Loader2 className="animate-spin text-purple-600" size={48} /></div>;
+    case 'offline':
+      return (
+        <div className="flex flex-col items-center justify-center gap-4 h-screen bg-indigo-50 p-4 text-center">
+          <p className="flex items-center gap-2 text-sm text-rose-700"><AlertTriangle size={18} /> Servidor indisponível: {state.error}</p>
+          <button
+            onClick={check}
+            className="flex items-center gap-1.5 px-4 py-2 bg-white border border-rose-200 rounded-lg text-sm font-semibold text-rose-700 hover:bg-rose-50 transition-colors"
+          >
+            <RotateCcw size={14} /> Tentar novamente
+          </button>
+        </div>
+      );
+    case 'login':
+      return <LoginScreen isSetup={state.isSetup} onLoggedIn={(user) => setState({ status: 'ready', user })} />;
+    case 'ready':
+      return <>{children(state.user, handleLogout)}</>;
+  }
+};
+
+export default AuthGate;
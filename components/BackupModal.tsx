@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { DatabaseBackup, Download, Upload, Loader2, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { Workspace } from '../types';
+import { GroupDiffStatus, countParticipants, diffWorkspaces, downloadBackup, parseBackup } from '../services/backupService';
+import { WorkspaceSnapshot } from '../services/storageService';
+
+interface BackupModalProps {
+  workspace: Workspace;
+  loadSnapshots: () => Promise<WorkspaceSnapshot[]>;
+  onRestore: (workspace: Workspace) => void;
+  onClose: () => void;
+}
+
+interface PendingRestore {
+  source: string;
+  workspace: Workspace;
+}
+
+const STATUS_LABELS: Record<GroupDiffStatus, string> = {
+  added: 'nova',
+  removed: 'será removida',
+  changed: 'alterada',
+  unchanged: 'sem mudanças'
+};
+
+const STATUS_COLORS: Record<GroupDiffStatus, string> = {
+  added: 'text-emerald-600',
+  removed: 'text-rose-600',
+  changed: 'text-amber-600',
+  unchanged: 'text-indigo-300'
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const BackupModal: React.FC<BackupModalProps> = ({ workspace, loadSnapshots, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[] | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+
+  useEffect(() => {
+    loadSnapshots()
+      .then(setSnapshots)
+      .catch((e) => {
+        console.error("Failed to load snapshots", e);
+        setSnapshotError("Não foi possível carregar as cópias automáticas.");
+      });
+  }, [loadSnapshots]);
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    try {
+      const backup = parseBackup(await file.text());
+      const exported = backup.exportedAt ? ` (${formatTimestamp(backup.exportedAt)})` : '';
+      setPending({ source: `Arquivo ${file.name}${exported}`, workspace: backup.workspace });
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : "Não foi possível ler o arquivo.");
+    }
+  };
+
+  const diff = pending ? diffWorkspaces(workspace, pending.workspace) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-xl w-full max-h-[85vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <DatabaseBackup size={22} className="text-violet-600" /> Backup
+        </h3>
+
+        {pending && diff ? (
+          <>
+            <p className="text-sm text-slate-500 mb-3">Restaurar de: <span className="font-semibold text-slate-700">{pending.source}</span></p>
+            <div className="overflow-y-auto flex-1 border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+              {diff.groups.map(g => (
+                <div key={g.groupId} className="px-4 py-2.5 text-sm">
+                  <p className="font-medium text-slate-700">
+                    {g.name} <span className={`text-xs font-semibold ${STATUS_COLORS[g.status]}`}>· {STATUS_LABELS[g.status]}</span>
+                  </p>
+                  <p className="text-[11px] text-indigo-400">
+                    {g.participantsBefore} → {g.participantsAfter} participantes
+                    {g.added > 0 && ` · ${g.added} novos`}
+                    {g.removed > 0 && ` · ${g.removed} removidos`}
+                    {g.changed > 0 && ` · ${g.changed} alterados`}
+                    {g.settingsChanged && ' · configurações alteradas'}
+                  </p>
+                </div>
+              ))}
+              <div className="px-4 py-2.5 text-sm text-slate-600">
+                Histórico: {diff.ledgerBefore} → {diff.ledgerAfter} eventos
+              </div>
+              <div className="px-4 py-2.5 text-sm text-slate-600">
+                Modelos de mensagem: {diff.templatesBefore} → {diff.templatesAfter}
+              </div>
+            </div>
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3 flex gap-2 mt-4">
+              <AlertTriangle size={16} className="flex-shrink-0" />
+              Turmas, participantes e configurações atuais serão substituídos; o histórico de pagamentos é mantido e recebe os eventos do backup. Baixe um backup antes se quiser guardar o estado atual.
+            </p>
+            <div className="flex justify-between gap-3 mt-6">
+              <button
+                onClick={() => setPending(null)}
+                className="flex items-center gap-1.5 px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+              >
+                <ArrowLeft size={16} /> Voltar
+              </button>
+              <button
+                onClick={() => onRestore(pending.workspace)}
+                className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md transition-all"
+              >
+                Restaurar
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex gap-2 mb-2">
+              <button
+                onClick={() => downloadBackup(workspace)}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-violet-600 text-white rounded-xl hover:bg-violet-700 text-sm font-semibold shadow-md shadow-violet-200 transition-colors"
+              >
+                <Download size={18} /> Baixar backup
+              </button>
+              <label className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 text-sm font-semibold cursor-pointer transition-colors">
+                <Upload size={18} /> Restaurar arquivo
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+            <p className="text-[11px] text-indigo-300 mb-4">O arquivo inclui todas as turmas, configurações, pagamentos e histórico.</p>
+            {fileError && <p className="text-xs text-rose-600 mb-4">{fileError}</p>}
+
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Cópias automáticas (diárias)</p>
+            <div className="overflow-y-auto flex-1 border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+              {snapshotError ? (
+                <p className="px-4 py-6 text-center text-sm text-rose-500">{snapshotError}</p>
+              ) : !snapshots ? (
+                <div className="flex justify-center py-6"><Loader2 className="animate-spin text-indigo-300" size={20} /></div>
+              ) : snapshots.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-indigo-300">Nenhuma cópia ainda.</p>
+              ) : (
+                snapshots.map(snapshot => (
+                  <div key={snapshot.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-slate-700">{formatTimestamp(snapshot.createdAt)}</p>
+                      <p className="text-[11px] text-indigo-300">
+                        {snapshot.workspace.groups.length} turmas · {countParticipants(snapshot.workspace)} participantes
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setPending({ source: `Cópia de ${formatTimestamp(snapshot.createdAt)}`, workspace: snapshot.workspace })}
+                      className="px-3 py-1.5 rounded-lg text-xs font-semibold text-violet-600 hover:bg-violet-50 transition-colors"
+                    >
+                      Ver e restaurar
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+              >
+                Fechar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, Check, Download, Megaphone, Square, Tag, Trash2, X } from 'lucide-react';
+import { CohortSettings } from '../types';
+import { getPeriodLabel } from '../utils/cohort';
+import { Permission } from '../utils/permissions';
+
+interface BulkActionsBarProps {
+  count: number;
+  cohort: CohortSettings;
+  can: (permission: Permission) => boolean;
+  onMarkPeriod: (periodIndex: number, paid: boolean) => void;
+  onDelete: () => void;
+  onTransfer: () => void;
+  onExport: () => void;
+  onMessages: () => void;
+  onAddTag: (tag: string) => void;
+  onClear: () => void;
+}
+
+const actionClass = 'flex items-center gap-1.5 px-3 py-2 rounded-xl font-semibold transition-colors whitespace-nowrap';
+
+// Each action applies to every checked row and is a single undo step.
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  count,
+  cohort,
+  can,
+  onMarkPeriod,
+  onDelete,
+  onTransfer,
+  onExport,
+  onMessages,
+  onAddTag,
+  onClear
+}) => {
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const period = Math.min(periodIndex, cohort.periodCount - 1);
+
+  const handleAddTag = () => {
+    const tag = window.prompt('Etiqueta para adicionar aos selecionados (ex.: "bolsista"):');
+    if (tag?.trim()) onAddTag(tag.trim());
+  };
+
+  return (
+    <div className="-mt-3 mb-4 flex flex-wrap items-center gap-2 text-sm bg-violet-600 text-white rounded-2xl px-3 py-2 shadow-lg shadow-violet-200 animate-in fade-in slide-in-from-top-2 duration-200">
+      <span className="font-bold px-2">{count} selecionado{count === 1 ? '' : 's'}</span>
+
+      {can('edit-payments') && (
+        <div className="flex items-center gap-1 bg-white/10 rounded-xl p-1">
+          <select
+            value={period}
+            onChange={(e) => setPeriodIndex(Number(e.target.value))}
+            className="px-2 py-1 bg-white text-slate-700 rounded-lg outline-none"
+          >
+            {Array.from({ length: cohort.periodCount }, (_, i) => (
+              <option key={i} value={i}>{getPeriodLabel(cohort, i)}</option>
+            ))}
+          </select>
+          <button onClick={() => onMarkPeriod(period, true)} className={`${actionClass} hover:bg-white/20`}>
+            <Check size={16} /> Marcar pago
+          </button>
+          <button onClick={() => onMarkPeriod(period, false)} className={`${actionClass} hover:bg-white/20`}>
+            <Square size={16} /> Desmarcar
+          </button>
+        </div>
+      )}
+
+      {can('send-messages') && (
+        <button onClick={onMessages} className={`${actionClass} hover:bg-white/20`}>
+          <Megaphone size={16} /> Mensagens
+        </button>
+      )}
+      {can('edit-contacts') && (
+        <button onClick={handleAddTag} className={`${actionClass} hover:bg-white/20`}>
+          <Tag size={16} /> Etiqueta
+        </button>
+      )}
+      {can('manage-groups') && (
+        <button onClick={onTransfer} className={`${actionClass} hover:bg-white/20`}>
+          <ArrowRightLeft size={16} /> Mover
+        </button>
+      )}
+      <button onClick={onExport} className={`${actionClass} hover:bg-white/20`}>
+        <Download size={16} /> Exportar
+      </button>
+      {can('delete') && (
+        <button onClick={onDelete} className={`${actionClass} hover:bg-red-500`}>
+          <Trash2 size={16} /> Excluir
+        </button>
+      )}
+
+      <button onClick={onClear} title="Limpar seleção" className="ml-auto p-2 rounded-lg hover:bg-white/20 transition-colors">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionsBar;
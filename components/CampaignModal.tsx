@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Megaphone, Loader2, RefreshCw, MessageCircle, Check, ArrowLeft, AlertCircle } from 'lucide-react';
+import { CohortSettings, LedgerEvent, MessagingSettings, Participant } from '../types';
+import { generateCollectionMessage } from '../services/aiService';
+import { CAMPAIGN_RULE_LABELS, CampaignCriteria, CampaignRule, countUnpaidToDate, getLastContacts, selectDebtors } from '../utils/campaign';
+import { FREQUENCY_LABELS } from '../utils/cohort';
+import { formatBRL, getParticipantBalance } from '../utils/finance';
+import { buildWhatsAppLink } from '../utils/phone';
+import { SITUATION_LABELS, buildTemplateValues, pickTemplate, renderTemplate } from '../utils/templates';
+
+interface CampaignModalProps {
+  participants: Participant[];
+  cohort: CohortSettings;
+  ledger: LedgerEvent[];
+  messaging: MessagingSettings;
+  groupName: string;
+  onMarkSent: (participantId: string, message: string) => void;
+  onClose: () => void;
+  // 'everyone' when opened for a hand-picked selection.
+  initialRule?: CampaignRule;
+}
+
+type ItemStatus = 'waiting' | 'generating' | 'ready' | 'error' | 'sent';
+
+interface CampaignItem {
+  participantId: string;
+  status: ItemStatus;
+  message: string;
+  fromTemplate?: boolean;
+  error?: string;
+}
+
+const formatContact = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const CampaignModal: React.FC<CampaignModalProps> = ({ participants, cohort, ledger, messaging, groupName, onMarkSent, onClose, initialRule = 'min-unpaid' }) => {
+  const [criteria, setCriteria] = useState<CampaignCriteria>({ rule: initialRule, minUnpaid: 2 });
+  // '' picks the template matching each participant's situation.
+  const [templateId, setTemplateId] = useState('');
+  const [items, setItems] = useState<CampaignItem[] | null>(null);
+  // Bumped to stop running generation loops (new selection or modal closed).
+  const runRef = useRef(0);
+  useEffect(() => () => { runRef.current++; }, []);
+
+  const periodName = FREQUENCY_LABELS[cohort.frequency].plural.toLowerCase();
+  const selected = selectDebtors(participants, cohort, criteria);
+  const lastContacts = getLastContacts(ledger);
+  const byId = new Map(participants.map(p => [p.id, p]));
+
+  const updateItem = (participantId: string, changes: Partial<CampaignItem>) => {
+    setItems(prev => prev && prev.map(item => item.participantId === participantId ? { ...item, ...changes } : item));
+  };
+
+  const generate = async (participantIds: string[], skipCache = false) => {
+    const run = runRef.current;
+    for (const id of participantIds) {
+      if (runRef.current !== run) return;
+      const participant = byId.get(id);
+      if (!participant) continue;
+      updateItem(id, { status: 'generating', error: undefined });
+      const template = pickTemplate(messaging.templates, participant, cohort, templateId);
+      const rendered = template
+        ? renderTemplate(template.body, buildTemplateValues(participant, cohort, { groupName, pixLink: messaging.pixLink, pix: messaging.pix }))
+        : undefined;
+      try {
+        const message = await generateCollectionMessage(participant, cohort, rendered, skipCache);
+        if (runRef.current === run) updateItem(id, { status: 'ready', message, fromTemplate: false });
+      } catch (error) {
+        console.error("Failed to generate message", error);
+        if (rendered) updateItem(id, { status: 'ready', message: rendered, fromTemplate: true });
+        else updateItem(id, { status: 'error', error: "Erro ao gerar mensagem. Tente novamente." });
+      }
+    }
+  };
+
+  const handleStart = () => {
+    const ids = selected.map(p => p.id);
+    setItems(ids.map(participantId => ({ participantId, status: 'waiting', message: '' })));
+    generate(ids);
+  };
+
+  const handleSent = (item: CampaignItem) => {
+    onMarkSent(item.participantId, item.message);
+    updateItem(item.participantId, { status: 'sent' });
+  };
+
+  const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+  const sentCount = items?.filter(i => i.status === 'sent').length ?? 0;
+  const pendingCount = items?.filter(i => i.status === 'waiting' || i.status === 'generating').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <Megaphone size={22} className="text-violet-600" /> Campanha de Cobrança
+        </h3>
+
+        {!items ? (
+          <>
+            <p className="text-sm text-slate-500 mb-5">Escolha quem recebe a mensagem. Cada uma é gerada pela IA a partir do modelo e pode ser revisada antes do envio.</p>
+
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Regra</p>
+            <div className="flex flex-wrap items-center gap-2 mb-5">
+              <select
+                value={criteria.rule}
+                onChange={(e) => setCriteria(prev => ({ ...prev, rule: e.target.value as CampaignRule }))}
+                className={inputClass}
+              >
+                {(Object.keys(CAMPAIGN_RULE_LABELS) as CampaignRule[]).map(rule => (
+                  <option key={rule} value={rule}>{CAMPAIGN_RULE_LABELS[rule]}</option>
+                ))}
+              </select>
+              {criteria.rule === 'min-unpaid' && (
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  ao menos
+                  <input
+                    type="number"
+                    min={1}
+                    max={cohort.periodCount}
+                    value={criteria.minUnpaid}
+                    onChange={(e) => setCriteria(prev => ({ ...prev, minUnpaid: Number(e.target.value) }))}
+                    className={`${inputClass} w-20`}
+                  />
+                  {periodName} em aberto
+                </label>
+              )}
+            </div>
+
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Modelo de referência</p>
+            <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={`${inputClass} mb-5`}>
+              <option value="">Automático (pela situação de cada um)</option>
+              {messaging.templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name} · {SITUATION_LABELS[t.situation]}</option>
+              ))}
+            </select>
+
+            <div className="overflow-y-auto flex-1 border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+              {selected.length === 0 ? (
+                <p className="px-4 py-10 text-center text-sm text-indigo-300">Ninguém se encaixa nessa regra.</p>
+              ) : (
+                selected.map(p => {
+                  const last = lastContacts.get(p.id);
+                  return (
+                    <div key={p.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <span className="flex-1 font-medium text-slate-700 truncate">{p.name || p.whatsapp}</span>
+                      <span className="text-xs text-slate-400">{countUnpaidToDate(p, cohort)} em aberto · {formatBRL(getParticipantBalance(p, cohort).pending)}</span>
+                      <span className="w-32 text-right text-[11px] text-indigo-300">{last ? `contato ${formatContact(last.timestamp)}` : 'sem contato'}</span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors">
+                Cancelar
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={selected.length === 0}
+                className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+              >
+                Gerar {selected.length} mensagens
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-slate-500 mb-4">
+              {sentCount} de {items.length} enviadas
+              {pendingCount > 0 && <span className="text-indigo-400"> · gerando {pendingCount} (uma a cada poucos segundos)</span>}
+            </p>
+
+            <div className="overflow-y-auto flex-1 space-y-3 pr-1">
+              {items.map(item => {
+                const participant = byId.get(item.participantId);
+                if (!participant) return null;
+                const link = item.message ? buildWhatsAppLink(participant.whatsapp, item.message) : null;
+                const last = lastContacts.get(item.participantId);
+                return (
+                  <div key={item.participantId} className={`border rounded-xl p-3 ${item.status === 'sent' ? 'border-emerald-200 bg-emerald-50/40' : 'border-indigo-100'}`}>
+                    <div className="flex items-center gap-2 mb-2 text-sm">
+                      <span className="flex-1 font-semibold text-slate-700 truncate">
+                        {participant.name || '—'} <span className="font-normal text-slate-400">{participant.whatsapp}</span>
+                      </span>
+                      <span className="text-[11px] text-indigo-300">{last ? `último contato ${formatContact(last.timestamp)}` : 'sem contato'}</span>
+                    </div>
+
+                    {item.status === 'waiting' || item.status === 'generating' ? (
+                      <div className="flex items-center gap-2 text-xs text-indigo-400 py-3">
+                        {item.status === 'generating' ? <Loader2 className="animate-spin" size={14} /> : null}
+                        {item.status === 'generating' ? 'Gerando mensagem...' : 'Na fila'}
+                      </div>
+                    ) : (
+                      <textarea
+                        value={item.message}
+                        onChange={(e) => updateItem(item.participantId, { message: e.target.value })}
+                        rows={4}
+                        className="w-full px-3 py-2 border border-indigo-100 rounded-lg text-sm text-slate-700 outline-none focus:ring-2 focus:ring-violet-200 resize-y"
+                      />
+                    )}
+                    {item.fromTemplate && (
+                      <p className="text-xs text-amber-600 mt-1">A IA não respondeu; esta mensagem veio do modelo.</p>
+                    )}
+                    {item.error && (
+                      <p className="flex items-center gap-1.5 text-xs text-rose-600 mt-1"><AlertCircle size={14} /> {item.error}</p>
+                    )}
+
+                    <div className="flex justify-end gap-2 mt-2">
+                      {/* A sent message stays sent: regenerating would queue the person again. */}
+                      {item.status !== 'sent' && (
+                        <button
+                          onClick={() => generate([item.participantId], true)}
+                          disabled={item.status === 'waiting' || item.status === 'generating'}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 transition-colors"
+                        >
+                          <RefreshCw size={14} /> Gerar outra
+                        </button>
+                      )}
+                      {link && item.status !== 'sent' && (
+                        <a
+                          href={link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={() => handleSent(item)}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-emerald-500 hover:bg-emerald-600 transition-colors"
+                        >
+                          <MessageCircle size={14} /> Enviar no WhatsApp
+                        </a>
+                      )}
+                      {item.status === 'sent' ? (
+                        <span className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-emerald-600"><Check size={14} /> Enviada</span>
+                      ) : (
+                        <button
+                          onClick={() => handleSent(item)}
+                          disabled={!item.message.trim()}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-emerald-600 hover:bg-emerald-50 disabled:opacity-40 transition-colors"
+                        >
+                          <Check size={14} /> Marcar como enviada
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-between gap-3 mt-6">
+              <button
+                onClick={() => { runRef.current++; setItems(null); }}
+                className="flex items-center gap-1.5 px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+              >
+                <ArrowLeft size={16} /> Nova seleção
+              </button>
+              <button
+                onClick={onClose}
+                className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+              >
+                Fechar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignModal;
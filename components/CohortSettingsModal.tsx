@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { CalendarDays, AlertTriangle } from 'lucide-react';
+import { CohortSettings, Participant, PeriodFrequency, PeriodOverride } from '../types';
+import { FREQUENCY_LABELS, MAX_PERIODS, MIN_PERIODS, getPeriodDueDate, normalizeCohort, toIsoDate } from '../utils/cohort';
+import { centsToInput, parseBRL } from '../utils/finance';
+
+interface CohortSettingsModalProps {
+  cohort: CohortSettings;
+  data: Participant[];
+  onSave: (cohort: CohortSettings) => void;
+  onClose: () => void;
+}
+
+const CohortSettingsModal: React.FC<CohortSettingsModalProps> = ({ cohort, data, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CohortSettings>(cohort);
+  const [priceInput, setPriceInput] = useState(centsToInput(cohort.periodPrice));
+
+  const normalized = normalizeCohort({ ...draft, periodPrice: parseBRL(priceInput) ?? 0 });
+  const overrides = normalized.periodOverrides ?? {};
+
+  const setOverride = (index: number, changes: PeriodOverride) => {
+    const next = { ...overrides[index], ...changes };
+    if (next.price === undefined) delete next.price;
+    if (!next.dueDate) delete next.dueDate;
+    setDraft({ ...draft, periodOverrides: { ...draft.periodOverrides, [index]: next } });
+  };
+
+  // Shrinking the cohort drops the trailing periods, so warn when any of them was paid.
+  const lostPayments = normalized.periodCount < cohort.periodCount
+    ? data.filter(p => p.weeks.slice(normalized.periodCount).some(Boolean)).length
+    : 0;
+
+  const inputClass = "w-full px-3 py-2.5 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <CalendarDays size={22} className="text-violet-600" /> Configurar Turma
+        </h3>
+
+        <div className="space-y-4">
+          <div className="flex gap-3">
+            <label className="block flex-1">
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Início</span>
+              <input
+                type="date"
+                value={draft.startDate}
+                onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block w-28">
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Períodos</span>
+              <input
+                type="number"
+                min={MIN_PERIODS}
+                max={MAX_PERIODS}
+                value={draft.periodCount}
+                onChange={(e) => setDraft({ ...draft, periodCount: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Frequência</span>
+            <select
+              value={draft.frequency}
+              onChange={(e) => setDraft({ ...draft, frequency: e.target.value as PeriodFrequency })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="weekly">Semanal</option>
+              <option value="biweekly">Quinzenal</option>
+              <option value="monthly">Mensal</option>
+            </select>
+          </label>
+
+          <div className="flex gap-3">
+            <label className="block flex-1">
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Valor por período (R$)</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={priceInput}
+                onChange={(e) => setPriceInput(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block w-36">
+              <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Vence após (dias)</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.dueOffsetDays}
+                onChange={(e) => setDraft({ ...draft, dueOffsetDays: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          {/* Per-period price and due date, blank fields fall back to the values above */}
+          <div className="max-h-52 overflow-y-auto border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+            {Array.from({ length: normalized.periodCount }, (_, i) => (
+              <div key={i} className="flex items-center gap-2 px-3 py-1.5">
+                <span className="w-16 text-xs font-bold text-indigo-600">{FREQUENCY_LABELS[normalized.frequency].short} {i + 1}</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder={centsToInput(normalized.periodPrice)}
+                  defaultValue={overrides[i]?.price !== undefined ? centsToInput(overrides[i].price!) : ''}
+                  onBlur={(e) => setOverride(i, { price: e.target.value.trim() ? parseBRL(e.target.value) ?? undefined : undefined })}
+                  className="w-24 px-2 py-1 border border-indigo-100 rounded-lg text-xs outline-none focus:ring-2 focus:ring-violet-200"
+                />
+                <input
+                  type="date"
+                  value={toIsoDate(getPeriodDueDate(normalized, i))}
+                  onChange={(e) => setOverride(i, { dueDate: e.target.value })}
+                  className={`flex-1 px-2 py-1 border rounded-lg text-xs outline-none focus:ring-2 focus:ring-violet-200 ${overrides[i]?.dueDate ? 'border-violet-300 text-violet-700' : 'border-indigo-100 text-slate-500'}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {lostPayments > 0 && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3 flex gap-2">
+              <AlertTriangle size={16} className="flex-shrink-0" />
+              {lostPayments} participante(s) têm pagamentos marcados nos períodos que serão removidos.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(normalized)}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md transition-all"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CohortSettingsModal;
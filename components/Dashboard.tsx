@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarRange, LayoutDashboard, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { Group } from '../types';
+import { formatShortDate, parseIsoDate } from '../utils/cohort';
+import { formatBRL } from '../utils/finance';
+import { formatPercent } from '../utils/metrics';
+import { DateRange, RevenuePoint, computeDashboard, getChange } from '../utils/dashboard';
+
+interface DashboardProps {
+  groups: Group[];
+  activeGroupId: string;
+  // Without it the top debtors list is left out, since it names people.
+  showNames: boolean;
+}
+
+// Group filter value covering every group that isn't archived.
+const ALL_GROUPS = 'all';
+
+const cardClass = 'bg-white border border-indigo-100 rounded-2xl p-4 shadow-sm';
+const titleClass = 'text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3';
+const inputClass = 'px-3 py-2 bg-white border border-indigo-200 rounded-xl text-sm text-slate-700 outline-none focus:ring-2 focus:ring-violet-200 focus:border-violet-400';
+
+const formatDay = (iso: string) => formatShortDate(parseIsoDate(iso));
+
+const ChangeBadge: React.FC<{ change: number | null; points?: boolean }> = ({ change, points }) => {
+  if (change === null) return null;
+  const up = change >= 0;
+  const Icon = up ? TrendingUp : TrendingDown;
+  // Rates change in percentage points, money in percent.
+  const text = points ? `${up ? '+' : ''}${Math.round(change * 100)} p.p.` : `${up ? '+' : ''}${formatPercent(change)}`;
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-[11px] font-semibold ${up ? 'text-emerald-600' : 'text-rose-600'}`}>
+      <Icon size={12} /> {text}
+    </span>
+  );
+};
+
+// Cumulative revenue as an area chart; one point per day with receipts.
+const RevenueChart: React.FC<{ points: RevenuePoint[] }> = ({ points }) => {
+  if (points.length === 0) {
+    return <p className="h-40 flex items-center justify-center text-sm text-indigo-300">Nenhum pagamento no período.</p>;
+  }
+  const width = 600;
+  const height = 160;
+  const max = Math.max(1, points[points.length - 1].cumulative);
+  const first = parseIsoDate(points[0].date).getTime();
+  const span = Math.max(1, parseIsoDate(points[points.length - 1].date).getTime() - first);
+  const coords = points.map(p => [
+    points.length === 1 ? width : ((parseIsoDate(p.date).getTime() - first) / span) * width,
+    height - (p.cumulative / max) * (height - 8)
+  ]);
+  const line = coords.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-40">
+        <defs>
+          <linearGradient id="revenue-fill" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="#8b5cf6" stopOpacity="0.35" />
+            <stop offset="100%" stopColor="#8b5cf6" stopOpacity="0" />
+          </linearGradient>
+        </defs>
+        <polygon points={`0,${height} ${line} ${width},${height}`} fill="url(#revenue-fill)" />
+        <polyline points={line} fill="none" stroke="#7c3aed" strokeWidth="2.5" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[11px] text-indigo-400 mt-1">
+        <span>{formatDay(points[0].date)}</span>
+        <span className="font-semibold text-slate-600">{formatBRL(points[points.length - 1].cumulative)}</span>
+        <span>{formatDay(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ groups, activeGroupId, showNames }) => {
+  const [groupFilter, setGroupFilter] = useState(activeGroupId);
+  const [range, setRange] = useState<DateRange>({ from: '', to: '' });
+
+  const selectedGroups = useMemo(
+    () => groupFilter === ALL_GROUPS ? groups.filter(g => !g.archived) : groups.filter(g => g.id === groupFilter),
+    [groups, groupFilter]
+  );
+  const metrics = useMemo(() => computeDashboard(selectedGroups, range), [selectedGroups, range]);
+
+  const collectionRate = metrics.expected ? metrics.collected / metrics.expected : 0;
+  const maxDistribution = Math.max(1, ...metrics.paidDistribution);
+  const periodCounts = new Set(selectedGroups.map(g => g.settings.periodCount));
+  // "3/5" reads better than "3" when every group has the same number of periods and no range cuts them.
+  const distributionTotal = periodCounts.size === 1 && !range.from && !range.to ? [...periodCounts][0] : null;
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4 pb-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="flex items-center gap-2 text-lg font-bold text-slate-800 mr-auto">
+          <LayoutDashboard size={20} className="text-violet-600" /> Painel
+        </h2>
+        <select value={groupFilter} onChange={(e) => setGroupFilter(e.target.value)} className={inputClass}>
+          {groups.filter(g => !g.archived || g.id === groupFilter).map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+          <option value={ALL_GROUPS}>Todas as turmas ativas</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-indigo-600">
+          <CalendarRange size={16} />
+          <input type="date" value={range.from} max={range.to || undefined} onChange={(e) => setRange(r => ({ ...r, from: e.target.value }))} className={inputClass} />
+          até
+          <input type="date" value={range.to} min={range.from || undefined} onChange={(e) => setRange(r => ({ ...r, to: e.target.value }))} className={inputClass} />
+        </label>
+        {(range.from || range.to) && (
+          <button onClick={() => setRange({ from: '', to: '' })} title="Todo o período" className="p-2 text-indigo-400 hover:text-indigo-700 hover:bg-indigo-50 rounded-lg transition-colors">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className={cardClass}>
+          <p className={titleClass}>Participantes</p>
+          <p className="text-2xl font-bold text-slate-800">{metrics.participantCount}</p>
+        </div>
+        <div className={cardClass}>
+          <p className={titleClass}>Arrecadado</p>
+          <p className="text-2xl font-bold text-slate-800">{formatPercent(collectionRate)}</p>
+          <p className="text-xs text-slate-500">{formatBRL(metrics.collected)} de {formatBRL(metrics.expected)}</p>
+        </div>
+        <div className={cardClass}>
+          <p className={titleClass}>Últimos 7 dias</p>
+          <p className="text-2xl font-bold text-slate-800">{formatBRL(metrics.lastWeek)}</p>
+          <p className="text-xs text-slate-500 flex items-center gap-1">
+            {formatBRL(metrics.previousWeek)} na semana anterior <ChangeBadge change={getChange(metrics.lastWeek, metrics.previousWeek)} />
+          </p>
+        </div>
+        <div className={cardClass}>
+          <p className={titleClass}>Em atraso</p>
+          <p className={`text-2xl font-bold ${metrics.overdue > 0 ? 'text-rose-600' : 'text-slate-800'}`}>{formatBRL(metrics.overdue)}</p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-4">
+        {/* Collection rate per period */}
+        <div className={`${cardClass} lg:col-span-2`}>
+          <p className={titleClass}>Pagamento por período</p>
+          {metrics.periods.length === 0 ? (
+            <p className="h-40 flex items-center justify-center text-sm text-indigo-300">Nenhum período começa nessas datas.</p>
+          ) : (
+            <div className="flex items-end gap-1.5 h-44">
+              {metrics.periods.map(p => (
+                <div key={p.index} className="flex-1 h-full flex flex-col justify-end items-center gap-1 min-w-0" title={`${p.label}: ${p.paid} de ${p.total}`}>
+                  <span className="text-[10px] font-semibold text-slate-500">{formatPercent(p.rate)}</span>
+                  <div className="w-full rounded-t-md bg-gradient-to-t from-violet-500 to-fuchsia-400" style={{ height: `${Math.max(2, p.rate * 100)}%` }} />
+                  <span className="text-[10px] text-indigo-400">{p.index + 1}</span>
+                  <span className="h-4"><ChangeBadge change={p.change} points /></span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Distribution of paid counts */}
+        <div className={cardClass}>
+          <p className={titleClass}>Períodos pagos por pessoa</p>
+          <div className="space-y-1">
+            {metrics.paidDistribution.map((count, paid) => (
+              <div key={paid} className="flex items-center gap-2 text-[11px]">
+                <span className="w-8 text-right text-indigo-400">{distributionTotal !== null ? `${paid}/${distributionTotal}` : paid}</span>
+                <div className="flex-1 bg-indigo-50 rounded-full h-2.5 overflow-hidden">
+                  <div className="h-full bg-violet-400 rounded-full" style={{ width: `${(count / maxDistribution) * 100}%` }} />
+                </div>
+                <span className="w-8 text-slate-500">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-4">
+        {/* Cumulative revenue */}
+        <div className={`${cardClass} ${showNames ? 'lg:col-span-2' : 'lg:col-span-3'}`}>
+          <p className={titleClass}>Receita acumulada</p>
+          <RevenueChart points={metrics.revenue} />
+        </div>
+
+        {/* Top debtors */}
+        {showNames && (
+          <div className={cardClass}>
+            <p className={titleClass}>Maiores atrasos</p>
+            {metrics.topDebtors.length === 0 ? (
+              <p className="text-sm text-indigo-300">Ninguém em atraso.</p>
+            ) : (
+              <ol className="space-y-1.5">
+                {metrics.topDebtors.map(d => (
+                  <li key={d.participant.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="min-w-0 truncate text-slate-700">
+                      {d.participant.name || d.participant.whatsapp}
+                      {groupFilter === ALL_GROUPS && <span className="text-xs text-indigo-300"> · {d.groupName}</span>}
+                    </span>
+                    <span className="font-semibold text-rose-600 whitespace-nowrap">{formatBRL(d.overdue)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
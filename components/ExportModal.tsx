@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { CohortSettings, CustomField, Participant } from '../types';
+import { ExportFormat, exportParticipants } from '../services/exportService';
+import { isActiveParticipant } from '../utils/participant';
+
+interface ExportModalProps {
+  allData: Participant[];
+  filteredData: Participant[];
+  // Rows checked in the list; may be empty.
+  selectedData: Participant[];
+  cohort: CohortSettings;
+  // Custom fields, exported as extra columns.
+  fields: CustomField[];
+  hasFilter: boolean;
+  onClose: () => void;
+}
+
+type ExportScope = 'selected' | 'filtered' | 'all';
+
+const ExportModal: React.FC<ExportModalProps> = ({ allData, filteredData, selectedData, cohort, fields, hasFilter, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>(selectedData.length > 0 ? 'selected' : hasFilter ? 'filtered' : 'all');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const source = scope === 'selected' ? selectedData : scope === 'filtered' ? filteredData : allData;
+  const rowCount = source.filter(isActiveParticipant).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportParticipants(source, format, cohort, fields);
+      onClose();
+    } catch (error) {
+      console.error("Failed to export data", error);
+      alert("Não foi possível gerar o arquivo de exportação.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 px-4 py-3 rounded-xl border text-sm font-semibold transition-all ${
+      selected
+        ? 'bg-violet-600 border-violet-600 text-white shadow-md shadow-violet-200'
+        : 'bg-white border-indigo-200 text-indigo-700 hover:bg-indigo-50'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <Download size={22} className="text-violet-600" /> Exportar Participantes
+        </h3>
+
+        <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Formato</p>
+        <div className="flex gap-2 mb-5">
+          <button onClick={() => setFormat('csv')} className={optionClass(format === 'csv')}>CSV</button>
+          <button onClick={() => setFormat('xlsx')} className={optionClass(format === 'xlsx')}>Excel (.xlsx)</button>
+        </div>
+
+        <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Linhas</p>
+        <div className="flex gap-2 mb-5">
+          <button
+            onClick={() => setScope('selected')}
+            disabled={selectedData.length === 0}
+            className={`${optionClass(scope === 'selected')} disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            Seleção
+          </button>
+          <button
+            onClick={() => setScope('filtered')}
+            disabled={!hasFilter}
+            className={`${optionClass(scope === 'filtered')} disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            Filtro atual
+          </button>
+          <button onClick={() => setScope('all')} className={optionClass(scope === 'all')}>Todos</button>
+        </div>
+
+        <p className="text-sm text-slate-500 mb-6">
+          {rowCount} participante{rowCount === 1 ? '' : 's'} ser{rowCount === 1 ? 'á exportado' : 'ão exportados'}. Linhas vazias são ignoradas.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || rowCount === 0}
+            className="flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+          >
+            {isExporting ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+            Baixar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
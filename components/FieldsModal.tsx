@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Tags, Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldType, FieldSettings, TagColor } from '../types';
+import { FIELD_TYPE_LABELS, TAG_COLORS, createCustomField, getTagColor } from '../utils/fields';
+
+interface FieldsModalProps {
+  fields: FieldSettings;
+  // Every tag in use across the groups.
+  tags: string[];
+  onChange: (fields: FieldSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+
+// Options are typed as "Centro, Norte, Sul" and only split on blur, so the
+// comma being typed isn't dropped.
+const OptionsInput: React.FC<{ options: string[]; onChange: (options: string[]) => void }> = ({ options, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft === null) return;
+    onChange([...new Set(draft.split(',').map(o => o.trim()).filter(Boolean))]);
+    setDraft(null);
+  };
+  return (
+    <input
+      type="text"
+      value={draft ?? options.join(', ')}
+      placeholder="Opções separadas por vírgula"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className={`${inputClass} flex-1 min-w-[12rem]`}
+    />
+  );
+};
+
+// Removing a field only hides its column: values already filled in stay on the participants.
+const FieldsModal: React.FC<FieldsModalProps> = ({ fields, tags, onChange, onClose }) => {
+  const updateCustom = (custom: CustomField[]) => onChange({ ...fields, custom });
+
+  const updateField = (id: string, changes: Partial<CustomField>) =>
+    updateCustom(fields.custom.map(f => f.id === id ? { ...f, ...changes } : f));
+
+  const moveField = (index: number, offset: number) => {
+    const custom = [...fields.custom];
+    const [field] = custom.splice(index, 1);
+    custom.splice(index + offset, 0, field);
+    updateCustom(custom);
+  };
+
+  const handleDelete = (field: CustomField) => {
+    if (!window.confirm(`Excluir o campo "${field.name || 'Sem nome'}"? A coluna deixa de aparecer na planilha.`)) return;
+    updateCustom(fields.custom.filter(f => f.id !== field.id));
+  };
+
+  const setTagColor = (tag: string, color: TagColor) =>
+    onChange({ ...fields, tagColors: { ...fields.tagColors, [tag.toLowerCase()]: color } });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <Tags size={22} className="text-violet-600" /> Campos e Etiquetas
+        </h3>
+        <p className="text-sm text-slate-500 mb-4">Colunas extras da planilha, valem para todos os grupos.</p>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Campos personalizados</p>
+            {fields.custom.length === 0 && (
+              <p className="text-sm text-indigo-300">Nenhum campo ainda. Ex.: bairro, data de nascimento, tamanho da camiseta.</p>
+            )}
+            {fields.custom.map((field, i) => (
+              <div key={field.id} className="flex flex-wrap items-center gap-2 border border-indigo-100 rounded-xl p-2">
+                <input
+                  type="text"
+                  value={field.name}
+                  placeholder="Nome do campo"
+                  onChange={(e) => updateField(field.id, { name: e.target.value })}
+                  className={`${inputClass} w-48`}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(field.id, { type: e.target.value as CustomFieldType })}
+                  className={inputClass}
+                >
+                  {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                    <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                {field.type === 'select' && (
+                  <OptionsInput options={field.options} onChange={(options) => updateField(field.id, { options })} />
+                )}
+                <div className="ml-auto flex items-center">
+                  <button
+                    onClick={() => moveField(i, -1)}
+                    disabled={i === 0}
+                    title="Mover para a esquerda"
+                    className="p-2 rounded-lg text-indigo-400 hover:bg-indigo-50 disabled:opacity-30 transition-colors"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveField(i, 1)}
+                    disabled={i === fields.custom.length - 1}
+                    title="Mover para a direita"
+                    className="p-2 rounded-lg text-indigo-400 hover:bg-indigo-50 disabled:opacity-30 transition-colors"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(field)}
+                    title="Excluir campo"
+                    className="p-2 rounded-lg text-rose-400 hover:bg-rose-50 hover:text-rose-600 transition-colors"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => updateCustom([...fields.custom, createCustomField(`Campo ${fields.custom.length + 1}`)])}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold text-violet-600 hover:bg-violet-50 transition-colors"
+            >
+              <Plus size={16} /> Novo campo
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Cores das etiquetas</p>
+            {tags.length === 0 ? (
+              <p className="text-sm text-indigo-300">Digite etiquetas na coluna "Etiquetas" da planilha para escolher as cores aqui.</p>
+            ) : tags.map(tag => {
+              const current = getTagColor(fields, tag);
+              return (
+                <div key={tag} className="flex items-center gap-3">
+                  <span className={`w-40 truncate px-2 py-0.5 rounded-full border text-xs font-semibold ${TAG_COLORS[current].chip}`}>{tag}</span>
+                  <div className="flex gap-1.5">
+                    {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                      <button
+                        key={color}
+                        onClick={() => setTagColor(tag, color)}
+                        title={color}
+                        className={`w-5 h-5 rounded-full ${TAG_COLORS[color].swatch} ${color === current ? 'ring-2 ring-offset-2 ring-violet-400' : 'opacity-60 hover:opacity-100'} transition-all`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FieldsModal;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Link2, Trash2, X } from 'lucide-react';
+import { CohortSettings, CustomField } from '../types';
+import { getPeriodLabel } from '../utils/cohort';
+import { centsToInput, parseBRL } from '../utils/finance';
+import { ListView, STATUS_FILTER_LABELS, SavedView, StatusFilter, createDefaultView } from '../utils/views';
+
+interface FilterBarProps {
+  view: ListView;
+  cohort: CohortSettings;
+  // Tags in use in the group, and the workspace's custom fields.
+  tags: string[];
+  fields: CustomField[];
+  savedViews: SavedView[];
+  onChange: (view: ListView) => void;
+  onSave: (name: string) => void;
+  onDeleteSaved: (id: string) => void;
+  onCopyLink: () => void;
+}
+
+const selectClass = 'px-3 py-2 bg-white border border-indigo-200 rounded-xl text-sm text-slate-700 outline-none focus:ring-2 focus:ring-violet-200 focus:border-violet-400';
+
+const sameView = (a: ListView, b: ListView) => JSON.stringify(a) === JSON.stringify(b);
+
+// The amount is typed freely and applied once it parses.
+const AmountFilter: React.FC<{ label: string; value?: number; onChange: (cents?: number) => void }> = ({ label, value, onChange }) => {
+  const [input, setInput] = useState(value !== undefined ? centsToInput(value) : '');
+  useEffect(() => {
+    if (value === undefined) setInput('');
+    else if (parseBRL(input) !== value) setInput(centsToInput(value));
+  }, [value]);
+
+  const handleChange = (text: string) => {
+    setInput(text);
+    if (text.trim() === '') onChange(undefined);
+    else {
+      const cents = parseBRL(text);
+      if (cents !== null) onChange(cents);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 px-3 py-1 bg-white border border-indigo-200 rounded-xl text-indigo-600 focus-within:ring-2 focus-within:ring-violet-200">
+      {label}
+      <input
+        value={input}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="0,00"
+        inputMode="decimal"
+        className="w-20 py-1 outline-none text-slate-700"
+      />
+    </label>
+  );
+};
+
+const FilterBar: React.FC<FilterBarProps> = ({ view, cohort, tags, fields, savedViews, onChange, onSave, onDeleteSaved, onCopyLink }) => {
+  // The field is picked first; the filter applies once a value is typed or chosen.
+  const [fieldId, setFieldId] = useState(view.field?.id ?? '');
+  useEffect(() => {
+    if (view.field) setFieldId(view.field.id);
+  }, [view.field?.id]);
+  const field = fields.find(f => f.id === fieldId);
+  const fieldValue = view.field?.id === fieldId ? view.field.value : '';
+  const handleFieldValue = (value: string) =>
+    onChange({ ...view, field: fieldId && value.trim() ? { id: fieldId, value } : undefined });
+  const tagOptions = view.tag && !tags.some(t => t.toLowerCase() === view.tag!.toLowerCase()) ? [...tags, view.tag] : tags;
+
+  const current = savedViews.find(saved => sameView(saved.view, view));
+
+  const handleSave = () => {
+    const name = window.prompt('Nome da visão (ex.: "Devendo semana 3"):', current?.name ?? '');
+    if (name?.trim()) onSave(name.trim());
+  };
+
+  return (
+    <div className="-mt-3 mb-4 flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={view.status ?? ''}
+        onChange={(e) => onChange({ ...view, status: (e.target.value || undefined) as StatusFilter | undefined })}
+        className={selectClass}
+      >
+        <option value="">Todos os status</option>
+        {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map(status => (
+          <option key={status} value={status}>{STATUS_FILTER_LABELS[status]}</option>
+        ))}
+      </select>
+
+      <select
+        value={view.unpaidPeriod ?? ''}
+        onChange={(e) => onChange({ ...view, unpaidPeriod: e.target.value === '' ? undefined : Number(e.target.value) })}
+        className={selectClass}
+      >
+        <option value="">Qualquer período</option>
+        {Array.from({ length: cohort.periodCount }, (_, i) => (
+          <option key={i} value={i}>Não pagou {getPeriodLabel(cohort, i)}</option>
+        ))}
+      </select>
+
+      <AmountFilter label="Vencido ≥ R$" value={view.minOverdue} onChange={(minOverdue) => onChange({ ...view, minOverdue })} />
+      <AmountFilter label="Deve no total ≥ R$" value={view.minPending} onChange={(minPending) => onChange({ ...view, minPending })} />
+
+      {tagOptions.length > 0 && (
+        <select
+          value={view.tag ?? ''}
+          onChange={(e) => onChange({ ...view, tag: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">Qualquer etiqueta</option>
+          {tagOptions.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+      )}
+
+      {fields.length > 0 && (
+        <div className="flex items-center bg-white border border-indigo-200 rounded-xl focus-within:ring-2 focus-within:ring-violet-200">
+          <select
+            value={fieldId}
+            onChange={(e) => {
+              setFieldId(e.target.value);
+              if (view.field) onChange({ ...view, field: undefined });
+            }}
+            className="pl-3 pr-1 py-2 bg-transparent text-sm text-slate-700 outline-none"
+          >
+            <option value="">Campo...</option>
+            {fields.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+          {field?.type === 'select' ? (
+            <select
+              value={fieldValue}
+              onChange={(e) => handleFieldValue(e.target.value)}
+              className="px-2 py-2 bg-transparent text-sm text-slate-700 outline-none border-l border-indigo-100"
+            >
+              <option value="">Qualquer valor</option>
+              {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          ) : field && (
+            <input
+              value={fieldValue}
+              onChange={(e) => handleFieldValue(e.target.value)}
+              placeholder="contém..."
+              className="w-28 px-2 py-1 outline-none text-slate-700 border-l border-indigo-100"
+            />
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 ml-auto">
+        <select
+          value={current?.id ?? ''}
+          onChange={(e) => {
+            const saved = savedViews.find(s => s.id === e.target.value);
+            if (saved) onChange(saved.view);
+          }}
+          className={selectClass}
+        >
+          <option value="" disabled>{savedViews.length ? 'Visões salvas' : 'Nenhuma visão salva'}</option>
+          {savedViews.map(saved => <option key={saved.id} value={saved.id}>{saved.name}</option>)}
+        </select>
+        {current && (
+          <button onClick={() => onDeleteSaved(current.id)} title={`Excluir a visão "${current.name}"`} className="p-2 text-indigo-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors">
+            <Trash2 size={16} />
+          </button>
+        )}
+        <button onClick={handleSave} title="Salvar filtros e ordem como uma visão" className="flex items-center gap-1 px-3 py-2 text-violet-700 hover:bg-violet-50 rounded-xl font-semibold transition-colors">
+          <Bookmark size={16} /> Salvar
+        </button>
+        <button onClick={onCopyLink} title="Copiar link desta visão" className="flex items-center gap-1 px-3 py-2 text-violet-700 hover:bg-violet-50 rounded-xl font-semibold transition-colors">
+          <Link2 size={16} /> Link
+        </button>
+        <button onClick={() => onChange(createDefaultView())} title="Limpar filtros, busca e ordem" className="p-2 text-indigo-400 hover:text-indigo-700 hover:bg-indigo-50 rounded-lg transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, Check, ChevronDown, Pencil, Plus, Users } from 'lucide-react';
+import { Group } from '../types';
+import { summarizeParticipants } from '../utils/groups';
+
+interface GroupSwitcherProps {
+  groups: Group[];
+  activeGroupId: string;
+  onSelect: (groupId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (groupId: string, name: string) => void;
+  onToggleArchive: (groupId: string) => void;
+  // Without it the switcher only selects: no create, rename or archive.
+  canManage: boolean;
+}
+
+const GroupSwitcher: React.FC<GroupSwitcherProps> = ({
+  groups,
+  activeGroupId,
+  onSelect,
+  onCreate,
+  onRename,
+  onToggleArchive,
+  canManage
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const activeGroup = groups.find(g => g.id === activeGroupId);
+  const visibleGroups = groups.filter(g => showArchived || !g.archived || g.id === activeGroupId);
+  const archivedCount = groups.filter(g => g.archived).length;
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 text-xs text-indigo-100 font-medium opacity-90 hover:opacity-100 transition-opacity"
+      >
+        {activeGroup?.name ?? 'Gestão de Pagamentos'}
+        {activeGroup?.archived && <span className="ml-1 px-1.5 rounded bg-white/20 text-[10px] uppercase">arquivada</span>}
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-white text-slate-700 rounded-2xl shadow-2xl border border-indigo-100 p-3 z-40 animate-in fade-in slide-in-from-top-2 duration-200">
+          <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider px-2 mb-2">Turmas</p>
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {visibleGroups.map(group => {
+              const summary = summarizeParticipants(group.participants, group.settings.periodCount);
+              const isActive = group.id === activeGroupId;
+              return (
+                <div
+                  key={group.id}
+                  className={`group/item flex items-center gap-2 px-2 py-2 rounded-xl ${isActive ? 'bg-violet-50' : 'hover:bg-indigo-50/60'}`}
+                >
+                  {editing?.id === group.id ? (
+                    <input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: group.id, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="flex-1 px-2 py-1 border border-violet-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-violet-200"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        onSelect(group.id);
+                        setIsOpen(false);
+                      }}
+                      className={`flex-1 text-left min-w-0 ${group.archived ? 'opacity-50' : ''}`}
+                    >
+                      <p className="text-sm font-semibold truncate flex items-center gap-1.5">
+                        {isActive && <Check size={14} className="text-violet-600 flex-shrink-0" />}
+                        {group.name}
+                      </p>
+                      <p className="text-[11px] text-indigo-400 flex items-center gap-1">
+                        <Users size={11} /> {summary.count} · {summary.percentage}% pago
+                      </p>
+                    </button>
+                  )}
+                  {canManage && (
+                    <>
+                      <button
+                        onClick={() => setEditing({ id: group.id, name: group.name })}
+                        title="Renomear"
+                        className="p-1.5 rounded-lg text-indigo-300 hover:text-indigo-600 hover:bg-white opacity-0 group-hover/item:opacity-100 transition-all"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => onToggleArchive(group.id)}
+                        title={group.archived ? 'Desarquivar' : 'Arquivar'}
+                        className="p-1.5 rounded-lg text-indigo-300 hover:text-indigo-600 hover:bg-white opacity-0 group-hover/item:opacity-100 transition-all"
+                      >
+                        {group.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(show => !show)}
+              className="w-full text-left px-2 py-2 text-xs font-semibold text-indigo-500 hover:text-indigo-700"
+            >
+              {showArchived ? 'Ocultar arquivadas' : `Mostrar arquivadas (${archivedCount})`}
+            </button>
+          )}
+
+          {canManage && (
+            <div className="flex items-center gap-2 mt-2 pt-3 border-t border-indigo-50">
+              <input
+                type="text"
+                value={newName}
+                placeholder="Nova turma..."
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                className="flex-1 px-3 py-2 border border-indigo-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-violet-200"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newName.trim()}
+                className="p-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 disabled:opacity-40 transition-colors"
+              >
+                <Plus size={18} />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupSwitcher;
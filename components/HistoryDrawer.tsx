@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { History, X, AlertTriangle, Send } from 'lucide-react';
+import { CohortSettings, LedgerEvent, LedgerEventType, Participant } from '../types';
+import { FREQUENCY_LABELS } from '../utils/cohort';
+import { formatBRL } from '../utils/finance';
+import { LEDGER_EVENT_LABELS, findLedgerMismatches } from '../utils/ledger';
+
+interface HistoryDrawerProps {
+  participant: Participant;
+  cohort: CohortSettings;
+  events: LedgerEvent[];
+  onAddNote: (note: string) => void;
+  // Left out for accounts that cannot record payments.
+  onReconcile?: () => void;
+  onClose: () => void;
+}
+
+const EVENT_COLORS: Record<LedgerEventType, string> = {
+  'mark-paid': 'bg-emerald-400',
+  'unmark': 'bg-rose-400',
+  'payment-added': 'bg-emerald-600',
+  'payment-removed': 'bg-rose-600',
+  'amount-change': 'bg-amber-400',
+  'note': 'bg-indigo-300',
+  'contacted': 'bg-sky-400',
+  'receipt-issued': 'bg-violet-400',
+  'backup-restored': 'bg-slate-400'
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ participant, cohort, events, onAddNote, onReconcile, onClose }) => {
+  const [note, setNote] = useState('');
+
+  const periodName = FREQUENCY_LABELS[cohort.frequency].short;
+  const ordered = [...events].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const mismatches = findLedgerMismatches(participant, events);
+
+  const handleAddNote = () => {
+    if (!note.trim()) return;
+    onAddNote(note.trim());
+    setNote('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-indigo-900/30 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-in slide-in-from-right duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-indigo-100 flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <History size={20} className="text-violet-600" /> Histórico
+            </h3>
+            <p className="text-sm text-slate-500 truncate">{participant.name || participant.whatsapp}</p>
+          </div>
+          <button onClick={onClose} className="text-indigo-300 hover:text-indigo-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {mismatches.length > 0 && (
+          <div className="mx-5 mt-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">
+            <p className="flex gap-2 font-semibold">
+              <AlertTriangle size={16} className="flex-shrink-0" />
+              A planilha não bate com o histórico em {mismatches.map(m => `${periodName} ${m.periodIndex + 1}`).join(', ')}.
+            </p>
+            {onReconcile && (
+              <button onClick={onReconcile} className="mt-2 font-bold text-amber-800 underline decoration-amber-300 hover:decoration-amber-600">
+                Registrar o estado atual no histórico
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {ordered.length === 0 ? (
+            <p className="text-sm text-indigo-300 text-center mt-10">Nenhum evento registrado.</p>
+          ) : (
+            <ol className="relative border-l-2 border-indigo-100 ml-2 space-y-4">
+              {ordered.map(event => (
+                <li key={event.id} className="ml-4">
+                  <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${EVENT_COLORS[event.type]}`} />
+                  <p className="text-sm font-semibold text-slate-700">
+                    {LEDGER_EVENT_LABELS[event.type]}
+                    {event.periodIndex !== undefined && <span className="text-indigo-500"> · {periodName} {event.periodIndex + 1}</span>}
+                    {event.amount !== undefined && <span className="text-slate-500"> · {formatBRL(event.amount)}</span>}
+                  </p>
+                  {event.note && <p className="text-sm text-slate-500 whitespace-pre-wrap">{event.note}</p>}
+                  <p className="text-[11px] text-indigo-300">{formatTimestamp(event.timestamp)} · {event.operator || 'sem operador'}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-indigo-100 flex gap-2">
+          <input
+            type="text"
+            value={note}
+            placeholder="Adicionar observação..."
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+            className="flex-1 px-3 py-2 border border-indigo-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-violet-200"
+          />
+          <button
+            onClick={handleAddNote}
+            disabled={!note.trim()}
+            className="p-2.5 bg-violet-600 text-white rounded-xl hover:bg-violet-700 disabled:opacity-40 transition-colors"
+          >
+            <Send size={16} />
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
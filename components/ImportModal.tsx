@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { Upload, Loader2, ArrowLeft, AlertTriangle } from 'lucide-react';
+import { CohortSettings, CustomField, Participant } from '../types';
+import {
+  ColumnTarget,
+  ConflictResolution,
+  ImportPreviewRow,
+  ImportRowKind,
+  ParsedSheet,
+  buildImportPreview,
+  guessColumnTargets,
+  parseImportFile
+} from '../services/importService';
+import { getPeriodLabel } from '../utils/cohort';
+
+interface ImportModalProps {
+  data: Participant[];
+  cohort: CohortSettings;
+  // Custom fields columns can be mapped to.
+  fields: CustomField[];
+  onConfirm: (preview: ImportPreviewRow[], resolutions: Record<string, ConflictResolution>) => void;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const KIND_LABELS: Record<ImportRowKind, { label: string; className: string }> = {
+  new: { label: 'Novo', className: 'bg-emerald-100 text-emerald-700 border-emerald-200' },
+  updated: { label: 'Atualizado', className: 'bg-indigo-100 text-indigo-700 border-indigo-200' },
+  conflict: { label: 'Conflito', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  unchanged: { label: 'Sem mudança', className: 'bg-slate-100 text-slate-500 border-slate-200' }
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({ data, cohort, fields, onConfirm, onClose }) => {
+  const weekCount = cohort.periodCount;
+  const [step, setStep] = useState<Step>('upload');
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [targets, setTargets] = useState<ColumnTarget[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const targetOptions: { value: ColumnTarget; label: string }[] = [
+    { value: 'ignore', label: 'Ignorar' },
+    { value: 'name', label: 'Nome' },
+    { value: 'whatsapp', label: 'WhatsApp' },
+    ...Array.from({ length: weekCount }, (_, i) => ({ value: `week:${i}` as ColumnTarget, label: getPeriodLabel(cohort, i) })),
+    ...fields.map(f => ({ value: `field:${f.id}` as ColumnTarget, label: f.name })),
+    { value: 'tags', label: 'Etiquetas' },
+    { value: 'notes', label: 'Observações' }
+  ];
+
+  const preview = useMemo(
+    () => (sheet && step === 'preview' ? buildImportPreview(sheet, targets, data, cohort, fields) : []),
+    [sheet, targets, data, cohort, fields, step]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowKind, number> = { new: 0, updated: 0, conflict: 0, unchanged: 0 };
+    preview.forEach(row => result[row.kind]++);
+    return result;
+  }, [preview]);
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    setError(null);
+    try {
+      const parsed = await parseImportFile(file);
+      setSheet(parsed);
+      setTargets(guessColumnTargets(parsed.headers, weekCount, fields));
+      setResolutions({});
+      setStep('mapping');
+    } catch (e) {
+      console.error("Failed to parse import file", e);
+      setError("Não foi possível ler o arquivo. Use CSV ou XLSX com uma linha de cabeçalho.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleTargetChange = (column: number, value: ColumnTarget) => {
+    setTargets(prev => prev.map((target, i) => {
+      if (i === column) return value;
+      // A field can only come from one column.
+      if (value !== 'ignore' && target === value) return 'ignore';
+      return target;
+    }));
+  };
+
+  const hasIdentity = targets.includes('name') || targets.includes('whatsapp');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <Upload size={22} className="text-violet-600" /> Importar Participantes
+        </h3>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-indigo-200 rounded-2xl py-12 cursor-pointer hover:bg-indigo-50/50 transition-colors">
+            {isParsing ? <Loader2 className="animate-spin text-violet-600" size={32} /> : <Upload className="text-indigo-300" size={32} />}
+            <span className="text-sm font-semibold text-indigo-700">Selecione um arquivo CSV ou XLSX</span>
+            <span className="text-xs text-indigo-300">A primeira linha deve conter os nomes das colunas</span>
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx,.xls,.ods"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <div className="overflow-y-auto flex-1">
+            <p className="text-sm text-slate-500 mb-4">
+              {sheet.rows.length} linhas encontradas. Indique o campo de cada coluna.
+            </p>
+            <div className="space-y-2">
+              {sheet.headers.map((header, column) => (
+                <div key={column} className="flex items-center gap-3 bg-indigo-50/50 border border-indigo-100 rounded-xl px-4 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-slate-700 truncate">{header || `Coluna ${column + 1}`}</p>
+                    <p className="text-xs text-indigo-300 truncate">{sheet.rows.slice(0, 3).map(r => r[column]).filter(Boolean).join(' · ')}</p>
+                  </div>
+                  <select
+                    value={targets[column]}
+                    onChange={(e) => handleTargetChange(column, e.target.value as ColumnTarget)}
+                    className="px-3 py-2 bg-white border border-indigo-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-violet-200 outline-none"
+                  >
+                    {targetOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="overflow-y-auto flex-1">
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(KIND_LABELS) as ImportRowKind[]).map(kind => (
+                <span key={kind} className={`text-xs font-bold px-3 py-1 rounded-full border ${KIND_LABELS[kind].className}`}>
+                  {KIND_LABELS[kind].label}: {counts[kind]}
+                </span>
+              ))}
+            </div>
+            <div className="border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+              {preview.map(row => (
+                <div key={row.key} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${KIND_LABELS[row.kind].className}`}>
+                    {KIND_LABELS[row.kind].label}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-700 truncate">{row.merged.name || '—'} <span className="text-slate-400 font-normal">{row.merged.whatsapp}</span></p>
+                    {row.reasons.map(reason => (
+                      <p key={reason} className="text-xs text-amber-600 flex items-center gap-1"><AlertTriangle size={12} /> {reason}</p>
+                    ))}
+                    {row.sameAs && row.reasons.length === 0 && (
+                      <p className="text-xs text-slate-400">Mesmo número de uma linha acima, juntado a ela</p>
+                    )}
+                  </div>
+                  <span className="text-xs font-bold text-indigo-500">{row.merged.weeks.filter(Boolean).length}/{weekCount}</span>
+                  {row.kind === 'conflict' && (
+                    <select
+                      value={resolutions[row.key] ?? 'keep'}
+                      onChange={(e) => setResolutions(prev => ({ ...prev, [row.key]: e.target.value as ConflictResolution }))}
+                      className="px-2 py-1 bg-white border border-amber-200 rounded-lg text-xs text-slate-700 outline-none"
+                    >
+                      <option value="keep">Manter atual</option>
+                      <option value="replace">Usar arquivo</option>
+                    </select>
+                  )}
+                </div>
+              ))}
+              {preview.length === 0 && (
+                <p className="px-4 py-6 text-center text-sm text-indigo-300">Nenhuma linha com nome ou WhatsApp.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-between gap-3 mt-6">
+          <div>
+            {step !== 'upload' && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                className="flex items-center gap-1.5 px-4 py-2.5 text-indigo-600 hover:bg-indigo-50 rounded-xl text-sm font-semibold transition-colors"
+              >
+                <ArrowLeft size={16} /> Voltar
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+            >
+              Cancelar
+            </button>
+            {step === 'mapping' && (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={!hasIdentity}
+                className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+              >
+                Pré-visualizar
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={() => onConfirm(preview, resolutions)}
+                disabled={counts.new + counts.updated + counts.conflict === 0}
+                className="px-5 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white hover:from-emerald-600 hover:to-teal-600 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+              >
+                Importar
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
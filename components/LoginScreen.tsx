@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2, LogIn } from 'lucide-react';
+import { AuthUser } from '../types';
+import { login, setupFirstAccount } from '../services/authService';
+
+interface LoginScreenProps {
+  // First run on an empty server: the form creates the first (treasurer) account.
+  isSetup: boolean;
+  onLoggedIn: (user: AuthUser) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ isSetup, onLoggedIn }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = isSetup ? await setupFirstAccount(username.trim(), password) : await login(username.trim(), password);
+      onLoggedIn(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Não foi possível entrar.");
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2.5 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-violet-600 via-fuchsia-600 to-indigo-600 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-6 animate-in zoom-in duration-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-violet-100 p-2 rounded-xl">
+            <Sparkles size={24} className="text-violet-600" />
+          </div>
+          <div>
+            <h1 className="text-xl font-extrabold text-slate-800">Estratégia HUBX</h1>
+            <p className="text-xs text-indigo-400">{isSetup ? 'Crie a conta do primeiro tesoureiro' : 'Entre com sua conta'}</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Usuário</span>
+            <input
+              type="text"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Senha</span>
+            <input
+              type="password"
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username.trim() || !password}
+          className="w-full mt-6 flex items-center justify-center gap-2 px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+        >
+          {isSubmitting ? <Loader2 className="animate-spin" size={18} /> : <LogIn size={18} />}
+          {isSetup ? 'Criar conta e entrar' : 'Entrar'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Wallet, Plus, Trash2, Check } from 'lucide-react';
+import { CohortSettings, Participant, PaymentMethod, PricingKind } from '../types';
+import { FREQUENCY_LABELS, formatShortDate, getPeriodDueDate, parseIsoDate, toIsoDate } from '../utils/cohort';
+import {
+  PAYMENT_METHOD_LABELS,
+  centsToInput,
+  formatBRL,
+  getAmountDue,
+  getAmountOutstanding,
+  getAmountPaid,
+  getParticipantBalance,
+  parseBRL,
+  withPayments
+} from '../utils/finance';
+
+interface PaymentsModalProps {
+  participant: Participant;
+  cohort: CohortSettings;
+  onChange: (participant: Participant) => void;
+  onClose: () => void;
+}
+
+type PricingChoice = 'default' | PricingKind;
+
+const PaymentsModal: React.FC<PaymentsModalProps> = ({ participant, cohort, onChange, onClose }) => {
+  const firstOpen = participant.weeks.findIndex(paid => !paid);
+  const [periodIndex, setPeriodIndex] = useState(firstOpen === -1 ? 0 : firstOpen);
+  const [amount, setAmount] = useState(() => centsToInput(getAmountOutstanding(participant, cohort, firstOpen === -1 ? 0 : firstOpen)));
+  const [date, setDate] = useState(toIsoDate(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+
+  const periodName = FREQUENCY_LABELS[cohort.frequency].short;
+  const balance = getParticipantBalance(participant, cohort);
+  const payments = [...(participant.payments ?? [])].sort((a, b) => b.date.localeCompare(a.date));
+  const parsedAmount = parseBRL(amount);
+
+  const handlePeriodChange = (index: number) => {
+    setPeriodIndex(index);
+    setAmount(centsToInput(getAmountOutstanding(participant, cohort, index)));
+  };
+
+  const handleAdd = () => {
+    if (!parsedAmount) return;
+    const payment = { id: uuidv4(), periodIndex, amount: parsedAmount, date, method };
+    onChange(withPayments(participant, cohort, [...(participant.payments ?? []), payment]));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(withPayments(participant, cohort, (participant.payments ?? []).filter(p => p.id !== id)));
+  };
+
+  const handlePricingChange = (choice: PricingChoice, value: number) => {
+    onChange({ ...participant, pricing: choice === 'default' ? undefined : { kind: choice, value } });
+  };
+
+  const pricingChoice: PricingChoice = participant.pricing?.kind ?? 'default';
+  const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <Wallet size={22} className="text-violet-600" /> Pagamentos
+        </h3>
+        <p className="text-sm text-slate-500 mb-4 truncate">{participant.name || participant.whatsapp}</p>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <div className="bg-emerald-50 border border-emerald-100 rounded-xl p-3">
+            <p className="text-[10px] font-bold text-emerald-600 uppercase tracking-wider">Pago</p>
+            <p className="text-lg font-bold text-emerald-700">{formatBRL(balance.paid)}</p>
+          </div>
+          <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-3">
+            <p className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">Pendente</p>
+            <p className="text-lg font-bold text-indigo-700">{formatBRL(balance.pending)}</p>
+          </div>
+          <div className="bg-rose-50 border border-rose-100 rounded-xl p-3">
+            <p className="text-[10px] font-bold text-rose-500 uppercase tracking-wider">Em atraso</p>
+            <p className="text-lg font-bold text-rose-700">{formatBRL(balance.overdue)}</p>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Preço</span>
+            <select
+              value={pricingChoice}
+              onChange={(e) => handlePricingChange(e.target.value as PricingChoice, 0)}
+              className={inputClass}
+            >
+              <option value="default">Valor da turma</option>
+              <option value="discount-percent">Desconto (%)</option>
+              <option value="fixed-price">Valor fixo por período</option>
+              <option value="scholarship">Bolsista</option>
+            </select>
+            {pricingChoice === 'discount-percent' && (
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={participant.pricing?.value ?? 0}
+                onChange={(e) => handlePricingChange('discount-percent', Number(e.target.value))}
+                className={`${inputClass} w-24`}
+              />
+            )}
+            {pricingChoice === 'fixed-price' && (
+              <input
+                type="text"
+                inputMode="decimal"
+                defaultValue={centsToInput(participant.pricing?.value ?? 0)}
+                onBlur={(e) => handlePricingChange('fixed-price', parseBRL(e.target.value) ?? 0)}
+                className={`${inputClass} w-32`}
+              />
+            )}
+          </div>
+
+          <div className="border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+            {participant.weeks.map((paid, i) => (
+              <div key={i} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <span className="w-16 font-semibold text-indigo-700">{periodName} {i + 1}</span>
+                <span className="flex-1 text-xs text-slate-400">vence {formatShortDate(getPeriodDueDate(cohort, i))}</span>
+                <span className="w-24 text-right text-slate-600">{formatBRL(getAmountPaid(participant, cohort, i))}</span>
+                <span className="w-24 text-right text-slate-400">/ {formatBRL(getAmountDue(participant, cohort, i))}</span>
+                <span className="w-6 flex justify-center">{paid && <Check size={16} className="text-emerald-500" />}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-indigo-50/50 border border-indigo-100 rounded-xl p-3 flex flex-wrap items-end gap-2">
+            <select value={periodIndex} onChange={(e) => handlePeriodChange(Number(e.target.value))} className={inputClass}>
+              {participant.weeks.map((_, i) => (
+                <option key={i} value={i}>{periodName} {i + 1}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0,00"
+              className={`${inputClass} w-28`}
+            />
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className={inputClass}>
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+                <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={!parsedAmount}
+              className="flex items-center gap-1.5 px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 disabled:opacity-40 text-sm font-semibold transition-colors"
+            >
+              <Plus size={16} /> Registrar
+            </button>
+          </div>
+
+          {payments.length > 0 && (
+            <div className="space-y-1">
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-indigo-50/60 group">
+                  <span className="w-20 text-slate-500">{formatShortDate(parseIsoDate(payment.date))}</span>
+                  <span className="w-16 font-semibold text-indigo-700">{periodName} {payment.periodIndex + 1}</span>
+                  <span className="flex-1 text-slate-500">{PAYMENT_METHOD_LABELS[payment.method]}</span>
+                  <span className="font-semibold text-slate-700">{formatBRL(payment.amount)}</span>
+                  <button
+                    onClick={() => handleRemove(payment.id)}
+                    className="text-rose-300 hover:text-rose-500 p-1 opacity-0 group-hover:opacity-100 transition-all"
+                    title="Remover pagamento"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentsModal;
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import { Copy, MessageCircle, QrCode } from 'lucide-react';
+import { CohortSettings, Participant, PixSettings } from '../types';
+import { centsToInput, formatBRL, parseBRL } from '../utils/finance';
+import { buildPixPayload, getParticipantCharge, isPixConfigured } from '../utils/pix';
+import { buildWhatsAppLink } from '../utils/phone';
+
+interface PixModalProps {
+  participant: Participant;
+  cohort: CohortSettings;
+  pix: PixSettings;
+  onClose: () => void;
+}
+
+const PixModal: React.FC<PixModalProps> = ({ participant, cohort, pix, onClose }) => {
+  const charge = useMemo(() => getParticipantCharge(participant, cohort), [participant, cohort]);
+  const [amount, setAmount] = useState(charge.amount > 0 ? centsToInput(charge.amount) : '');
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  const configured = isPixConfigured(pix);
+  // An empty or invalid amount leaves it for the payer to type.
+  const parsedAmount = parseBRL(amount) ?? 0;
+  const payload = configured ? buildPixPayload(pix, { ...charge, amount: parsedAmount }) : '';
+
+  useEffect(() => {
+    if (!payload) return;
+    let cancelled = false;
+    QRCode.toDataURL(payload, { margin: 1, width: 240 })
+      .then(url => { if (!cancelled) setQrCode(url); })
+      .catch(() => { if (!cancelled) setQrCode(null); });
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  const message = `Segue o Pix Copia e Cola${parsedAmount > 0 ? ` de ${formatBRL(parsedAmount)}` : ''}:\n\n${payload}`;
+  const whatsAppLink = payload ? buildWhatsAppLink(participant.whatsapp, message) : null;
+  const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <QrCode size={22} className="text-violet-600" /> Cobrança Pix
+        </h3>
+        <p className="text-sm text-slate-500 mb-4 truncate">{participant.name || participant.whatsapp}</p>
+
+        {!configured ? (
+          <p className="text-sm text-amber-600 bg-amber-50 border border-amber-100 rounded-xl p-3">
+            Um tesoureiro precisa cadastrar a chave Pix e o nome do recebedor no botão Pix, acima da planilha, para gerar o código.
+          </p>
+        ) : (
+          <div className="overflow-y-auto flex-1 space-y-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Valor (R$)
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Em aberto"
+                className={`${inputClass} w-32`}
+              />
+            </label>
+
+            <div className="flex justify-center">
+              {qrCode
+                ? <img src={qrCode} alt="QR Code Pix" className="w-60 h-60 rounded-xl border border-indigo-100" />
+                : <div className="w-60 h-60 rounded-xl bg-indigo-50 animate-pulse" />}
+            </div>
+
+            <div>
+              <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-1">Pix Copia e Cola</p>
+              <textarea
+                readOnly
+                value={payload}
+                onFocus={(e) => e.target.select()}
+                rows={4}
+                className="w-full px-3 py-2 bg-indigo-50/50 border border-indigo-100 rounded-xl text-xs text-slate-600 font-mono break-all resize-none outline-none"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors">
+            Fechar
+          </button>
+          {configured && (
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(payload);
+                alert("Copiado para área de transferência!");
+              }}
+              className="flex items-center gap-1.5 px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+            >
+              <Copy size={16} /> Copiar código
+            </button>
+          )}
+          {whatsAppLink && (
+            <a
+              href={whatsAppLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1.5 px-5 py-2.5 bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:from-green-600 hover:to-emerald-700 rounded-xl text-sm font-bold shadow-md transition-all"
+            >
+              <MessageCircle size={16} /> WhatsApp
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PixModal;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { QrCode } from 'lucide-react';
+import { PixKeyType, PixSettings } from '../types';
+import { PIX_KEY_TYPE_LABELS, validatePixKey } from '../utils/pix';
+
+interface PixSettingsModalProps {
+  pix: PixSettings;
+  onChange: (pix: PixSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+
+// Where the money goes, so only treasurers get here; assistants still use the
+// codes it produces in messages and on the rows.
+const PixSettingsModal: React.FC<PixSettingsModalProps> = ({ pix, onChange, onClose }) => {
+  const update = (changes: Partial<PixSettings>) => onChange({ ...pix, ...changes });
+  const keyError = pix.key.trim() ? validatePixKey(pix.keyType, pix.key) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <QrCode size={22} className="text-violet-600" /> Chave Pix
+        </h3>
+        <p className="text-sm text-slate-500 mb-4">Usada nos códigos Pix Copia e Cola e em {'{link_pix}'} nas mensagens, vale para todos os grupos.</p>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <select value={pix.keyType} onChange={(e) => update({ keyType: e.target.value as PixKeyType })} className={inputClass}>
+              {(Object.keys(PIX_KEY_TYPE_LABELS) as PixKeyType[]).map(type => (
+                <option key={type} value={type}>{PIX_KEY_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <div className="flex-1">
+              <input
+                type="text"
+                value={pix.key}
+                placeholder="Chave Pix"
+                onChange={(e) => update({ key: e.target.value })}
+                className={`${inputClass} w-full ${keyError ? 'border-rose-300' : ''}`}
+              />
+              {keyError && <p className="text-xs text-rose-500 mt-1">{keyError}</p>}
+            </div>
+          </div>
+          <input
+            type="text"
+            value={pix.beneficiary}
+            placeholder="Nome do recebedor"
+            onChange={(e) => update({ beneficiary: e.target.value })}
+            className={`${inputClass} w-full`}
+          />
+          <input
+            type="text"
+            value={pix.city}
+            placeholder="Cidade"
+            onChange={(e) => update({ city: e.target.value })}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PixSettingsModal;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Check, Printer, ReceiptText } from 'lucide-react';
+import { CohortSettings, LedgerEvent, Participant } from '../types';
+import { getPeriodLabel } from '../utils/cohort';
+import { formatBRL, getAmountPaid } from '../utils/finance';
+import { getReceiptedPeriods } from '../utils/ledger';
+import { getReceiptAmount } from '../services/receiptService';
+
+interface ReceiptModalProps {
+  participant: Participant;
+  cohort: CohortSettings;
+  // This participant's ledger events, for the receipts already issued.
+  events: LedgerEvent[];
+  nextNumber: number;
+  onIssue: (periodIndexes: number[]) => void;
+  onReprint: (receipt: LedgerEvent) => void;
+  onClose: () => void;
+}
+
+const ReceiptModal: React.FC<ReceiptModalProps> = ({ participant, cohort, events, nextNumber, onIssue, onReprint, onClose }) => {
+  const paidPeriods = participant.weeks.map((paid, i) => (paid ? i : -1)).filter(i => i >= 0);
+  const receipted = getReceiptedPeriods(events);
+  // Starts with what no receipt covers yet.
+  const [selected, setSelected] = useState(() => new Set(paidPeriods.filter(i => !receipted.has(i))));
+  const receipts = events
+    .filter(e => e.type === 'receipt-issued')
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const periodIndexes = paidPeriods.filter(i => selected.has(i));
+  const total = getReceiptAmount(participant, cohort, periodIndexes);
+
+  const toggle = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <ReceiptText size={22} className="text-violet-600" /> Recibo
+        </h3>
+        <p className="text-sm text-slate-500 mb-4 truncate">{participant.name || participant.whatsapp}</p>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div>
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Períodos pagos</p>
+            <div className="border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+              {paidPeriods.map(i => (
+                <label key={i} className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-indigo-50/60">
+                  <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="accent-violet-600" />
+                  <span className="flex-1 text-slate-700">{getPeriodLabel(cohort, i)}</span>
+                  {receipted.has(i) && <span className="text-[10px] font-semibold text-violet-500 uppercase">com recibo</span>}
+                  <span className="w-24 text-right text-slate-600">{formatBRL(getAmountPaid(participant, cohort, i))}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-right text-sm font-bold text-slate-700 mt-2">Total {formatBRL(total)}</p>
+          </div>
+
+          {receipts.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Recibos emitidos</p>
+              <div className="space-y-1">
+                {receipts.map(receipt => (
+                  <div key={receipt.id} className="flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-indigo-50/60">
+                    <span className="w-16 font-semibold text-indigo-700">Nº {receipt.receiptNumber}</span>
+                    <span className="flex-1 text-slate-500">
+                      {new Date(receipt.timestamp).toLocaleDateString('pt-BR')} · {(receipt.periodIndexes ?? []).map(i => i + 1).join(', ')}
+                    </span>
+                    <span className="font-semibold text-slate-700">{formatBRL(receipt.amount ?? 0)}</span>
+                    <button
+                      onClick={() => onReprint(receipt)}
+                      className="text-indigo-300 hover:text-violet-600 p-1 transition-colors"
+                      title="Imprimir novamente"
+                    >
+                      <Printer size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors">
+            Fechar
+          </button>
+          <button
+            onClick={() => onIssue(periodIndexes)}
+            disabled={periodIndexes.length === 0}
+            className="flex items-center gap-1.5 px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md disabled:opacity-40 transition-all"
+          >
+            <Check size={16} /> Emitir recibo nº {nextNumber}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptModal;
@@ -0,0 +1,356 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Participant } from '../types';
+import {
+  CellPosition,
+  CellWrite,
+  FIRST_WEEK_COLUMN,
+  GridColumns,
+  countColumns,
+  isWeekColumn,
+  rangeBetween,
+  readCell
+} from '../utils/grid';
+import { copyCells, parseClipboard, pasteCells } from '../services/clipboardService';
+
+// Every row has the same height, which is what makes the virtual scroll cheap.
+const ROW_HEIGHT = 48;
+// Rows rendered above and below the visible ones, so fast scrolling shows no gaps.
+const OVERSCAN = 10;
+
+// Cells edited in place: text inputs, and the option lists of select fields.
+const isCellEditor = (target: EventTarget) => ['INPUT', 'SELECT'].includes((target as HTMLElement).tagName);
+
+interface SpreadsheetGridProps {
+  // The rows as shown (filtered, sorted, possibly one page).
+  rows: Participant[];
+  columns: GridColumns;
+  // Number of the first row, for pagination.
+  firstIndex: number;
+  renderRow: (participant: Participant, index: number, activeCol?: number, selectedCols?: [number, number]) => React.ReactNode;
+  // Every keyboard and clipboard edit arrives here, as one undo step per call.
+  onWriteCells: (writes: CellWrite[], label: string) => void;
+  // Puts the cursor on this participant's name, e.g. after adding a row.
+  reveal?: { id: string } | null;
+  empty: React.ReactNode;
+}
+
+// Keyboard model, as in Excel and Sheets: arrows, Tab and Enter move the cursor
+// (Shift extends the selection, Ctrl jumps to the edge), typing or F2 edits the
+// text cells, Space toggles the selected periods, Delete clears, Ctrl+D
+// fills down, and Ctrl+C / Ctrl+V copy and paste tab-separated cells.
+const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({ rows, columns, firstIndex, renderRow, onWriteCells, reveal, empty }) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [anchor, setAnchor] = useState<CellPosition | null>(null);
+  const [active, setActive] = useState<CellPosition | null>(null);
+  const isDragging = useRef(false);
+  const revealed = useRef<{ id: string } | null>(null);
+
+  const columnCount = countColumns(columns);
+  const lastRow = rows.length - 1;
+  const selection = anchor && active ? rangeBetween(anchor, active) : null;
+
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportHeight(scroller.clientHeight));
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const stopDragging = () => { isDragging.current = false; };
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, []);
+
+  // Filtering or deleting can leave the cursor past the end.
+  useEffect(() => {
+    if (active && active.row > lastRow) {
+      const clamped = lastRow >= 0 ? { row: lastRow, col: active.col } : null;
+      setAnchor(clamped);
+      setActive(clamped);
+    }
+  }, [active, lastRow]);
+
+  useEffect(() => {
+    if (!reveal || revealed.current === reveal) return;
+    const row = rows.findIndex(p => p.id === reveal.id);
+    if (row < 0) return;
+    revealed.current = reveal;
+    setAnchor({ row, col: 0 });
+    setActive({ row, col: 0 });
+    scrollerRef.current?.focus({ preventScroll: true });
+  }, [reveal, rows]);
+
+  // Keeps the cursor on screen, vertically by arithmetic (its row may not be
+  // rendered yet) and then horizontally through the outer scroll area.
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || !active) return;
+    const top = active.row * ROW_HEIGHT;
+    if (top < scroller.scrollTop) scroller.scrollTop = top;
+    else if (top + ROW_HEIGHT > scroller.scrollTop + scroller.clientHeight) scroller.scrollTop = top + ROW_HEIGHT - scroller.clientHeight;
+    const frame = requestAnimationFrame(() => {
+      cellElement(active)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [active?.row, active?.col]);
+
+  const cellElement = (position: CellPosition) =>
+    scrollerRef.current?.querySelector<HTMLElement>(`[data-row="${position.row}"] [data-col="${position.col}"]`) ?? null;
+
+  const focusGrid = () => scrollerRef.current?.focus({ preventScroll: true });
+
+  const moveTo = (row: number, col: number, extend = false) => {
+    const next = { row: Math.max(0, Math.min(lastRow, row)), col: Math.max(0, Math.min(columnCount - 1, col)) };
+    if (!extend) setAnchor(next);
+    setActive(next);
+  };
+
+  // Tab runs along the row and on to the next one.
+  const moveAcross = (step: number) => {
+    if (!active) return;
+    const index = active.row * columnCount + active.col + step;
+    const clamped = Math.max(0, Math.min(rows.length * columnCount - 1, index));
+    moveTo(Math.floor(clamped / columnCount), clamped % columnCount);
+  };
+
+  const startEditing = (replace: boolean) => {
+    if (!active || isWeekColumn(active.col, columns)) return;
+    const input = cellElement(active)?.querySelector<HTMLInputElement | HTMLSelectElement>('input, select');
+    if (!input || input.disabled || (input instanceof HTMLInputElement && input.readOnly)) return;
+    input.focus();
+    // Date inputs have no text selection.
+    if (!(input instanceof HTMLInputElement) || input.type !== 'text') return;
+    if (replace) input.select();
+    else input.setSelectionRange(input.value.length, input.value.length);
+  };
+
+  const selectedCells = () => {
+    const cells: CellPosition[] = [];
+    if (!selection) return cells;
+    for (let row = selection.top; row <= selection.bottom; row++) {
+      for (let col = selection.left; col <= selection.right; col++) cells.push({ row, col });
+    }
+    return cells;
+  };
+
+  const toggleWeeks = () => {
+    if (!active || !isWeekColumn(active.col, columns)) return;
+    const paid = !readCell(rows[active.row], active.col, columns);
+    onWriteCells(selectedCells().filter(c => isWeekColumn(c.col, columns)).map(c => ({ ...c, value: paid })), 'Marcar pagamento');
+  };
+
+  const clearCells = () => {
+    onWriteCells(selectedCells().map(c => ({ ...c, value: isWeekColumn(c.col, columns) ? false : '' })), 'Apagar células');
+  };
+
+  // Copies the selection's first row over the rows below it; with a single row
+  // selected, copies the row above. Names and numbers are never filled.
+  const fillDown = () => {
+    if (!selection) return;
+    const sourceRow = selection.top === selection.bottom ? selection.top - 1 : selection.top;
+    if (sourceRow < 0) return;
+    const writes: CellWrite[] = [];
+    for (let col = Math.max(selection.left, FIRST_WEEK_COLUMN); col <= selection.right; col++) {
+      const value = readCell(rows[sourceRow], col, columns);
+      for (let row = sourceRow + 1; row <= selection.bottom; row++) writes.push({ row, col, value });
+    }
+    onWriteCells(writes, 'Preencher para baixo');
+  };
+
+  const handleEditingKey = (e: React.KeyboardEvent) => {
+    if (!active) return;
+    const leave = () => {
+      e.preventDefault();
+      focusGrid();
+    };
+    switch (e.key) {
+      case 'Enter':
+        leave();
+        moveTo(active.row + (e.shiftKey ? -1 : 1), active.col);
+        break;
+      case 'Tab':
+        leave();
+        moveAcross(e.shiftKey ? -1 : 1);
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+        leave();
+        moveTo(active.row + (e.key === 'ArrowUp' ? -1 : 1), active.col);
+        break;
+      case 'Escape':
+        leave();
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isCellEditor(e.target)) {
+      handleEditingKey(e);
+      return;
+    }
+    if (rows.length === 0) return;
+    if (!active) {
+      if (e.key.startsWith('Arrow') || e.key === 'Tab') {
+        e.preventDefault();
+        moveTo(0, 0);
+      }
+      return;
+    }
+
+    const ctrl = e.ctrlKey || e.metaKey;
+    const page = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT) - 1);
+    const handled = () => e.preventDefault();
+
+    if (ctrl && e.key.toLowerCase() === 'd') {
+      handled();
+      fillDown();
+    } else if (ctrl && e.key.toLowerCase() === 'a') {
+      handled();
+      setAnchor({ row: 0, col: 0 });
+      setActive({ row: lastRow, col: columnCount - 1 });
+    } else if (e.key === 'ArrowUp') {
+      handled();
+      moveTo(ctrl ? 0 : active.row - 1, active.col, e.shiftKey);
+    } else if (e.key === 'ArrowDown') {
+      handled();
+      moveTo(ctrl ? lastRow : active.row + 1, active.col, e.shiftKey);
+    } else if (e.key === 'ArrowLeft') {
+      handled();
+      moveTo(active.row, ctrl ? 0 : active.col - 1, e.shiftKey);
+    } else if (e.key === 'ArrowRight') {
+      handled();
+      moveTo(active.row, ctrl ? columnCount - 1 : active.col + 1, e.shiftKey);
+    } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+      handled();
+      moveTo(active.row + (e.key === 'PageUp' ? -page : page), active.col, e.shiftKey);
+    } else if (e.key === 'Home' || e.key === 'End') {
+      handled();
+      const col = e.key === 'Home' ? 0 : columnCount - 1;
+      moveTo(ctrl ? (e.key === 'Home' ? 0 : lastRow) : active.row, col, e.shiftKey);
+    } else if (e.key === 'Tab') {
+      handled();
+      moveAcross(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Enter') {
+      handled();
+      moveTo(active.row + (e.shiftKey ? -1 : 1), active.col);
+    } else if (e.key === ' ') {
+      handled();
+      toggleWeeks();
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      handled();
+      clearCells();
+    } else if (e.key === 'Escape') {
+      setAnchor(active);
+    } else if (e.key === 'F2') {
+      handled();
+      startEditing(false);
+    } else if (e.key.length === 1 && !ctrl && !e.altKey) {
+      // The key then lands in the input, replacing its text.
+      startEditing(true);
+    }
+  };
+
+  const positionOf = (target: EventTarget): CellPosition | null => {
+    const element = target as HTMLElement;
+    const cell = element.closest<HTMLElement>('[data-col]');
+    const row = element.closest<HTMLElement>('[data-row]');
+    if (!cell || !row) return null;
+    return { row: Number(row.dataset.row), col: Number(cell.dataset.col) };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const position = positionOf(e.target);
+    if (!position || e.button !== 0) return;
+    const isInput = isCellEditor(e.target);
+    if (e.shiftKey && active) {
+      e.preventDefault();
+      setActive(position);
+      focusGrid();
+      return;
+    }
+    setAnchor(position);
+    setActive(position);
+    isDragging.current = true;
+    // Week buttons still get their click; the grid keeps the keyboard focus.
+    if (!isInput) {
+      e.preventDefault();
+      focusGrid();
+    }
+  };
+
+  const handleMouseOver = (e: React.MouseEvent) => {
+    if (!isDragging.current || e.buttons !== 1) return;
+    const position = positionOf(e.target);
+    if (position && (position.row !== active?.row || position.col !== active?.col)) setActive(position);
+  };
+
+  const handleCopy = (e: React.ClipboardEvent, cut = false) => {
+    if (isCellEditor(e.target) || !selection) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', copyCells(rows, selection, columns));
+    if (cut) clearCells();
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (!selection) return;
+    const text = e.clipboardData.getData('text/plain');
+    // Plain text typed into a cell is pasted by the input itself.
+    if (isCellEditor(e.target) && !/[\t\n]/.test(text.replace(/\r?\n$/, ''))) return;
+    e.preventDefault();
+    const writes = pasteCells(parseClipboard(text), selection, columns);
+    if (writes.length === 0) return;
+    onWriteCells(writes, 'Colar');
+    const bottom = writes.reduce((max, w) => Math.max(max, w.row), selection.top);
+    const right = writes.reduce((max, w) => Math.max(max, w.col), selection.left);
+    setAnchor({ row: selection.top, col: selection.left });
+    setActive({ row: bottom, col: right });
+    focusGrid();
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div
+      ref={scrollerRef}
+      data-spreadsheet
+      tabIndex={0}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onKeyDown={handleKeyDown}
+      onMouseDown={handleMouseDown}
+      onMouseOver={handleMouseOver}
+      onCopy={(e) => handleCopy(e)}
+      onCut={(e) => handleCopy(e, true)}
+      onPaste={handlePaste}
+      className="overflow-y-auto h-[65vh] min-h-[320px] bg-white custom-scrollbar outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-violet-200"
+    >
+      {rows.length === 0 ? empty : (
+        <div style={{ height: rows.length * ROW_HEIGHT }} className="relative">
+          <div style={{ transform: `translateY(${start * ROW_HEIGHT}px)` }}>
+            {rows.slice(start, end).map((participant, i) => {
+              const row = start + i;
+              const inSelection = selection && row >= selection.top && row <= selection.bottom
+                && (selection.top !== selection.bottom || selection.left !== selection.right);
+              return (
+                <div key={participant.id} data-row={row} style={{ height: ROW_HEIGHT }}>
+                  {renderRow(
+                    participant,
+                    firstIndex + row,
+                    active?.row === row ? active.col : undefined,
+                    inSelection ? [selection.left, selection.right] : undefined
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpreadsheetGrid;
@@ -1,6 +1,23 @@
-import React, { memo } from 'react';
-import { Participant } from '../types';
-import { Check, X, MessageCircle, Trash2 } from 'lucide-react';
+import React, { memo, useState } from 'react';
+import { CustomField, FieldSettings, Participant } from '../types';
+import { Check, X, MessageCircle, Trash2, ArrowRightLeft, Wallet, History, AlertCircle, Copy, QrCode, ReceiptText } from 'lucide-react';
+import { countPaidWeeks, getStatusLabel, isFullyPaid } from '../utils/participant';
+import { PERIOD_COLUMN_WIDTH } from '../utils/cohort';
+import { formatPhone, formatPhoneInput, validatePhone } from '../utils/phone';
+import { Permission } from '../utils/permissions';
+import { FIRST_WEEK_COLUMN, NAME_COLUMN, WHATSAPP_COLUMN } from '../utils/grid';
+import {
+  FIELD_COLUMN_WIDTH,
+  NOTES_COLUMN_WIDTH,
+  TAGS_COLUMN_WIDTH,
+  TAG_COLORS,
+  formatFieldValue,
+  formatTags,
+  getFieldValue,
+  getTagColor,
+  parseFieldValue,
+  parseTags
+} from '../utils/fields';
 
 interface SpreadsheetRowProps {
   participant: Participant;
@@ -8,47 +25,245 @@ interface SpreadsheetRowProps {
   onUpdate: (id: string, field: keyof Participant | 'week', value: any, weekIndex?: number) => void;
   onDelete: (id: string) => void;
   onGenerateMessage: (participant: Participant) => void;
+  onTransfer: (participant: Participant) => void;
+  onOpenPayments: (participant: Participant) => void;
+  onOpenHistory: (participant: Participant) => void;
+  onOpenPix: (participant: Participant) => void;
+  onOpenReceipt: (participant: Participant) => void;
+  onUpdateField: (id: string, fieldId: string, value: string) => void;
+  // Custom field columns and tag colors of the workspace.
+  fields: FieldSettings;
+  // Who else has this WhatsApp number, if anyone.
+  duplicateOf?: string;
+  // Stable across renders, or every row re-renders on each edit.
+  can: (permission: Permission) => boolean;
+  // Keyboard cursor and selected columns, only on the rows they touch (see SpreadsheetGrid).
+  activeCol?: number;
+  selectedCols?: [number, number];
+  // Checkbox for batch actions; `range` is set on shift-click.
+  isSelected: boolean;
+  onSelect: (id: string, selected: boolean, range: boolean) => void;
 }
 
+const inputClass = "w-full h-full px-3 bg-transparent focus:bg-white focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset text-sm text-slate-600 placeholder-indigo-200 transition-all";
+
+// Edits a copy of the text and hands it over when the cell is left, for values
+// stored differently from how they are typed ("1.234,5", "vip, bolsista").
+const DraftInput: React.FC<{
+  text: string;
+  onCommit: (text: string) => void;
+  readOnly: boolean;
+  className?: string;
+  inputMode?: 'decimal';
+  onEditingChange?: (editing: boolean) => void;
+}> = ({ text, onCommit, readOnly, className = '', inputMode, onEditingChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <input
+      type="text"
+      tabIndex={-1}
+      inputMode={inputMode}
+      value={draft ?? text}
+      readOnly={readOnly}
+      onFocus={() => {
+        setDraft(text);
+        onEditingChange?.(true);
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (!readOnly && draft !== null && draft !== text) onCommit(draft);
+        setDraft(null);
+        onEditingChange?.(false);
+      }}
+      className={`${inputClass} ${className}`}
+    />
+  );
+};
+
+const FieldInput: React.FC<{
+  field: CustomField;
+  value: string;
+  readOnly: boolean;
+  onChange: (value: string) => void;
+}> = ({ field, value, readOnly, onChange }) => {
+  if (field.type === 'select') {
+    // A value whose option was since removed still shows, until changed.
+    const options = value && !field.options.includes(value) ? [...field.options, value] : field.options;
+    return (
+      <select
+        tabIndex={-1}
+        value={value}
+        disabled={readOnly}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClass} disabled:opacity-100 cursor-pointer disabled:cursor-default`}
+      >
+        <option value=""></option>
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    );
+  }
+  if (field.type === 'date') {
+    return (
+      <input
+        type="date"
+        tabIndex={-1}
+        value={value}
+        readOnly={readOnly}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+      />
+    );
+  }
+  if (field.type === 'number') {
+    return (
+      <DraftInput
+        text={formatFieldValue(field, value)}
+        inputMode="decimal"
+        readOnly={readOnly}
+        onCommit={(text) => {
+          // Anything that isn't a number puts the old value back.
+          const parsed = parseFieldValue(field, text);
+          if (parsed !== null) onChange(parsed);
+        }}
+        className="text-right"
+      />
+    );
+  }
+  return (
+    <input
+      type="text"
+      tabIndex={-1}
+      value={value}
+      readOnly={readOnly}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+    />
+  );
+};
+
+// Colored chips; clicking the cell edits the tags as comma-separated text.
+const TagsCell: React.FC<{
+  tags: string[];
+  fields: FieldSettings;
+  readOnly: boolean;
+  onChange: (tags: string[]) => void;
+}> = ({ tags, fields, readOnly, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  return (
+    <>
+      <DraftInput
+        text={formatTags(tags)}
+        readOnly={readOnly}
+        onCommit={(text) => onChange(parseTags(text))}
+        onEditingChange={setIsEditing}
+        className={isEditing ? '' : 'text-transparent'}
+      />
+      {!isEditing && tags.length > 0 && (
+        <div className="absolute inset-0 px-2 flex items-center gap-1 overflow-hidden pointer-events-none">
+          {tags.map(tag => (
+            <span key={tag} className={`text-[10px] font-semibold px-1.5 py-0.5 rounded-full border whitespace-nowrap ${TAG_COLORS[getTagColor(fields, tag)].chip}`}>
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
 const SpreadsheetRow: React.FC<SpreadsheetRowProps> = ({ 
   participant, 
   index, 
   onUpdate, 
   onDelete,
-  onGenerateMessage
+  onGenerateMessage,
+  onTransfer,
+  onOpenPayments,
+  onOpenHistory,
+  onOpenPix,
+  onOpenReceipt,
+  onUpdateField,
+  fields,
+  duplicateOf,
+  can,
+  activeCol,
+  selectedCols,
+  isSelected,
+  onSelect
 }) => {
-  const isComplete = participant.weeks.every(w => w);
+  const [isEditingPhone, setIsEditingPhone] = useState(false);
+  const isComplete = isFullyPaid(participant);
+  const paidCount = countPaidWeeks(participant);
   const isEmpty = !participant.name && !participant.whatsapp;
+  // Only complain once the user leaves the cell, not while they are still typing.
+  const phoneError = isEditingPhone ? null : validatePhone(participant.whatsapp);
+  const tagsCol = FIRST_WEEK_COLUMN + participant.weeks.length + fields.custom.length;
+  const cellClass = (col: number) => [
+    selectedCols && col >= selectedCols[0] && col <= selectedCols[1] ? 'bg-violet-100/70' : '',
+    col === activeCol ? 'ring-2 ring-inset ring-violet-500' : ''
+  ].join(' ');
 
   return (
-    <div className={`flex items-center border-b border-indigo-50 hover:bg-violet-50/60 transition-colors group ${index % 2 === 0 ? 'bg-white' : 'bg-indigo-50/30'}`}>
-      {/* Index */}
-      <div className="w-12 flex-shrink-0 text-center text-xs font-medium text-indigo-300 py-3 select-none">
-        {index + 1}
-      </div>
+    <div className={`h-full flex items-center border-b border-indigo-50 hover:bg-violet-50/60 transition-colors group ${isSelected ? 'bg-violet-50' : index % 2 === 0 ? 'bg-white' : 'bg-indigo-50/30'}`}>
+      {/* Index, or the selection checkbox on hover */}
+      <label className="w-12 flex-shrink-0 self-stretch flex items-center justify-center text-xs font-medium text-indigo-300 select-none cursor-pointer">
+        <span className={isSelected ? 'hidden' : 'group-hover:hidden'}>{index + 1}</span>
+        <input
+          type="checkbox"
+          tabIndex={-1}
+          checked={isSelected}
+          readOnly
+          onClick={(e) => onSelect(participant.id, e.currentTarget.checked, e.shiftKey)}
+          title="Selecionar (Shift+clique seleciona um intervalo)"
+          className={`w-4 h-4 accent-violet-600 cursor-pointer ${isSelected ? '' : 'hidden group-hover:block'}`}
+        />
+      </label>
 
       {/* Name Input - Orange Border */}
-      <div className="flex-1 min-w-[200px] border-r border-orange-200">
+      <div data-col={NAME_COLUMN} className={`flex-1 min-w-[200px] self-stretch flex items-center border-r border-orange-200 ${cellClass(NAME_COLUMN)}`}>
         <input
           type="text"
+          tabIndex={-1}
           value={participant.name}
           onChange={(e) => onUpdate(participant.id, 'name', e.target.value)}
+          readOnly={!can('edit-contacts')}
           placeholder="Nome do Participante"
           className="w-full px-4 py-3 bg-transparent focus:bg-white focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset text-sm text-slate-700 font-medium placeholder-indigo-200 transition-all"
         />
       </div>
 
       {/* WhatsApp Input - Orange Border */}
-      <div className="w-40 md:w-48 flex-shrink-0 border-r border-orange-200 relative group/input">
+      <div data-col={WHATSAPP_COLUMN} className={`w-40 md:w-48 flex-shrink-0 self-stretch flex items-center border-r border-orange-200 relative group/input ${cellClass(WHATSAPP_COLUMN)}`}>
         <input
           type="tel"
+          tabIndex={-1}
           value={participant.whatsapp}
-          onChange={(e) => onUpdate(participant.id, 'whatsapp', e.target.value)}
+          onChange={(e) => onUpdate(participant.id, 'whatsapp', formatPhoneInput(e.target.value))}
+          readOnly={!can('edit-contacts')}
+          onFocus={() => setIsEditingPhone(true)}
+          onBlur={() => {
+            setIsEditingPhone(false);
+            if (!can('edit-contacts')) return;
+            const formatted = formatPhone(participant.whatsapp);
+            if (formatted !== participant.whatsapp) onUpdate(participant.id, 'whatsapp', formatted);
+          }}
           placeholder="(00) 00000-0000"
-          className="w-full px-4 py-3 bg-transparent focus:bg-white focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset text-sm text-slate-600 placeholder-indigo-200 transition-all"
+          title={phoneError ?? undefined}
+          className={`w-full px-4 py-3 bg-transparent focus:bg-white focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset text-sm placeholder-indigo-200 transition-all ${
+            phoneError ? 'text-rose-600 underline decoration-rose-300 decoration-wavy underline-offset-4' : 'text-slate-600'
+          }`}
         />
-        {!isEmpty && (
+        {(phoneError || duplicateOf) && (
+          <span
+            title={phoneError ?? `Mesmo número de: ${duplicateOf}`}
+            className={`absolute left-0.5 top-1/2 -translate-y-1/2 ${phoneError ? 'text-rose-400' : 'text-amber-400'}`}
+          >
+            {phoneError ? <AlertCircle size={12} /> : <Copy size={12} />}
+          </span>
+        )}
+        {!isEmpty && can('send-messages') && (
            <button 
+             tabIndex={-1}
              onClick={() => onGenerateMessage(participant)}
              title="Gerar mensagem com IA"
              className="absolute right-2 top-1/2 -translate-y-1/2 text-emerald-400 hover:text-emerald-600 bg-white/80 hover:bg-white rounded-full p-1 shadow-sm opacity-0 group-hover/input:opacity-100 transition-all transform hover:scale-110"
@@ -59,12 +274,18 @@ const SpreadsheetRow: React.FC<SpreadsheetRowProps> = ({
       </div>
 
       {/* Weeks Checks - Orange Borders */}
-      <div className="flex w-56 md:w-80 flex-shrink-0">
+      <div className="flex flex-shrink-0 self-stretch" style={{ width: participant.weeks.length * PERIOD_COLUMN_WIDTH }}>
         {participant.weeks.map((paid, weekIndex) => (
-          <div key={weekIndex} className="flex-1 border-r border-orange-200 flex justify-center items-center py-1">
+          <div
+            key={weekIndex}
+            data-col={FIRST_WEEK_COLUMN + weekIndex}
+            className={`flex-1 self-stretch border-r border-orange-200 flex justify-center items-center py-1 ${cellClass(FIRST_WEEK_COLUMN + weekIndex)}`}
+          >
             <button
+              tabIndex={-1}
               onClick={() => onUpdate(participant.id, 'week', !paid, weekIndex)}
-              className={`w-7 h-7 rounded-lg flex items-center justify-center transition-all duration-300 ease-out ${
+              disabled={!can('edit-payments')}
+              className={`w-7 h-7 rounded-lg flex items-center justify-center transition-all duration-300 ease-out disabled:cursor-default ${
                 paid 
                   ? 'bg-gradient-to-br from-emerald-400 to-emerald-500 text-white shadow-md shadow-emerald-200 scale-100' 
                   : 'bg-indigo-50 text-indigo-200 hover:bg-indigo-100 hover:text-indigo-300 scale-90'
@@ -76,24 +297,118 @@ const SpreadsheetRow: React.FC<SpreadsheetRowProps> = ({
         ))}
       </div>
 
+      {/* Custom fields, tags and notes */}
+      {fields.custom.map((field, i) => {
+        const col = FIRST_WEEK_COLUMN + participant.weeks.length + i;
+        return (
+          <div
+            key={field.id}
+            data-col={col}
+            style={{ width: FIELD_COLUMN_WIDTH }}
+            className={`flex-shrink-0 self-stretch flex items-center border-r border-indigo-100 ${cellClass(col)}`}
+          >
+            <FieldInput
+              field={field}
+              value={getFieldValue(participant, field.id)}
+              readOnly={!can('edit-contacts')}
+              onChange={(value) => onUpdateField(participant.id, field.id, value)}
+            />
+          </div>
+        );
+      })}
+      <div
+        data-col={tagsCol}
+        style={{ width: TAGS_COLUMN_WIDTH }}
+        className={`flex-shrink-0 self-stretch flex items-center border-r border-indigo-100 relative ${cellClass(tagsCol)}`}
+      >
+        <TagsCell
+          tags={participant.tags ?? []}
+          fields={fields}
+          readOnly={!can('edit-contacts')}
+          onChange={(tags) => onUpdate(participant.id, 'tags', tags.length > 0 ? tags : undefined)}
+        />
+      </div>
+      <div
+        data-col={tagsCol + 1}
+        style={{ width: NOTES_COLUMN_WIDTH }}
+        className={`flex-shrink-0 self-stretch flex items-center border-r border-indigo-100 ${cellClass(tagsCol + 1)}`}
+      >
+        <input
+          type="text"
+          tabIndex={-1}
+          value={participant.notes ?? ''}
+          onChange={(e) => onUpdate(participant.id, 'notes', e.target.value || undefined)}
+          readOnly={!can('edit-contacts')}
+          title={participant.notes || undefined}
+          className={inputClass}
+        />
+      </div>
+
       {/* Status Summary / Actions */}
-      <div className="w-24 flex-shrink-0 flex items-center justify-center gap-2">
+      <div className="w-56 flex-shrink-0 flex items-center justify-center gap-0.5">
         {isComplete ? (
             <span className="text-[10px] font-extrabold text-emerald-600 bg-emerald-100 border border-emerald-200 px-2 py-1 rounded-full shadow-sm">
                 PAGO
             </span>
         ) : (
-            <span className={`text-[11px] font-bold px-2 py-0.5 rounded-full ${participant.weeks.filter(Boolean).length > 0 ? 'bg-indigo-100 text-indigo-600' : 'text-indigo-300'}`}>
-                {participant.weeks.filter(Boolean).length}/5
+            <span className={`text-[11px] font-bold px-2 py-0.5 rounded-full ${paidCount > 0 ? 'bg-indigo-100 text-indigo-600' : 'text-indigo-300'}`}>
+                {getStatusLabel(participant)}
             </span>
         )}
-        <button 
-          onClick={() => onDelete(participant.id)}
-          className="text-rose-300 hover:text-rose-500 hover:bg-rose-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
-          title="Remover"
-        >
-            <Trash2 size={16} />
-        </button>
+        {!isEmpty && can('edit-payments') && (
+          <button
+            onClick={() => onOpenPayments(participant)}
+            className="text-emerald-300 hover:text-emerald-600 hover:bg-emerald-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Pagamentos"
+          >
+              <Wallet size={16} />
+          </button>
+        )}
+        {paidCount > 0 && can('edit-payments') && (
+          <button
+            onClick={() => onOpenReceipt(participant)}
+            className="text-violet-300 hover:text-violet-600 hover:bg-violet-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Recibo"
+          >
+              <ReceiptText size={16} />
+          </button>
+        )}
+        {!isEmpty && !isComplete && can('send-messages') && (
+          <button
+            onClick={() => onOpenPix(participant)}
+            className="text-teal-300 hover:text-teal-600 hover:bg-teal-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Cobrança Pix"
+          >
+              <QrCode size={16} />
+          </button>
+        )}
+        {!isEmpty && (
+          <button
+            onClick={() => onOpenHistory(participant)}
+            className="text-indigo-300 hover:text-indigo-500 hover:bg-indigo-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Histórico"
+          >
+              <History size={16} />
+          </button>
+        )}
+        {!isEmpty && can('manage-groups') && (
+          <button
+            onClick={() => onTransfer(participant)}
+            className="text-indigo-300 hover:text-indigo-500 hover:bg-indigo-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Mover ou copiar para outra turma"
+          >
+              <ArrowRightLeft size={16} />
+          </button>
+        )}
+        {can('delete') && (
+          <button 
+            onClick={() => onDelete(participant.id)}
+            className="text-rose-300 hover:text-rose-500 hover:bg-rose-50 rounded p-1.5 opacity-0 group-hover:opacity-100 transition-all"
+            title="Mover para a lixeira"
+          >
+              <Trash2 size={16} />
+          </button>
+        )}
       </div>
     </div>
   );
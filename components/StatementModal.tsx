@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { Landmark, Loader2, Undo2, Upload, X } from 'lucide-react';
+import { CohortSettings, Participant } from '../types';
+import { FREQUENCY_LABELS, formatShortDate, parseIsoDate } from '../utils/cohort';
+import { formatBRL, getAmountOutstanding } from '../utils/finance';
+import { isActiveParticipant } from '../utils/participant';
+import { ReconciledEntry, matchStatement, proposePeriod } from '../utils/reconcile';
+import { enqueueStatement, loadStatementQueue, parseStatementFile, saveStatementQueue } from '../services/statementService';
+
+interface StatementModalProps {
+  participants: Participant[];
+  cohort: CohortSettings;
+  // References of the payments already recorded, in every group.
+  reconciled: Set<string>;
+  onApply: (entries: ReconciledEntry[]) => void;
+  onClose: () => void;
+}
+
+type EntryStatus = 'pending' | 'confirmed' | 'ignored';
+
+interface Decision {
+  participantId: string;
+  periodIndex: number | null;
+  status: EntryStatus;
+}
+
+const collator = new Intl.Collator('pt-BR', { sensitivity: 'base' });
+
+const StatementModal: React.FC<StatementModalProps> = ({ participants, cohort, reconciled, onApply, onClose }) => {
+  const [queue, setQueue] = useState(loadStatementQueue);
+  // Only what the user changed; everything else follows the proposed match.
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const matches = useMemo(() => matchStatement(queue.pending, participants, cohort), [queue.pending, participants, cohort]);
+  const people = useMemo(
+    () => participants.filter(p => isActiveParticipant(p) && p.name.trim()).sort((a, b) => collator.compare(a.name, b.name)),
+    [participants]
+  );
+  const periodName = FREQUENCY_LABELS[cohort.frequency].short;
+
+  const rows = matches.map(match => {
+    const [best] = match.candidates;
+    const decision: Decision = decisions[match.entry.id] ?? {
+      participantId: best?.participant.id ?? '',
+      periodIndex: best?.periodIndex ?? null,
+      status: match.confident ? 'confirmed' : 'pending'
+    };
+    return { ...match, decision };
+  });
+  const confirmed = rows.filter(r => r.decision.status === 'confirmed' && r.decision.participantId && r.decision.periodIndex !== null);
+  const ignored = rows.filter(r => r.decision.status === 'ignored');
+
+  const updateQueue = (next: typeof queue) => {
+    setQueue(next);
+    saveStatementQueue(next);
+  };
+
+  const decide = (entryId: string, current: Decision, changes: Partial<Decision>) => {
+    setDecisions(prev => ({ ...prev, [entryId]: { ...current, ...changes } }));
+  };
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const entries = await parseStatementFile(file);
+      const result = enqueueStatement(queue, entries, reconciled);
+      updateQueue(result.queue);
+      setNotice(`${result.added} ${result.added === 1 ? 'crédito novo' : 'créditos novos'}${result.skipped ? `; ${result.skipped} já conciliados ou ignorados` : ''}.`);
+    } catch (e) {
+      console.error("Failed to parse bank statement", e);
+      setError(e instanceof Error ? e.message : "Não foi possível ler o extrato. Use OFX ou o CSV exportado pelo banco.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  // Confirmed entries become payments and ignored ones are set aside; the rest stays for later.
+  const handleApply = () => {
+    const done = new Set([...confirmed, ...ignored].map(r => r.entry.id));
+    updateQueue({
+      pending: queue.pending.filter(e => !done.has(e.id)),
+      ignored: [...queue.ignored, ...ignored.map(r => r.entry.id)]
+    });
+    setDecisions(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !done.has(id))));
+    if (confirmed.length > 0) {
+      onApply(confirmed.map(r => ({ entry: r.entry, participantId: r.decision.participantId, periodIndex: r.decision.periodIndex! })));
+    }
+    setNotice(`${confirmed.length} ${confirmed.length === 1 ? 'pagamento registrado' : 'pagamentos registrados'}${ignored.length ? `, ${ignored.length} ignorados` : ''}.`);
+  };
+
+  const inputClass = "px-2 py-1.5 bg-white border border-indigo-200 rounded-lg focus:ring-2 focus:ring-violet-200 outline-none text-xs text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <Landmark size={22} className="text-violet-600" /> Conciliação bancária
+        </h3>
+        <p className="text-sm text-slate-500 mb-4">Os créditos do extrato são comparados com os participantes desta turma pelo nome, valor e data.</p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-1.5 px-4 py-2 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50 cursor-pointer text-sm font-medium transition-colors">
+            {isParsing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Carregar extrato (OFX ou CSV)
+            <input
+              type="file"
+              accept=".ofx,.csv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {notice && <span className="text-sm text-emerald-600">{notice}</span>}
+          {error && <span className="text-sm text-rose-600">{error}</span>}
+        </div>
+
+        <div className="overflow-y-auto flex-1 border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+          {rows.length === 0 && (
+            <p className="py-12 text-center text-sm text-indigo-300">Nenhum lançamento para revisar.</p>
+          )}
+          {rows.map(({ entry, candidates, decision }) => {
+            const candidateIds = new Set(candidates.map(c => c.participant.id));
+            const participant = people.find(p => p.id === decision.participantId);
+            const isIgnored = decision.status === 'ignored';
+            return (
+              <div key={entry.id} className={`flex items-center gap-3 px-3 py-2 text-sm ${isIgnored ? 'opacity-40' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={decision.status === 'confirmed'}
+                  disabled={isIgnored || !participant || decision.periodIndex === null}
+                  onChange={(e) => decide(entry.id, decision, { status: e.target.checked ? 'confirmed' : 'pending' })}
+                  title="Confirmar"
+                  className="accent-violet-600"
+                />
+                <span className="w-14 text-slate-500">{formatShortDate(parseIsoDate(entry.date))}</span>
+                <span className="w-24 text-right font-semibold text-slate-700">{formatBRL(entry.amount)}</span>
+                <span className="flex-1 min-w-0 truncate text-slate-500" title={entry.description}>{entry.description || '—'}</span>
+                <select
+                  value={decision.participantId}
+                  disabled={isIgnored}
+                  onChange={(e) => {
+                    const next = people.find(p => p.id === e.target.value);
+                    decide(entry.id, decision, {
+                      participantId: e.target.value,
+                      periodIndex: next ? proposePeriod(next, cohort, entry.amount) : null,
+                      status: next ? 'confirmed' : 'pending'
+                    });
+                  }}
+                  className={`${inputClass} w-48`}
+                >
+                  <option value="">Sem correspondência</option>
+                  {candidates.map(c => (
+                    <option key={c.participant.id} value={c.participant.id}>{c.participant.name} · {Math.round(c.score * 100)}%</option>
+                  ))}
+                  <optgroup label="Outros participantes">
+                    {people.filter(p => !candidateIds.has(p.id)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </optgroup>
+                </select>
+                <select
+                  value={decision.periodIndex ?? ''}
+                  disabled={isIgnored || !participant}
+                  onChange={(e) => decide(entry.id, decision, { periodIndex: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={`${inputClass} w-40`}
+                >
+                  <option value="">Período</option>
+                  {participant?.weeks.map((paid, i) => (
+                    <option key={i} value={i}>
+                      {periodName} {i + 1} · {paid ? 'pago' : `falta ${formatBRL(getAmountOutstanding(participant, cohort, i))}`}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => decide(entry.id, decision, { status: isIgnored ? 'pending' : 'ignored' })}
+                  title={isIgnored ? 'Desfazer' : 'Ignorar'}
+                  className="p-1 text-indigo-300 hover:text-rose-500 transition-colors"
+                >
+                  {isIgnored ? <Undo2 size={14} /> : <X size={14} />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-6">
+          <p className="text-xs text-indigo-400">O que não for confirmado nem ignorado fica guardado neste navegador para revisar depois.</p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors">
+              Fechar
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={confirmed.length + ignored.length === 0}
+              className="px-5 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white hover:from-emerald-600 hover:to-teal-600 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+            >
+              Aplicar{confirmed.length > 0 && ` ${confirmed.length} ${confirmed.length === 1 ? 'pagamento' : 'pagamentos'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementModal;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CheckCircle2, CloudOff, HardDrive, Loader2, RefreshCw } from 'lucide-react';
+import { SyncStatus } from '../services/storageService';
+
+interface SyncIndicatorProps {
+  // Null when the data stays in this browser only.
+  status: SyncStatus | null;
+  isSaving: boolean;
+}
+
+const SyncIndicator: React.FC<SyncIndicatorProps> = ({ status, isSaving }) => {
+  if (!status) {
+    return (
+      <span className="flex items-center gap-1.5">
+        {isSaving ? <Loader2 size={14} className="animate-spin" /> : <HardDrive size={14} />}
+        {isSaving ? 'Salvando...' : 'Salvo neste navegador'}
+      </span>
+    );
+  }
+
+  if (!status.online) {
+    return (
+      <span className="flex items-center gap-1.5 text-amber-600">
+        <CloudOff size={14} />
+        {status.pending > 0
+          ? `Sem conexão: ${status.pending} alteração(ões) salvas no aparelho, aguardando envio`
+          : 'Sem conexão: tudo o que foi feito já estava sincronizado'}
+      </span>
+    );
+  }
+
+  if (status.syncing || status.pending > 0) {
+    return (
+      <span className="flex items-center gap-1.5 text-violet-500">
+        {status.syncing ? <RefreshCw size={14} className="animate-spin" /> : <Loader2 size={14} className="animate-spin" />}
+        Sincronizando {status.pending} alteração(ões)...
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5 text-emerald-600">
+      <CheckCircle2 size={14} />
+      Tudo sincronizado com o servidor
+    </span>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { FileText, Plus, Trash2, Copy } from 'lucide-react';
+import { CohortSettings, MessageSituation, MessageTemplate, MessagingSettings, Participant } from '../types';
+import { isActiveParticipant } from '../utils/participant';
+import {
+  SITUATION_LABELS,
+  TEMPLATE_VARIABLES,
+  buildTemplateValues,
+  createTemplate,
+  renderTemplate
+} from '../utils/templates';
+
+interface TemplatesModalProps {
+  messaging: MessagingSettings;
+  participants: Participant[];
+  cohort: CohortSettings;
+  groupName: string;
+  onChange: (messaging: MessagingSettings) => void;
+  onClose: () => void;
+}
+
+const SITUATIONS = Object.keys(SITUATION_LABELS) as MessageSituation[];
+
+const TemplatesModal: React.FC<TemplatesModalProps> = ({ messaging, participants, cohort, groupName, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState(messaging.templates[0]?.id ?? '');
+  const candidates = participants.filter(isActiveParticipant);
+  const [previewId, setPreviewId] = useState(candidates[0]?.id ?? '');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const selected = messaging.templates.find(t => t.id === selectedId);
+  const previewParticipant = candidates.find(p => p.id === previewId);
+
+  const updateTemplates = (templates: MessageTemplate[]) => onChange({ ...messaging, templates });
+
+  const updateSelected = (changes: Partial<MessageTemplate>) => {
+    if (!selected) return;
+    updateTemplates(messaging.templates.map(t => t.id === selected.id ? { ...t, ...changes } : t));
+  };
+
+  const handleAdd = (template: MessageTemplate) => {
+    updateTemplates([...messaging.templates, template]);
+    setSelectedId(template.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Excluir o modelo "${selected.name}"?`)) return;
+    const remaining = messaging.templates.filter(t => t.id !== selected.id);
+    updateTemplates(remaining);
+    setSelectedId(remaining[0]?.id ?? '');
+  };
+
+  // Inserts at the cursor and puts the cursor right after the placeholder.
+  const insertVariable = (name: string) => {
+    if (!selected) return;
+    const textarea = bodyRef.current;
+    const placeholder = `{${name}}`;
+    const start = textarea?.selectionStart ?? selected.body.length;
+    const end = textarea?.selectionEnd ?? selected.body.length;
+    updateSelected({ body: selected.body.slice(0, start) + placeholder + selected.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const preview = selected && previewParticipant
+    ? renderTemplate(selected.body, buildTemplateValues(previewParticipant, cohort, { groupName, pixLink: messaging.pixLink, pix: messaging.pix }))
+    : '';
+
+  const inputClass = "px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-2 focus:ring-violet-200 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <FileText size={22} className="text-violet-600" /> Modelos de Mensagem
+        </h3>
+        <p className="text-sm text-slate-500 mb-4">Usados como referência de estilo pela IA e enviados no lugar dela quando ela não responde.</p>
+
+        <label className="flex items-center gap-2 text-sm text-slate-600 mb-4">
+          <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider whitespace-nowrap">Link de pagamento</span>
+          <input
+            type="text"
+            value={messaging.pixLink}
+            placeholder="Usado em {link_pix} quando não há chave Pix cadastrada"
+            onChange={(e) => onChange({ ...messaging, pixLink: e.target.value })}
+            className={`${inputClass} flex-1`}
+          />
+        </label>
+
+        <div className="flex gap-4 flex-1 min-h-0">
+          <div className="w-56 flex-shrink-0 flex flex-col border border-indigo-100 rounded-xl overflow-hidden">
+            <div className="flex-1 overflow-y-auto">
+              {SITUATIONS.map(situation => (
+                <div key={situation}>
+                  <p className="px-3 pt-3 pb-1 text-[10px] font-bold text-indigo-400 uppercase tracking-wider">{SITUATION_LABELS[situation]}</p>
+                  {messaging.templates.filter(t => t.situation === situation).map(t => (
+                    <button
+                      key={t.id}
+                      onClick={() => setSelectedId(t.id)}
+                      className={`w-full text-left px-3 py-2 text-sm truncate transition-colors ${
+                        t.id === selectedId ? 'bg-violet-50 text-violet-700 font-semibold' : 'text-slate-600 hover:bg-indigo-50'
+                      }`}
+                    >
+                      {t.name || 'Sem nome'}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => handleAdd(createTemplate(selected?.situation ?? 'reminder'))}
+              className="flex items-center justify-center gap-1.5 px-3 py-2.5 border-t border-indigo-100 text-sm font-semibold text-violet-600 hover:bg-violet-50 transition-colors"
+            >
+              <Plus size={16} /> Novo modelo
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 flex flex-col gap-3 min-w-0 overflow-y-auto">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+                <select
+                  value={selected.situation}
+                  onChange={(e) => updateSelected({ situation: e.target.value as MessageSituation })}
+                  className={inputClass}
+                >
+                  {SITUATIONS.map(s => <option key={s} value={s}>{SITUATION_LABELS[s]}</option>)}
+                </select>
+                <button
+                  onClick={() => handleAdd({ ...selected, id: uuidv4(), name: `${selected.name} (cópia)` })}
+                  title="Duplicar"
+                  className="p-2 rounded-xl text-indigo-400 hover:bg-indigo-50 transition-colors"
+                >
+                  <Copy size={16} />
+                </button>
+                <button onClick={handleDelete} title="Excluir" className="p-2 rounded-xl text-rose-400 hover:bg-rose-50 transition-colors">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              <textarea
+                ref={bodyRef}
+                value={selected.body}
+                onChange={(e) => updateSelected({ body: e.target.value })}
+                rows={6}
+                className={`${inputClass} font-mono resize-y`}
+              />
+
+              <div className="flex flex-wrap gap-1.5">
+                {TEMPLATE_VARIABLES.map(v => (
+                  <button
+                    key={v.name}
+                    onClick={() => insertVariable(v.name)}
+                    title={v.description}
+                    className="px-2 py-1 rounded-lg bg-indigo-50 text-indigo-600 text-xs font-mono hover:bg-indigo-100 transition-colors"
+                  >
+                    {`{${v.name}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-indigo-300">
+                Trechos condicionais: <code>{'{se valor_vencido}...{/se}'}</code> só aparece quando há valor vencido; <code>{'{se !link_pix}...{/se}'}</code> quando não há Pix.
+              </p>
+
+              <div className="border border-indigo-100 rounded-xl p-3 bg-indigo-50/40">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Prévia para</span>
+                  <select value={previewId} onChange={(e) => setPreviewId(e.target.value)} className={`${inputClass} py-1 flex-1 min-w-0`}>
+                    {candidates.map(p => <option key={p.id} value={p.id}>{p.name || p.whatsapp}</option>)}
+                  </select>
+                </div>
+                {previewParticipant ? (
+                  <p className="text-sm text-slate-700 whitespace-pre-wrap">{preview}</p>
+                ) : (
+                  <p className="text-sm text-indigo-300">Preencha algum participante na planilha para ver a prévia.</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="flex-1 flex items-center justify-center text-sm text-indigo-300">Crie um modelo para começar.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-xl text-sm font-bold shadow-md transition-all"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesModal;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, AlertTriangle } from 'lucide-react';
+import { Group, Participant } from '../types';
+import { TransferMode } from '../utils/groups';
+
+interface TransferModalProps {
+  participants: Participant[];
+  groups: Group[];
+  sourceGroupId: string;
+  onConfirm: (targetGroupId: string, mode: TransferMode) => void;
+  onClose: () => void;
+}
+
+const TransferModal: React.FC<TransferModalProps> = ({ participants, groups, sourceGroupId, onConfirm, onClose }) => {
+  const targets = groups.filter(g => g.id !== sourceGroupId && !g.archived);
+  const [targetId, setTargetId] = useState(targets[0]?.id ?? '');
+  const [mode, setMode] = useState<TransferMode>('move');
+
+  const source = groups.find(g => g.id === sourceGroupId);
+  const target = groups.find(g => g.id === targetId);
+  const truncates = !!source && !!target && target.settings.periodCount < source.settings.periodCount;
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 px-4 py-3 rounded-xl border text-sm font-semibold transition-all ${
+      selected
+        ? 'bg-violet-600 border-violet-600 text-white shadow-md shadow-violet-200'
+        : 'bg-white border-indigo-200 text-indigo-700 hover:bg-indigo-50'
+    }`;
+
+  const title = participants.length === 1
+    ? participants[0].name || participants[0].whatsapp || 'Participante'
+    : `${participants.length} participantes`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in duration-200 border border-white/20">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <ArrowRightLeft size={22} className="text-violet-600" /> Mover ou Copiar
+        </h3>
+        <p className="text-sm text-slate-500 mb-5 truncate">{title}</p>
+
+        {targets.length === 0 ? (
+          <p className="text-sm text-indigo-400 mb-6">Crie outra turma para poder mover ou copiar participantes.</p>
+        ) : (
+          <>
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Ação</p>
+            <div className="flex gap-2 mb-5">
+              <button onClick={() => setMode('move')} className={optionClass(mode === 'move')}>Mover</button>
+              <button onClick={() => setMode('copy')} className={optionClass(mode === 'copy')}>Copiar</button>
+            </div>
+
+            <p className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Turma de destino</p>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="w-full px-3 py-2.5 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 outline-none text-sm text-slate-700 mb-4"
+            >
+              {targets.map(g => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </select>
+
+            {truncates && (
+              <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3 flex gap-2 mb-4">
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                A turma de destino tem {target!.settings.periodCount} períodos; os pagamentos além disso não serão levados.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 mt-2">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onConfirm(targetId, mode)}
+            disabled={!targetId}
+            className="px-5 py-2.5 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+          >
+            Confirmar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferModal;
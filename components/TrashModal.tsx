@@ -0,0 +1,86 @@
+import React from 'react';
+import { Trash2, RotateCcw, X } from 'lucide-react';
+import { Participant } from '../types';
+import { getStatusLabel } from '../utils/participant';
+
+interface TrashModalProps {
+  participants: Participant[];
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const formatDeletedAt = (timestamp?: string) =>
+  timestamp ? new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+
+const TrashModal: React.FC<TrashModalProps> = ({ participants, onRestore, onPurge, onClose }) => {
+  const ordered = [...participants].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  const allIds = ordered.map(p => p.id);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-xl w-full max-h-[85vh] flex flex-col p-6 animate-in zoom-in duration-200 border border-white/20">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Trash2 size={22} className="text-rose-500" /> Lixeira
+          </h3>
+          <button onClick={onClose} className="text-indigo-300 hover:text-indigo-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 border border-indigo-100 rounded-xl divide-y divide-indigo-50">
+          {ordered.length === 0 ? (
+            <p className="px-4 py-10 text-center text-sm text-indigo-300">A lixeira está vazia.</p>
+          ) : (
+            ordered.map(p => (
+              <div key={p.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-700 truncate">{p.name || '—'} <span className="text-slate-400 font-normal">{p.whatsapp}</span></p>
+                  <p className="text-[11px] text-indigo-300">Removido em {formatDeletedAt(p.deletedAt)} · {getStatusLabel(p)}</p>
+                </div>
+                <button
+                  onClick={() => onRestore([p.id])}
+                  title="Restaurar"
+                  className="p-1.5 rounded-lg text-emerald-500 hover:bg-emerald-50 transition-colors"
+                >
+                  <RotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm('Excluir definitivamente este participante?')) onPurge([p.id]);
+                  }}
+                  title="Excluir definitivamente"
+                  className="p-1.5 rounded-lg text-rose-400 hover:bg-rose-50 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 mt-6">
+          <button
+            onClick={() => {
+              if (window.confirm('Excluir definitivamente todos os participantes da lixeira?')) onPurge(allIds);
+            }}
+            disabled={ordered.length === 0}
+            className="px-5 py-2.5 text-rose-600 hover:bg-rose-50 rounded-xl text-sm font-semibold transition-colors disabled:opacity-40"
+          >
+            Esvaziar lixeira
+          </button>
+          <button
+            onClick={() => onRestore(allIds)}
+            disabled={ordered.length === 0}
+            className="px-5 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+          >
+            Restaurar todos
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Loader2, Trash2, KeyRound, UserPlus, X } from 'lucide-react';
+import { AuthUser, UserRole } from '../types';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../utils/permissions';
+import { createUser, listUsers, removeUser, updateUser } from '../services/authService';
+
+interface UsersModalProps {
+  currentUser: AuthUser;
+  onClose: () => void;
+}
+
+const UsersModal: React.FC<UsersModalProps> = ({ currentUser, onClose }) => {
+  const [users, setUsers] = useState<AuthUser[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('assistant');
+
+  useEffect(() => {
+    listUsers().then(setUsers).catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Runs one request at a time and reloads the list afterwards.
+  const run = async (task: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+      setUsers(await listUsers());
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => createUser(username.trim(), password, role))) {
+      setUsername('');
+      setPassword('');
+    }
+  };
+
+  const handleResetPassword = (user: AuthUser) => {
+    const next = window.prompt(`Nova senha para ${user.username}:`);
+    if (next) run(() => updateUser(user.id, { password: next }));
+  };
+
+  const handleRemove = (user: AuthUser) => {
+    if (window.confirm(`Remover o usuário ${user.username}?`)) run(() => removeUser(user.id));
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-white border border-indigo-200 rounded-xl focus:ring-4 focus:ring-violet-200 focus:border-violet-400 outline-none text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 animate-in zoom-in duration-200 border border-white/20 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Users size={22} className="text-violet-600" /> Usuários
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!users && !error && <div className="flex justify-center py-6"><Loader2 className="animate-spin text-purple-600" size={28} /></div>}
+
+        {users && (
+          <ul className="divide-y divide-indigo-50 border border-indigo-100 rounded-xl mb-5">
+            {users.map(user => (
+              <li key={user.id} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 text-sm font-semibold text-slate-700 truncate">
+                  {user.username}
+                  {user.id === currentUser.id && <span className="ml-1 text-xs font-normal text-indigo-400">(você)</span>}
+                </span>
+                <select
+                  value={user.role}
+                  disabled={isBusy}
+                  onChange={(e) => run(() => updateUser(user.id, { role: e.target.value as UserRole }))}
+                  className="px-2 py-1 bg-white border border-indigo-200 rounded-lg text-xs text-slate-700 outline-none"
+                >
+                  {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={() => handleResetPassword(user)}
+                  disabled={isBusy}
+                  title="Trocar senha"
+                  className="p-1.5 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <KeyRound size={16} />
+                </button>
+                <button
+                  onClick={() => handleRemove(user)}
+                  disabled={isBusy || user.id === currentUser.id}
+                  title={user.id === currentUser.id ? 'Você não pode remover a própria conta' : 'Remover usuário'}
+                  className="p-1.5 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors disabled:opacity-30"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <h4 className="text-xs font-bold text-indigo-400 uppercase tracking-wider">Novo usuário</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Usuário"
+              autoComplete="off"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              placeholder="Senha"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <select value={role} onChange={(e) => setRole(e.target.value as UserRole)} className={inputClass}>
+            {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+          <p className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[role]}</p>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy || !username.trim() || !password}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-violet-600 to-indigo-600 text-white hover:from-violet-700 hover:to-indigo-700 rounded-xl text-sm font-bold shadow-md disabled:opacity-60 transition-all"
+          >
+            {isBusy ? <Loader2 className="animate-spin" size={16} /> : <UserPlus size={16} />} Adicionar
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default UsersModal;
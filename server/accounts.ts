@@ -0,0 +1,170 @@
+import crypto from 'node:crypto';
+import Database from 'better-sqlite3';
+import { AuthUser, UserRole } from '../types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    role TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    token TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_user ON sessions (user_id);
+`;
+
+const SESSION_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 6;
+
+interface StoredUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  password_hash: string;
+}
+
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+// scrypt with a per-user salt, stored as "salt:hash" in hex.
+const hashPassword = (password: string) => {
+  const salt = crypto.randomBytes(16);
+  return `${salt.toString('hex')}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+};
+
+const verifyPassword = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+const toUser = ({ id, username, role }: StoredUser): AuthUser => ({ id, username, role });
+
+const validateCredentials = (username: string, password: string) => {
+  if (!/^[\p{L}\p{N}._-]{2,40}$/u.test(username)) {
+    throw new AccountError("O usuário deve ter de 2 a 40 letras, números, ponto, hífen ou sublinhado.");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+  }
+};
+
+export type Accounts = ReturnType<typeof openAccounts>;
+
+export const openAccounts = (db: Database.Database) => {
+  db.exec(SCHEMA);
+
+  const statements = {
+    count: db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM users'),
+    countRole: db.prepare<[string], { count: number }>('SELECT COUNT(*) AS count FROM users WHERE role = ?'),
+    all: db.prepare<[], StoredUser>('SELECT * FROM users ORDER BY username'),
+    byId: db.prepare<[string], StoredUser>('SELECT * FROM users WHERE id = ?'),
+    byName: db.prepare<[string], StoredUser>('SELECT * FROM users WHERE username = ?'),
+    insert: db.prepare('INSERT INTO users (id, username, role, password_hash, created_at) VALUES (?, ?, ?, ?, ?)'),
+    setRole: db.prepare('UPDATE users SET role = ? WHERE id = ?'),
+    setPassword: db.prepare('UPDATE users SET password_hash = ? WHERE id = ?'),
+    remove: db.prepare('DELETE FROM users WHERE id = ?'),
+    insertSession: db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)'),
+    session: db.prepare<[string, string], StoredUser>(
+      'SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id WHERE sessions.token = ? AND sessions.expires_at > ?'
+    ),
+    removeSession: db.prepare('DELETE FROM sessions WHERE token = ?'),
+    removeUserSessions: db.prepare('DELETE FROM sessions WHERE user_id = ?'),
+    removeExpired: db.prepare('DELETE FROM sessions WHERE expires_at <= ?')
+  };
+
+  const needsSetup = () => statements.count.get()!.count === 0;
+
+  const createUser = (username: string, password: string, role: UserRole): AuthUser => {
+    validateCredentials(username, password);
+    if (statements.byName.get(username)) throw new AccountError("Já existe um usuário com esse nome.");
+    const id = crypto.randomUUID();
+    statements.insert.run(id, username, role, hashPassword(password), new Date().toISOString());
+    return { id, username, role };
+  };
+
+  // There must always be someone who can manage users.
+  const assertTreasurerRemains = (user: StoredUser) => {
+    if (user.role === 'treasurer' && statements.countRole.get('treasurer')!.count <= 1) {
+      throw new AccountError("É preciso manter pelo menos um tesoureiro.");
+    }
+  };
+
+  const requireUser = (id: string) => {
+    const user = statements.byId.get(id);
+    if (!user) throw new AccountError("Usuário não encontrado.");
+    return user;
+  };
+
+  const startSession = (user: AuthUser) => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expires = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+    statements.removeExpired.run(new Date().toISOString());
+    statements.insertSession.run(token, user.id, expires.toISOString());
+    return token;
+  };
+
+  return {
+    needsSetup,
+
+    // Only while there are no accounts: the first one is a treasurer.
+    setup: db.transaction((username: string, password: string) => {
+      if (!needsSetup()) throw new AccountError("O primeiro usuário já foi criado.");
+      const user = createUser(username, password, 'treasurer');
+      return { user, token: startSession(user) };
+    }),
+
+    // Null when the username or password is wrong, without saying which.
+    login: (username: string, password: string) => {
+      const stored = statements.byName.get(username);
+      if (!stored || !verifyPassword(password, stored.password_hash)) return null;
+      const user = toUser(stored);
+      return { user, token: startSession(user) };
+    },
+
+    logout: (token: string) => {
+      statements.removeSession.run(token);
+    },
+
+    userForToken: (token: string): AuthUser | null => {
+      const stored = statements.session.get(token, new Date().toISOString());
+      return stored ? toUser(stored) : null;
+    },
+
+    listUsers: () => statements.all.all().map(toUser),
+
+    createUser,
+
+    updateUser: db.transaction((id: string, changes: { role?: UserRole; password?: string }) => {
+      const user = requireUser(id);
+      if (changes.role && changes.role !== user.role) {
+        assertTreasurerRemains(user);
+        statements.setRole.run(changes.role, id);
+      }
+      if (changes.password !== undefined) {
+        validateCredentials(user.username, changes.password);
+        statements.setPassword.run(hashPassword(changes.password), id);
+        statements.removeUserSessions.run(id);
+      }
+      return toUser(requireUser(id));
+    }),
+
+    removeUser: db.transaction((id: string) => {
+      const user = requireUser(id);
+      assertTreasurerRemains(user);
+      statements.removeUserSessions.run(id);
+      statements.remove.run(id);
+    })
+  };
+};
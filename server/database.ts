@@ -0,0 +1,327 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { LedgerEvent } from '../types';
+import {
+  ChangeResult,
+  ChangeSet,
+  DeletedRow,
+  FieldsRow,
+  GroupChange,
+  GroupRow,
+  MessagingRow,
+  ParticipantChange,
+  ParticipantRow,
+  RemoteDocument,
+  WorkspaceUpload,
+  isDeletedRow
+} from '../services/apiProtocol';
+
+// Rows keep the app's objects as JSON; only what the server filters or orders on
+// gets its own column. The document shape is versioned by the app (schemaVersion
+// in meta, written only by a full upload), the table layout by SQLite's user_version:
+//   1 - meta, cohort_groups, participants, ledger
+//   2 - who last changed each group and participant
+const TABLE_MIGRATIONS = [
+  `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS cohort_groups (
+    id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS participants (
+    id TEXT PRIMARY KEY,
+    group_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS participants_group ON participants (group_id);
+  CREATE TABLE IF NOT EXISTS ledger (
+    id TEXT PRIMARY KEY,
+    participant_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ledger_participant ON ledger (participant_id);
+  `,
+  `
+  ALTER TABLE cohort_groups ADD COLUMN updated_by TEXT;
+  ALTER TABLE cohort_groups ADD COLUMN updated_at TEXT;
+  ALTER TABLE participants ADD COLUMN updated_by TEXT;
+  ALTER TABLE participants ADD COLUMN updated_at TEXT;
+  `
+];
+
+const migrateTables = (db: Database.Database) => {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  TABLE_MIGRATIONS.slice(current).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${current + index + 1}`);
+    })();
+  });
+};
+
+interface StoredRow {
+  id: string;
+  version: number;
+  position: number;
+  data: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+interface StoredParticipant extends StoredRow {
+  group_id: string;
+}
+
+const attribution = (row: StoredRow) =>
+  row.updated_by ? { updatedBy: row.updated_by, updatedAt: row.updated_at ?? undefined } : {};
+
+const toGroupRow = (row: StoredRow): GroupRow => ({
+  id: row.id,
+  version: row.version,
+  position: row.position,
+  data: JSON.parse(row.data),
+  ...attribution(row)
+});
+
+const toParticipantRow = (row: StoredParticipant): ParticipantRow => ({
+  id: row.id,
+  version: row.version,
+  groupId: row.group_id,
+  position: row.position,
+  data: JSON.parse(row.data),
+  ...attribution(row)
+});
+
+const deletedRow = (id: string): DeletedRow => ({ id, version: 0, deleted: true });
+
+// Meta rows that hold a versioned settings blob of the workspace.
+type SettingsKey = 'messaging' | 'fields';
+type SettingsRow<K extends SettingsKey> = NonNullable<RemoteDocument[K]>;
+
+export type TeamDatabase = ReturnType<typeof openTeamDatabase>;
+
+export const openTeamDatabase = (file: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrateTables(db);
+
+  const statements = {
+    getMeta: db.prepare<[string], { version: number; data: string }>('SELECT version, data FROM meta WHERE key = ?'),
+    putMeta: db.prepare('INSERT OR REPLACE INTO meta (key, version, data) VALUES (?, ?, ?)'),
+    allGroups: db.prepare<[], StoredRow>('SELECT * FROM cohort_groups ORDER BY position'),
+    getGroup: db.prepare<[string], StoredRow>('SELECT * FROM cohort_groups WHERE id = ?'),
+    putGroup: db.prepare(
+      'INSERT OR REPLACE INTO cohort_groups (id, version, position, data, updated_by, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ),
+    moveGroup: db.prepare('UPDATE cohort_groups SET position = ? WHERE id = ?'),
+    deleteGroup: db.prepare('DELETE FROM cohort_groups WHERE id = ?'),
+    allParticipants: db.prepare<[], StoredParticipant>('SELECT * FROM participants ORDER BY group_id, position'),
+    getParticipant: db.prepare<[string], StoredParticipant>('SELECT * FROM participants WHERE id = ?'),
+    putParticipant: db.prepare(
+      'INSERT OR REPLACE INTO participants (id, group_id, version, position, data, updated_by, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ),
+    moveParticipant: db.prepare('UPDATE participants SET group_id = ?, position = ? WHERE id = ?'),
+    deleteParticipant: db.prepare('DELETE FROM participants WHERE id = ?'),
+    groupParticipants: db.prepare<[string], StoredParticipant>('SELECT * FROM participants WHERE group_id = ? ORDER BY position'),
+    deleteGroupParticipants: db.prepare('DELETE FROM participants WHERE group_id = ?'),
+    allLedger: db.prepare<[], { data: string }>('SELECT data FROM ledger ORDER BY timestamp'),
+    participantLedger: db.prepare<[string], { data: string }>('SELECT data FROM ledger WHERE participant_id = ? ORDER BY timestamp'),
+    addEvent: db.prepare('INSERT OR IGNORE INTO ledger (id, participant_id, timestamp, data) VALUES (?, ?, ?, ?)')
+  };
+
+  // Workspace-wide settings, each kept as one versioned meta row.
+  const readSettings = <K extends SettingsKey>(key: K): SettingsRow<K> | null => {
+    const row = statements.getMeta.get(key);
+    return row ? { version: row.version, data: JSON.parse(row.data) } as SettingsRow<K> : null;
+  };
+
+  const readMessaging = (): MessagingRow | null => readSettings('messaging');
+  const readFields = (): FieldsRow | null => readSettings('fields');
+
+  const readSchemaVersion = (): number | null => {
+    const row = statements.getMeta.get('schemaVersion');
+    return row ? JSON.parse(row.data) : null;
+  };
+
+  const readDocument = (): RemoteDocument => ({
+    schemaVersion: readSchemaVersion(),
+    groups: statements.allGroups.all().map(toGroupRow),
+    participants: statements.allParticipants.all().map(toParticipantRow),
+    ledger: statements.allLedger.all().map(row => JSON.parse(row.data)),
+    messaging: readMessaging(),
+    fields: readFields()
+  });
+
+  const appendEvents = (events: LedgerEvent[]) => {
+    events.forEach(event => {
+      statements.addEvent.run(event.id, event.participantId, event.timestamp, JSON.stringify(event));
+    });
+  };
+
+  // A write whose data matches the stored row is not a conflict even when its
+  // version is stale (a retried request, or a row that only moved). Moving is
+  // last-write-wins and does not bump the version, so reordering the sheet does
+  // not make every other client's rows conflict.
+  const applyGroup = (change: GroupChange, author: string, result: ChangeResult) => {
+    const current = statements.getGroup.get(change.id);
+    if (isDeletedRow(change)) {
+      if (!current) return;
+      if (current.version !== change.version) {
+        result.conflicts.groups.push(toGroupRow(current));
+        return;
+      }
+      statements.deleteGroup.run(change.id);
+      statements.deleteGroupParticipants.run(change.id);
+      return;
+    }
+
+    const data = JSON.stringify(change.data);
+    if (current && current.data === data) {
+      if (current.position !== change.position) statements.moveGroup.run(change.position, change.id);
+      result.versions.groups[change.id] = current.version;
+      return;
+    }
+    if ((current?.version ?? 0) !== change.version) {
+      result.conflicts.groups.push(current ? toGroupRow(current) : deletedRow(change.id));
+      return;
+    }
+    const version = change.version + 1;
+    statements.putGroup.run(change.id, version, change.position, data, author, new Date().toISOString());
+    result.versions.groups[change.id] = version;
+  };
+
+  const applyParticipant = (change: ParticipantChange, author: string, result: ChangeResult) => {
+    const current = statements.getParticipant.get(change.id);
+    if (isDeletedRow(change)) {
+      if (!current) return;
+      if (current.version !== change.version) {
+        result.conflicts.participants.push(toParticipantRow(current));
+        return;
+      }
+      statements.deleteParticipant.run(change.id);
+      return;
+    }
+
+    const data = JSON.stringify(change.data);
+    if (current && current.data === data) {
+      if (current.position !== change.position || current.group_id !== change.groupId) {
+        statements.moveParticipant.run(change.groupId, change.position, change.id);
+      }
+      result.versions.participants[change.id] = current.version;
+      return;
+    }
+    if ((current?.version ?? 0) !== change.version) {
+      result.conflicts.participants.push(current ? toParticipantRow(current) : deletedRow(change.id));
+      return;
+    }
+    const version = change.version + 1;
+    statements.putParticipant.run(change.id, change.groupId, version, change.position, data, author, new Date().toISOString());
+    result.versions.participants[change.id] = version;
+  };
+
+  const applySettings = <K extends SettingsKey>(key: K, change: SettingsRow<K>, result: ChangeResult) => {
+    const current = readSettings(key);
+    const data = JSON.stringify(change.data);
+    if (current && JSON.stringify(current.data) === data) {
+      result.versions[key] = current.version;
+      return;
+    }
+    if ((current?.version ?? 0) !== change.version) {
+      if (current) result.conflicts[key] = current;
+      return;
+    }
+    statements.putMeta.run(key, change.version + 1, data);
+    result.versions[key] = change.version + 1;
+  };
+
+  // Rows without a conflict are written even when others in the set conflict;
+  // the client takes the server's copy for the rest. `author` is the username
+  // recorded on every row written.
+  const applyChanges = db.transaction((changes: ChangeSet, author: string): ChangeResult => {
+    const result: ChangeResult = {
+      versions: { groups: {}, participants: {} },
+      conflicts: { groups: [], participants: [] }
+    };
+    // Participants first: rows moved out of a group deleted in the same set must
+    // be in their new group before the group's leftovers are removed.
+    changes.participants.forEach(change => applyParticipant(change, author, result));
+    changes.groups.forEach(change => applyGroup(change, author, result));
+    appendEvents(changes.ledger);
+    if (changes.messaging) applySettings('messaging', changes.messaging, result);
+    if (changes.fields) applySettings('fields', changes.fields, result);
+    return result;
+  });
+
+  // Versions keep counting up from the replaced rows, so a client still holding
+  // an older copy of a row gets a conflict instead of overwriting the restore.
+  const replaceDocument = db.transaction((upload: WorkspaceUpload, author: string) => {
+    const now = new Date().toISOString();
+    const groupVersions = new Map(statements.allGroups.all().map(row => [row.id, row.version]));
+    const participantVersions = new Map(statements.allParticipants.all().map(row => [row.id, row.version]));
+    const messagingVersion = readMessaging()?.version ?? 0;
+    const fieldsVersion = readFields()?.version ?? 0;
+
+    // The ledger is append-only: a restore adds the upload's events to the stored ones.
+    db.exec('DELETE FROM cohort_groups; DELETE FROM participants;');
+    statements.putMeta.run('schemaVersion', 1, JSON.stringify(upload.schemaVersion));
+    statements.putMeta.run('messaging', messagingVersion + 1, JSON.stringify(upload.messaging));
+    statements.putMeta.run('fields', fieldsVersion + 1, JSON.stringify(upload.fields));
+    upload.groups.forEach(({ participants, ...group }, position) => {
+      statements.putGroup.run(group.id, (groupVersions.get(group.id) ?? 0) + 1, position, JSON.stringify(group), author, now);
+      participants.forEach((participant, index) => {
+        const version = (participantVersions.get(participant.id) ?? 0) + 1;
+        statements.putParticipant.run(participant.id, group.id, version, index, JSON.stringify(participant), author, now);
+      });
+    });
+    appendEvents(upload.ledger);
+  });
+
+  const readGroups = () => statements.allGroups.all().map(toGroupRow);
+
+  const readParticipant = (id: string) => {
+    const row = statements.getParticipant.get(id);
+    return row ? toParticipantRow(row) : null;
+  };
+
+  const readParticipantLedger = (id: string): LedgerEvent[] =>
+    statements.participantLedger.all(id).map(row => JSON.parse(row.data));
+
+  const readGroupRow = (id: string) => {
+    const row = statements.getGroup.get(id);
+    return row ? toGroupRow(row) : null;
+  };
+
+  const readGroup = (id: string) => {
+    const row = readGroupRow(id);
+    return row ? { ...row, participants: statements.groupParticipants.all(id).map(toParticipantRow) } : null;
+  };
+
+  return {
+    readSchemaVersion,
+    readDocument,
+    readGroups,
+    readGroupRow,
+    readGroup,
+    readMessaging,
+    readFields,
+    readParticipant,
+    readParticipantLedger,
+    applyChanges,
+    replaceDocument,
+    appendEvents: db.transaction(appendEvents),
+    // Shared with the accounts tables (server/accounts.ts).
+    connection: db,
+    close: () => db.close()
+  };
+};
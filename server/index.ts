@@ -0,0 +1,429 @@
+import http from 'node:http';
+import path from 'node:path';
+import { CompletionOptions, DEFAULT_MODELS, SERVER_MODELS, createGeminiModel } from '../services/aiProviders';
+import { ChangeSet, GroupChange, ParticipantChange, WorkspaceUpload, toDocument } from '../services/apiProtocol';
+import { CURRENT_SCHEMA_VERSION, migrateDocument } from '../services/migrations';
+import { AuthUser, LedgerEvent, UserRole } from '../types';
+import { Permission, ROLES, hasPermission } from '../utils/permissions';
+import { AccountError, openAccounts } from './accounts';
+import { openTeamDatabase } from './database';
+import { attributeEvents, findMissingPermission, forbiddenMessage, redactDocument } from './permissions';
+
+// Team server: one SQLite file shared by everyone who points the app at it
+// (VITE_API_URL). Run with `npm run server`. Every route except login needs a
+// session, and writes are limited by the account's role (utils/permissions.ts).
+const PORT = Number(process.env.PORT ?? 3001);
+const DB_FILE = path.resolve(process.env.HUBX_DB_FILE ?? 'data/hubx.sqlite');
+// Kept here so the key never reaches the browser; see the 'server' AI provider.
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY ?? '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly body?: object) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const database = openTeamDatabase(DB_FILE);
+const accounts = openAccounts(database.connection);
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Requisição grande demais."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve(null);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "JSON inválido."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// Light structural checks; the app normalizes the rows it loads anyway.
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isChange = (value: unknown): value is Record<string, unknown> =>
+  isObject(value) && typeof value.id === 'string' && typeof value.version === 'number' &&
+  (value.deleted === true || (isObject(value.data) && typeof value.position === 'number'));
+
+const isEvent = (value: unknown): value is LedgerEvent =>
+  isObject(value) && typeof value.id === 'string' && typeof value.participantId === 'string' && typeof value.timestamp === 'string';
+
+const requireEvents = (value: unknown): LedgerEvent[] => {
+  if (!Array.isArray(value) || !value.every(isEvent)) throw new HttpError(400, "Eventos do histórico inválidos.");
+  return value;
+};
+
+const isChangeSet = (body: unknown): body is ChangeSet =>
+  isObject(body) && typeof body.schemaVersion === 'number' &&
+  Array.isArray(body.groups) && body.groups.every(isChange) &&
+  Array.isArray(body.participants) &&
+  body.participants.every(p => isChange(p) && (p.deleted === true || typeof p.groupId === 'string'));
+
+const requireChangeSet = (body: unknown): ChangeSet => {
+  if (!isChangeSet(body)) throw new HttpError(400, "Alterações inválidas.");
+  requireEvents(body.ledger);
+  if (body.messaging !== undefined && !(isObject(body.messaging) && typeof body.messaging.version === 'number')) {
+    throw new HttpError(400, "Configuração de mensagens inválida.");
+  }
+  if (body.fields !== undefined && !(isObject(body.fields) && typeof body.fields.version === 'number')) {
+    throw new HttpError(400, "Configuração de campos inválida.");
+  }
+  return body;
+};
+
+const isUpload = (body: unknown): body is WorkspaceUpload =>
+  isObject(body) && typeof body.schemaVersion === 'number' && isObject(body.messaging) && isObject(body.fields) &&
+  Array.isArray(body.groups) && body.groups.length > 0 &&
+  body.groups.every(g => isObject(g) && typeof g.id === 'string' && Array.isArray(g.participants));
+
+const requireUpload = (body: unknown): WorkspaceUpload => {
+  if (!isUpload(body)) throw new HttpError(400, "Workspace inválido.");
+  requireEvents(body.ledger);
+  return body;
+};
+
+const requireVersion = (url: URL) => {
+  const version = Number(url.searchParams.get('version'));
+  if (!Number.isInteger(version)) throw new HttpError(400, "Informe a versão (?version=).");
+  return version;
+};
+
+const requireCredentials = (body: unknown) => {
+  if (!isObject(body) || typeof body.username !== 'string' || typeof body.password !== 'string') {
+    throw new HttpError(400, "Informe usuário e senha.");
+  }
+  return { username: body.username.trim(), password: body.password };
+};
+
+const requireRole = (value: unknown): UserRole => {
+  if (!ROLES.includes(value as UserRole)) throw new HttpError(400, "Perfil inválido.");
+  return value as UserRole;
+};
+
+interface RequestContext {
+  params: string[];
+  body: unknown;
+  url: URL;
+  // Null only on 'public' routes.
+  user: AuthUser | null;
+  token: string;
+}
+
+const OUTDATED_SERVER = "O servidor está com uma versão mais antiga do app. Atualize o servidor para continuar salvando.";
+const MIGRATION_AUTHOR = '(migração)';
+
+// Documents from older builds are migrated here, with the app's own steps, so
+// no client has to rewrite the team's copy while loading it.
+const migrateUpload = (upload: WorkspaceUpload): WorkspaceUpload => {
+  if (upload.schemaVersion > CURRENT_SCHEMA_VERSION) throw new HttpError(426, OUTDATED_SERVER);
+  if (upload.schemaVersion === CURRENT_SCHEMA_VERSION) return upload;
+  const { groups, ledger, messaging, fields } = migrateDocument(upload, upload.schemaVersion);
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, groups, ledger, messaging, fields };
+};
+
+// Runs once at startup, after the server itself was updated.
+const migrateStoredDocument = () => {
+  const version = database.readSchemaVersion();
+  if (version === null || version === CURRENT_SCHEMA_VERSION) return;
+  const { groups, ledger, messaging, fields } = migrateDocument(toDocument(database.readDocument(), ''), version);
+  database.replaceDocument({ schemaVersion: CURRENT_SCHEMA_VERSION, groups, ledger, messaging, fields }, MIGRATION_AUTHOR);
+  console.log(`Migrated the workspace from schema ${version} to ${CURRENT_SCHEMA_VERSION}`);
+};
+
+// Writes are checked row by row against what the user's role allows, and the
+// ledger events they carry are attributed to the user. A client built for another
+// document version (an old copy still cached by the service worker) must reload
+// first: its rows would be in the wrong shape.
+const applyAs = (user: AuthUser, changes: ChangeSet) => {
+  const schemaVersion = database.readSchemaVersion();
+  if (schemaVersion !== null && changes.schemaVersion > schemaVersion) throw new HttpError(426, OUTDATED_SERVER);
+  if (schemaVersion !== null && changes.schemaVersion !== schemaVersion) {
+    throw new HttpError(426, "Esta versão do app está desatualizada. Recarregue a página para continuar salvando.");
+  }
+  const missing = findMissingPermission(user, changes, database);
+  if (missing) throw new HttpError(403, forbiddenMessage(user, missing));
+  return database.applyChanges({ ...changes, ledger: attributeEvents(changes.ledger, user) }, user.username);
+};
+
+// Single-row writes go through the same versioned path as the app's batches;
+// a conflict answers 409 with the server's copy of the row.
+const applySingle = (user: AuthUser, changes: Partial<ChangeSet>) => {
+  const result = applyAs(user, {
+    schemaVersion: database.readSchemaVersion() ?? 0,
+    groups: [],
+    participants: [],
+    ledger: [],
+    ...changes
+  });
+  const conflict = result.conflicts.groups[0] ?? result.conflicts.participants[0];
+  if (conflict) throw new HttpError(409, "O registro foi alterado por outra pessoa.", { current: conflict });
+  return result.versions;
+};
+
+const completeWithGemini = async (body: unknown) => {
+  if (!GEMINI_API_KEY) throw new HttpError(503, "GEMINI_API_KEY não está configurada no servidor.");
+  if (!isObject(body) || typeof body.prompt !== 'string') throw new HttpError(400, "Informe o prompt.");
+  const name = typeof body.model === 'string' && body.model ? body.model : DEFAULT_MODELS.server;
+  if (!SERVER_MODELS.includes(name)) throw new HttpError(400, `Modelo não permitido no servidor. Use ${SERVER_MODELS.join(', ')}.`);
+  const model = createGeminiModel({
+    provider: 'gemini',
+    model: name,
+    apiKey: GEMINI_API_KEY,
+    baseUrl: ''
+  });
+  const options: CompletionOptions = isObject(body.options) ? body.options : {};
+  return { text: await model.complete(body.prompt, options) };
+};
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  // 'user' is any logged-in account; a permission narrows it to the roles that have it.
+  access: 'public' | 'user' | Permission;
+  handler: (context: RequestContext & { user: AuthUser }) => unknown;
+}
+
+const ROUTES: Route[] = [
+  // Accounts. The first account can be created without logging in, and only then.
+  {
+    method: 'GET',
+    pattern: /^\/api\/auth\/status$/,
+    access: 'public',
+    handler: ({ token }) => ({ needsSetup: accounts.needsSetup(), user: token ? accounts.userForToken(token) : null })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/setup$/,
+    access: 'public',
+    handler: ({ body }) => {
+      const { username, password } = requireCredentials(body);
+      return accounts.setup(username, password);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/login$/,
+    access: 'public',
+    handler: ({ body }) => {
+      const { username, password } = requireCredentials(body);
+      const session = accounts.login(username, password);
+      if (!session) throw new HttpError(401, "Usuário ou senha incorretos.");
+      return session;
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/logout$/,
+    access: 'user',
+    handler: ({ token }) => {
+      accounts.logout(token);
+      return { ok: true };
+    }
+  },
+  { method: 'GET', pattern: /^\/api\/users$/, access: 'manage-users', handler: () => accounts.listUsers() },
+  {
+    method: 'POST',
+    pattern: /^\/api\/users$/,
+    access: 'manage-users',
+    handler: ({ body }) => {
+      const { username, password } = requireCredentials(body);
+      return accounts.createUser(username, password, requireRole(isObject(body) ? body.role : null));
+    }
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/users\/([^/]+)$/,
+    access: 'manage-users',
+    handler: ({ params: [id], body }) => {
+      if (!isObject(body)) throw new HttpError(400, "Nada para alterar.");
+      return accounts.updateUser(id, {
+        role: body.role === undefined ? undefined : requireRole(body.role),
+        password: typeof body.password === 'string' ? body.password : undefined
+      });
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/users\/([^/]+)$/,
+    access: 'manage-users',
+    handler: ({ params: [id], user }) => {
+      if (id === user.id) throw new HttpError(400, "Você não pode remover a própria conta.");
+      accounts.removeUser(id);
+      return { ok: true };
+    }
+  },
+
+  // Workspace
+  {
+    method: 'GET',
+    pattern: /^\/api\/workspace$/,
+    access: 'user',
+    handler: ({ user }) => {
+      const document = database.readDocument();
+      return hasPermission(user.role, 'view-people') ? document : redactDocument(document);
+    }
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/workspace$/,
+    access: 'manage-data',
+    handler: ({ body, user }) => {
+      database.replaceDocument(migrateUpload(requireUpload(body)), user.username);
+      return database.readDocument();
+    }
+  },
+  { method: 'POST', pattern: /^\/api\/changes$/, access: 'user', handler: ({ body, user }) => applyAs(user, requireChangeSet(body)) },
+
+  { method: 'GET', pattern: /^\/api\/groups$/, access: 'user', handler: () => database.readGroups() },
+  {
+    method: 'GET',
+    pattern: /^\/api\/groups\/([^/]+)$/,
+    access: 'view-people',
+    handler: ({ params: [id] }) => {
+      const group = database.readGroup(id);
+      if (!group) throw new HttpError(404, "Turma não encontrada.");
+      return group;
+    }
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/groups\/([^/]+)$/,
+    access: 'user',
+    handler: ({ params: [id], body, user }) => {
+      const change = { ...(isObject(body) ? body : {}), id } as GroupChange;
+      if (!isChange(change)) throw new HttpError(400, "Turma inválida.");
+      return applySingle(user, { groups: [change] });
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/groups\/([^/]+)$/,
+    access: 'user',
+    handler: ({ params: [id], url, user }) => applySingle(user, { groups: [{ id, version: requireVersion(url), deleted: true }] })
+  },
+
+  {
+    method: 'GET',
+    pattern: /^\/api\/participants\/([^/]+)$/,
+    access: 'view-people',
+    handler: ({ params: [id] }) => {
+      const participant = database.readParticipant(id);
+      if (!participant) throw new HttpError(404, "Participante não encontrado.");
+      return participant;
+    }
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/participants\/([^/]+)$/,
+    access: 'user',
+    handler: ({ params: [id], body, user }) => {
+      const change = { ...(isObject(body) ? body : {}), id } as ParticipantChange;
+      if (!isChange(change) || !('groupId' in change) || typeof change.groupId !== 'string') {
+        throw new HttpError(400, "Participante inválido.");
+      }
+      return applySingle(user, { participants: [change] });
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/participants\/([^/]+)$/,
+    access: 'user',
+    handler: ({ params: [id], url, user }) => applySingle(user, { participants: [{ id, version: requireVersion(url), deleted: true }] })
+  },
+
+  // Payments live on the participant row; their history is the ledger.
+  {
+    method: 'GET',
+    pattern: /^\/api\/participants\/([^/]+)\/payments$/,
+    access: 'view-people',
+    handler: ({ params: [id] }) => {
+      const participant = database.readParticipant(id);
+      if (!participant) throw new HttpError(404, "Participante não encontrado.");
+      return { payments: participant.data.payments ?? [], ledger: database.readParticipantLedger(id) };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/ledger$/,
+    access: 'user',
+    handler: ({ body, user }) => {
+      applySingle(user, { ledger: requireEvents(body) });
+      return { ok: true };
+    }
+  },
+
+  { method: 'POST', pattern: /^\/api\/ai\/complete$/, access: 'send-messages', handler: ({ body }) => completeWithGemini(body) }
+];
+
+const readToken = (req: http.IncomingMessage) => {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+};
+
+const authorize = (route: Route, token: string): AuthUser | null => {
+  if (route.access === 'public') return null;
+  const user = token ? accounts.userForToken(token) : null;
+  if (!user) throw new HttpError(401, "Faça login para continuar.");
+  if (route.access !== 'user' && !hasPermission(user.role, route.access)) {
+    throw new HttpError(403, forbiddenMessage(user, route.access));
+  }
+  return user;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    const route = ROUTES.find(r => r.method === req.method && r.pattern.test(url.pathname));
+    if (!route) throw new HttpError(404, "Rota não encontrada.");
+    const token = readToken(req);
+    const user = authorize(route, token);
+    const params = (url.pathname.match(route.pattern) ?? []).slice(1).map(decodeURIComponent);
+    const body = req.method === 'GET' || req.method === 'DELETE' ? null : await readBody(req);
+    // Public handlers do not read `user`.
+    sendJson(res, 200, await route.handler({ params, body, url, user: user!, token }));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message, ...error.body });
+      return;
+    }
+    if (error instanceof AccountError) {
+      sendJson(res, 400, { error: error.message });
+      return;
+    }
+    console.error(`${req.method} ${url.pathname} failed`, error);
+    sendJson(res, 500, { error: "Erro interno do servidor." });
+  }
+});
+
+migrateStoredDocument();
+
+server.listen(PORT, () => {
+  console.log(`HUBX server listening on http://localhost:${PORT} (database: ${DB_FILE})`);
+});
+
+const shutdown = () => {
+  server.close();
+  database.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
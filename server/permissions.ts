@@ -0,0 +1,70 @@
+import { AuthUser, LedgerEvent } from '../types';
+import { ChangeSet, ParticipantRow, RemoteDocument, isDeletedRow } from '../services/apiProtocol';
+import { CONTACT_EVENT_TYPES, PERMISSION_LABELS, Permission, ROLE_LABELS, changesBeyondContact, hasPermission } from '../utils/permissions';
+import { normalizePix } from '../utils/pix';
+import { TeamDatabase } from './database';
+
+export const forbiddenMessage = (user: AuthUser, permission: Permission) =>
+  `Seu perfil (${ROLE_LABELS[user.role]}) não permite ${PERMISSION_LABELS[permission]}.`;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// What each row of a change set needs, judged against the stored copy. Rows
+// identical to it need nothing, so retries and no-op saves never fail.
+const requiredPermissions = (changes: ChangeSet, database: TeamDatabase) => {
+  const required = new Set<Permission>();
+
+  changes.groups.forEach(change => {
+    const current = database.readGroupRow(change.id);
+    if (isDeletedRow(change) ? current : !current || !same(current.data, change.data)) required.add('manage-groups');
+  });
+
+  changes.participants.forEach(change => {
+    const current = database.readParticipant(change.id);
+    if (isDeletedRow(change)) {
+      if (current) required.add('delete');
+      return;
+    }
+    if (current && current.groupId !== change.groupId) required.add('manage-groups');
+    if (current && same(current.data, change.data)) return;
+    if ((current?.data.deletedAt ?? null) !== (change.data.deletedAt ?? null)) required.add('delete');
+    else if (changesBeyondContact(current?.data ?? null, change.data)) required.add('edit-payments');
+    else required.add('edit-contacts');
+  });
+
+  changes.ledger.forEach(event => {
+    required.add(CONTACT_EVENT_TYPES.includes(event.type) ? 'send-messages' : 'edit-payments');
+  });
+
+  if (changes.messaging) {
+    const current = database.readMessaging()?.data;
+    const next = changes.messaging.data;
+    // The Pix key decides where payments go, so it takes a treasurer; templates and the link don't.
+    if (!same(normalizePix(current?.pix), normalizePix(next.pix))) required.add('manage-groups');
+    if (!same(current && { ...current, pix: null }, { ...next, pix: null })) required.add('send-messages');
+  }
+  if (changes.fields && !same(database.readFields()?.data, changes.fields.data)) required.add('manage-groups');
+
+  return required;
+};
+
+// The first permission `user` lacks for `changes`, or null when all is allowed.
+export const findMissingPermission = (user: AuthUser, changes: ChangeSet, database: TeamDatabase): Permission | null =>
+  [...requiredPermissions(changes, database)].find(permission => !hasPermission(user.role, permission)) ?? null;
+
+// Whatever the client sends, history is attributed to the account that sent it.
+export const attributeEvents = (events: LedgerEvent[], user: AuthUser): LedgerEvent[] =>
+  events.map(event => ({ ...event, operator: user.username }));
+
+const redactParticipant = ({ data: { customFields, tags, notes, ...data }, ...row }: ParticipantRow): ParticipantRow => ({
+  ...row,
+  data: { ...data, name: data.name || data.whatsapp ? 'Participante' : '', whatsapp: '' }
+});
+
+// Viewers get the numbers the stats need, without names, phones, custom fields,
+// tags, notes or message texts.
+export const redactDocument = (document: RemoteDocument): RemoteDocument => ({
+  ...document,
+  participants: document.participants.map(redactParticipant),
+  ledger: document.ledger.map(({ note, ...event }) => event)
+});
@@ -0,0 +1,124 @@
+import { GoogleGenAI } from "@google/genai";
+import { apiRequest } from "./apiClient";
+import { UnknownRecord, isRecord } from "../utils/guards";
+
+export type AiProviderKind = 'gemini' | 'server' | 'openai-compatible' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  apiKey: string;
+  // Only for 'openai-compatible', e.g. "http://localhost:11434/v1" for Ollama.
+  baseUrl: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  'gemini': 'Google Gemini',
+  'server': 'Gemini pelo servidor da equipe',
+  'openai-compatible': 'Compatível com OpenAI (Ollama, LM Studio...)',
+  'mock': 'Simulado (sem rede, para testes)'
+};
+
+export const DEFAULT_MODELS: Record<AiProviderKind, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'server': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock'
+};
+
+// The team server only runs these on its key; anything else is refused.
+export const SERVER_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Per browser on purpose: the key is never part of the workspace, backups or the build.
+const AI_SETTINGS_STORAGE_KEY = 'hubx_ai_settings';
+
+const PROVIDERS = Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[];
+
+export const loadAiSettings = (): AiSettings => {
+  let saved: UnknownRecord = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(AI_SETTINGS_STORAGE_KEY) ?? 'null');
+    if (isRecord(parsed)) saved = parsed;
+  } catch (e) {
+    console.error("Failed to load AI settings", e);
+  }
+  const provider = PROVIDERS.find(kind => kind === saved.provider) ?? 'gemini';
+  return {
+    provider,
+    model: typeof saved.model === 'string' && saved.model ? saved.model : DEFAULT_MODELS[provider],
+    apiKey: typeof saved.apiKey === 'string' ? saved.apiKey : '',
+    baseUrl: typeof saved.baseUrl === 'string' && saved.baseUrl ? saved.baseUrl : DEFAULT_BASE_URL
+  };
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface CompletionOptions {
+  // Standard JSON Schema the answer must follow; the answer is then raw JSON text.
+  jsonSchema?: object;
+  // Prefer a quick answer over deep reasoning, where the provider supports it.
+  fast?: boolean;
+}
+
+// A model that turns a prompt into text. Prompts and parsing live in aiService,
+// so adding a provider only means implementing this.
+export interface TextModel {
+  complete: (prompt: string, options?: CompletionOptions) => Promise<string>;
+  // Minimum spacing between requests, to stay under the provider's rate limit.
+  requestIntervalMs: number;
+}
+
+export const createGeminiModel = (settings: AiSettings): TextModel => ({
+  requestIntervalMs: 4000, // free tier: about 15 requests per minute
+  complete: async (prompt, options = {}) => {
+    if (!settings.apiKey) throw new Error("Informe a chave da API do Gemini em Configurar IA.");
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: prompt,
+      config: {
+        ...(options.fast ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+        ...(options.jsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: options.jsonSchema } : {})
+      }
+    });
+    return response.text ?? '';
+  }
+});
+
+// Gemini through the team server (POST /api/ai/complete), which holds the key.
+export const createServerModel = (settings: AiSettings): TextModel => ({
+  requestIntervalMs: 4000,
+  complete: async (prompt, options = {}) => {
+    const { text } = await apiRequest<{ text: string }>('/ai/complete', 'POST', { prompt, options, model: settings.model });
+    return text;
+  }
+});
+
+export const createOpenAiCompatibleModel = (settings: AiSettings): TextModel => ({
+  requestIntervalMs: 500,
+  complete: async (prompt, options = {}) => {
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(options.jsonSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'resposta', schema: options.jsonSchema } } }
+          : {})
+      })
+    });
+    if (!response.ok) throw new Error(`O servidor de IA respondeu ${response.status}.`);
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error("Resposta inesperada do servidor de IA.");
+    return content;
+  }
+});
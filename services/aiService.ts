@@ -0,0 +1,237 @@
+import { CohortSettings, Participant } from "../types";
+import { FREQUENCY_LABELS, createDefaultCohort, getPeriodLabel } from "../utils/cohort";
+import { formatBRL, getParticipantBalance } from "../utils/finance";
+import { AdherenceMetrics, RISK_SEGMENTS, RISK_SEGMENT_LABELS, RiskSegment, formatPercent } from "../utils/metrics";
+import { countUnpaidToDate } from "../utils/campaign";
+import { isRecord } from "../utils/guards";
+import { AiSettings, TextModel, createGeminiModel, createOpenAiCompatibleModel, createServerModel, loadAiSettings, saveAiSettings } from "./aiProviders";
+
+export type RecommendationPriority = 'alta' | 'media' | 'baixa';
+
+const PRIORITIES: RecommendationPriority[] = ['alta', 'media', 'baixa'];
+
+export interface AiRecommendation {
+  title: string;
+  detail: string;
+  priority: RecommendationPriority;
+  // Which locally computed segment the action applies to, if any.
+  segment: RiskSegment | null;
+}
+
+export interface AiAnalysis {
+  summary: string;
+  recommendations: AiRecommendation[];
+}
+
+// What the app asks of an AI. Real models get there through prompts (see
+// createModelProvider); the mock answers straight from the inputs.
+export interface AiProvider {
+  analyze: (metrics: AdherenceMetrics, cohort: CohortSettings) => Promise<AiAnalysis>;
+  writeMessage: (participant: Participant, cohort: CohortSettings, styleExample?: string) => Promise<string>;
+  requestIntervalMs: number;
+}
+
+const ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Resumo de 2 a 3 frases sobre a adimplência.' },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          detail: { type: 'string' },
+          priority: { type: 'string', enum: PRIORITIES },
+          segment: { type: 'string', enum: [...RISK_SEGMENTS, 'nenhum'] }
+        },
+        required: ['title', 'detail', 'priority', 'segment']
+      }
+    }
+  },
+  required: ['summary', 'recommendations']
+};
+
+const parseAnalysis = (text: string): AiAnalysis => {
+  // Some local models wrap JSON in a markdown fence even when asked not to.
+  const parsed: unknown = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '') || '{}');
+  const raw = isRecord(parsed) ? parsed : {};
+  const recommendations: AiRecommendation[] = Array.isArray(raw.recommendations)
+    ? raw.recommendations.flatMap((r: unknown): AiRecommendation[] => {
+      if (!isRecord(r) || typeof r.title !== 'string') return [];
+      return [{
+        title: r.title,
+        detail: typeof r.detail === 'string' ? r.detail : '',
+        priority: PRIORITIES.find(priority => priority === r.priority) ?? 'media',
+        segment: RISK_SEGMENTS.find(segment => segment === r.segment) ?? null
+      }];
+    })
+    : [];
+  return { summary: typeof raw.summary === 'string' ? raw.summary : '', recommendations };
+};
+
+// Only aggregates computed over the full list are sent; the model explains them
+// and points its recommendations at segments, it does not count anything itself.
+const buildAnalysisPrompt = (metrics: AdherenceMetrics, cohort: CohortSettings) => {
+  const periodName = FREQUENCY_LABELS[cohort.frequency].plural.toLowerCase();
+
+  const aggregates = {
+    participantes: metrics.participantCount,
+    periodosTotais: cohort.periodCount,
+    periodosAteHoje: metrics.periodsToDate,
+    taxaDeAdimplencia: formatPercent(metrics.adherenceRate),
+    quitaramTudo: metrics.fullyPaid,
+    taxaPorPeriodo: metrics.periodRates.map(r => ({ periodo: r.label, pagos: r.paid, taxa: formatPercent(r.rate) })),
+    distribuicaoDePagos: metrics.paidDistribution.map((count, paid) => ({ periodosPagos: paid, participantes: count })),
+    segmentos: RISK_SEGMENTS.map(segment => ({ chave: segment, nome: RISK_SEGMENT_LABELS[segment], participantes: metrics.segments[segment].length }))
+  };
+
+  return `
+    Você analisa a adimplência da 'Estratégia HUBX'. O programa tem ${cohort.periodCount} ${periodName} de pagamento, começando em ${getPeriodLabel(cohort, 0)}.
+    Os números abaixo já foram calculados sobre todos os participantes; use-os como estão e não invente outros.
+
+    ${JSON.stringify(aggregates)}
+
+    Escreva um resumo curto e de 3 a 5 recomendações práticas em português.
+    Quando uma recomendação se aplicar a um dos segmentos, informe a chave dele em "segment"; caso contrário use "nenhum".
+    Responda apenas com JSON.
+  `;
+};
+
+const buildMessagePrompt = (participant: Participant, cohort: CohortSettings, styleExample?: string) => {
+  const missedWeeks = participant.weeks.map((paid, index) => paid ? null : getPeriodLabel(cohort, index)).filter(w => w !== null);
+  const periodName = FREQUENCY_LABELS[cohort.frequency].plural.toLowerCase();
+  const balance = getParticipantBalance(participant, cohort);
+
+  return `
+      Escreva uma mensagem curta e profissional de WhatsApp para ${participant.name || 'o participante'}.
+      Contexto: Estratégia HUBX.
+      Situação: ${missedWeeks.length === 0 ? 'Pagamento completo! Agradecer.' : `Pagamento pendente (${missedWeeks.length} de ${cohort.periodCount} ${periodName}): ${missedWeeks.join(', ')}.`}
+      ${balance.pending > 0 ? `Valor em aberto: ${formatBRL(balance.pending)}${balance.overdue > 0 ? ` (${formatBRL(balance.overdue)} já vencido)` : ''}.` : ''}
+      Tom: Amigável, motivador, mas direto. Use emojis.
+      ${styleExample ? `Siga o estilo e a estrutura deste modelo da equipe, sem copiá-lo palavra por palavra:\n"""${styleExample}"""` : ''}
+    `;
+};
+
+const createModelProvider = (model: TextModel): AiProvider => ({
+  requestIntervalMs: model.requestIntervalMs,
+  analyze: async (metrics, cohort) =>
+    parseAnalysis(await model.complete(buildAnalysisPrompt(metrics, cohort), { jsonSchema: ANALYSIS_SCHEMA, fast: true })),
+  writeMessage: async (participant, cohort, styleExample) =>
+    (await model.complete(buildMessagePrompt(participant, cohort, styleExample))).trim()
+});
+
+const MOCK_RECOMMENDATIONS: Record<RiskSegment, Omit<AiRecommendation, 'segment'>> = {
+  'never-paid': { title: 'Contato direto com quem nunca pagou', detail: 'Ligue ou mande áudio confirmando se a pessoa ainda participa.', priority: 'alta' },
+  'at-risk': { title: 'Cobrança firme para quem está em risco', detail: 'Envie o último aviso com o valor vencido e um prazo.', priority: 'alta' },
+  'one-behind': { title: 'Lembrete amigável', detail: 'Um lembrete curto costuma resolver um período atrasado.', priority: 'media' },
+  'paid-up': { title: 'Agradecer quem está em dia', detail: 'Reconhecer quem paga em dia ajuda a manter o ritmo.', priority: 'baixa' }
+};
+
+// Deterministic and offline: same inputs, same output. For development and tests.
+export const mockProvider: AiProvider = {
+  requestIntervalMs: 0,
+  analyze: async (metrics) => ({
+    summary: `[simulado] ${formatPercent(metrics.adherenceRate)} dos pagamentos esperados até hoje foram feitos, entre ${metrics.participantCount} participantes.`,
+    recommendations: RISK_SEGMENTS
+      .filter(segment => metrics.segments[segment].length > 0)
+      .map(segment => ({ ...MOCK_RECOMMENDATIONS[segment], segment }))
+  }),
+  writeMessage: async (participant, cohort, styleExample) => {
+    if (styleExample) return styleExample;
+    const name = participant.name.trim().split(/\s+/)[0] || 'participante';
+    const open = countUnpaidToDate(participant, cohort);
+    const pending = getParticipantBalance(participant, cohort).pending;
+    return open === 0
+      ? `Olá, ${name}! [simulado] Seus pagamentos estão em dia. Obrigado!`
+      : `Olá, ${name}! [simulado] Você tem ${open} período(s) em aberto, total de ${formatBRL(pending)}.`;
+  }
+};
+
+const createProvider = (current: AiSettings): AiProvider => {
+  if (current.provider === 'mock') return mockProvider;
+  if (current.provider === 'server') return createModelProvider(createServerModel(current));
+  if (current.provider === 'openai-compatible') return createModelProvider(createOpenAiCompatibleModel(current));
+  return createModelProvider(createGeminiModel(current));
+};
+
+// Requests are spaced out per the provider's rate limit, so a whole collection
+// campaign can run without hitting the quota.
+let nextRequestAt = 0;
+
+const waitForSlot = async (intervalMs: number) => {
+  const now = Date.now();
+  const wait = Math.max(0, nextRequestAt - now);
+  nextRequestAt = Math.max(now, nextRequestAt) + intervalMs;
+  if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+};
+
+// Same prompt, same message: keyed by the prompt text, which already contains
+// everything that makes a message differ (name, open periods, amounts).
+// Cleared when the AI settings change.
+const messageCache = new Map<string, string>();
+
+let settings = loadAiSettings();
+
+export const getAiSettings = () => settings;
+
+export const updateAiSettings = (next: AiSettings) => {
+  settings = next;
+  saveAiSettings(next);
+  messageCache.clear();
+};
+
+export const analyzeParticipants = async (metrics: AdherenceMetrics, cohort: CohortSettings): Promise<AiAnalysis> => {
+  const provider = createProvider(settings);
+  await waitForSlot(provider.requestIntervalMs);
+  return provider.analyze(metrics, cohort);
+};
+
+// Throws on failure so callers can fall back to the template. `styleExample` is the
+// team's template rendered for this participant; `skipCache` asks for a fresh wording.
+export const generateCollectionMessage = async (
+  participant: Participant,
+  cohort: CohortSettings,
+  styleExample?: string,
+  skipCache = false
+) => {
+  const key = buildMessagePrompt(participant, cohort, styleExample);
+  const cached = messageCache.get(key);
+  if (cached && !skipCache) return cached;
+
+  const provider = createProvider(settings);
+  await waitForSlot(provider.requestIntervalMs);
+  const text = await provider.writeMessage(participant, cohort, styleExample);
+  if (!text) throw new Error("A IA não retornou nenhuma mensagem.");
+  messageCache.set(key, text);
+  return text;
+};
+
+export interface GeneratedMessage {
+  text: string;
+  // True when the AI call failed and the rendered template was used instead.
+  fromTemplate: boolean;
+}
+
+export const generateMessageForParticipant = async (
+  participant: Participant,
+  cohort: CohortSettings,
+  template: string | null = null,
+  skipCache = false
+): Promise<GeneratedMessage> => {
+  try {
+    return { text: await generateCollectionMessage(participant, cohort, template ?? undefined, skipCache), fromTemplate: false };
+  } catch (error) {
+    console.error("Error generating message:", error);
+    if (template) return { text: template, fromTemplate: true };
+    return { text: "Erro ao gerar mensagem.", fromTemplate: false };
+  }
+};
+
+// Small round trip used by the settings screen to check the configuration.
+export const testAiSettings = async (candidate: AiSettings) => {
+  const provider = createProvider(candidate);
+  const sample: Participant = { id: 'teste', name: 'Teste', whatsapp: '', weeks: [true] };
+  const cohort = { ...createDefaultCohort(), periodCount: 1 };
+  return provider.writeMessage(sample, cohort);
+};
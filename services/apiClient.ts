@@ -0,0 +1,69 @@
+// Base URL of the team server (server/index.ts), e.g. "/api" behind the Vite
+// proxy. Empty when the app keeps its data in this browser only. `env` is missing
+// when this module is loaded by the server itself.
+export const API_URL = (import.meta.env?.VITE_API_URL ?? '').replace(/\/+$/, '');
+
+// Session token from the last login, kept per browser.
+const TOKEN_STORAGE_KEY = 'hubx_session_token';
+// A request on a bad mobile connection can hang for minutes; give up sooner.
+const REQUEST_TIMEOUT = 30000;
+
+let token = typeof localStorage === 'undefined' ? '' : localStorage.getItem(TOKEN_STORAGE_KEY) ?? '';
+let onUnauthorized: (() => void) | null = null;
+
+export const setAuthToken = (next: string) => {
+  token = next;
+  if (next) localStorage.setItem(TOKEN_STORAGE_KEY, next);
+  else localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+export const hasAuthToken = () => !!token;
+
+// Called when the server rejects the session (expired, password changed, removed).
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string, public readonly body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The server could not be reached: no connection, a timeout, or a proxy in front
+// of it reporting it down. Saves are kept locally and retried.
+export class OfflineError extends Error {
+  constructor() {
+    super("Sem conexão com o servidor.");
+    this.name = 'OfflineError';
+  }
+}
+
+const GATEWAY_STATUSES = [502, 503, 504];
+
+export const apiRequest = async <T>(path: string, method = 'GET', body?: unknown): Promise<T> => {
+  if (!API_URL) throw new Error("Nenhum servidor configurado (VITE_API_URL).");
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetch(`${API_URL}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+  }).catch(() => {
+    throw new OfflineError();
+  });
+  if (GATEWAY_STATUSES.includes(response.status)) throw new OfflineError();
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    if (response.status === 401 && token) {
+      setAuthToken('');
+      onUnauthorized?.();
+    }
+    throw new ApiError(response.status, payload?.error ?? `O servidor respondeu ${response.status}.`, payload);
+  }
+  return payload as T;
+};
@@ -0,0 +1,117 @@
+import { FieldSettings, Group, LedgerEvent, MessagingSettings, Participant } from "../types";
+
+// Wire format between the app and the team server (server/index.ts).
+//
+// Groups, participants, the message settings and the field settings carry a version that the server
+// bumps on every change. A write names the version it was based on; when the
+// row changed since, the server keeps its copy and reports it as a conflict.
+// Ledger events are append-only and never conflict.
+
+export type GroupData = Omit<Group, 'participants'>;
+
+// Set by the server on rows it sends: who wrote the current version, and when.
+interface Attribution {
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface GroupRow extends Attribution {
+  id: string;
+  version: number;
+  position: number;
+  data: GroupData;
+}
+
+export interface ParticipantRow extends Attribution {
+  id: string;
+  version: number;
+  groupId: string;
+  position: number;
+  data: Participant;
+}
+
+export interface MessagingRow {
+  version: number;
+  data: MessagingSettings;
+}
+
+export interface FieldsRow {
+  version: number;
+  data: FieldSettings;
+}
+
+export interface RemoteDocument {
+  // Null while the server holds no data yet.
+  schemaVersion: number | null;
+  groups: GroupRow[];
+  participants: ParticipantRow[];
+  ledger: LedgerEvent[];
+  messaging: MessagingRow | null;
+  fields: FieldsRow | null;
+}
+
+// Version 0 means the row is new to the client.
+export interface DeletedRow {
+  id: string;
+  version: number;
+  deleted: true;
+}
+
+export type GroupChange = GroupRow | DeletedRow;
+export type ParticipantChange = ParticipantRow | DeletedRow;
+
+export interface ChangeSet {
+  schemaVersion: number;
+  groups: GroupChange[];
+  participants: ParticipantChange[];
+  ledger: LedgerEvent[];
+  messaging?: MessagingRow;
+  fields?: FieldsRow;
+}
+
+export interface ChangeResult {
+  // New version of every row that was written.
+  versions: {
+    groups: Record<string, number>;
+    participants: Record<string, number>;
+    messaging?: number;
+    fields?: number;
+  };
+  // The server's copy of every row that failed its version check.
+  conflicts: {
+    groups: GroupChange[];
+    participants: ParticipantChange[];
+    messaging?: MessagingRow;
+    fields?: FieldsRow;
+  };
+}
+
+// Body of PUT /api/workspace, which replaces everything (backup restore, first upload).
+export interface WorkspaceUpload {
+  schemaVersion: number;
+  groups: Group[];
+  ledger: LedgerEvent[];
+  messaging: MessagingSettings;
+  fields: FieldSettings;
+}
+
+export const isDeletedRow = (change: GroupChange | ParticipantChange): change is DeletedRow =>
+  'deleted' in change && change.deleted === true;
+
+// Back to the document shape migrateDocument expects. The open group is per
+// browser, so the app passes it in from its local copy.
+export const toDocument = (remote: RemoteDocument, activeGroupId: string) => {
+  const byGroup = new Map<string, Participant[]>();
+  remote.participants.forEach(row => {
+    const list = byGroup.get(row.groupId) ?? [];
+    list.push(row.data);
+    byGroup.set(row.groupId, list);
+  });
+  return {
+    activeGroupId,
+    groups: remote.groups.map(row => ({ ...row.data, participants: byGroup.get(row.id) ?? [] })),
+    ledger: remote.ledger,
+    messaging: remote.messaging?.data,
+    fields: remote.fields?.data
+  };
+};
@@ -0,0 +1,74 @@
+import { AuthUser, UserRole } from "../types";
+import { OfflineError, apiRequest, hasAuthToken, setAuthToken } from "./apiClient";
+
+// The last account seen, so the app still opens without a connection.
+const USER_STORAGE_KEY = 'hubx_session_user';
+
+const rememberUser = (user: AuthUser | null) => {
+  if (user) localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  else localStorage.removeItem(USER_STORAGE_KEY);
+};
+
+const rememberedUser = (): AuthUser | null => {
+  try {
+    return JSON.parse(localStorage.getItem(USER_STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export interface AuthStatus {
+  // True until the first account exists on the server.
+  needsSetup: boolean;
+  user: AuthUser | null;
+}
+
+interface Session {
+  user: AuthUser;
+  token: string;
+}
+
+// Offline, a browser that still holds a session keeps working as that account;
+// the server checks the token again once it is reachable.
+export const getAuthStatus = async (): Promise<AuthStatus> => {
+  try {
+    const status = await apiRequest<AuthStatus>('/auth/status');
+    rememberUser(status.user);
+    return status;
+  } catch (e) {
+    const user = rememberedUser();
+    if (e instanceof OfflineError && user && hasAuthToken()) return { needsSetup: false, user };
+    throw e;
+  }
+};
+
+const startSession = async (path: string, username: string, password: string) => {
+  const session = await apiRequest<Session>(path, 'POST', { username, password });
+  setAuthToken(session.token);
+  rememberUser(session.user);
+  return session.user;
+};
+
+export const login = (username: string, password: string) => startSession('/auth/login', username, password);
+
+// Creates the first account, always a treasurer.
+export const setupFirstAccount = (username: string, password: string) => startSession('/auth/setup', username, password);
+
+export const logout = async () => {
+  try {
+    await apiRequest('/auth/logout', 'POST');
+  } finally {
+    setAuthToken('');
+    rememberUser(null);
+  }
+};
+
+export const listUsers = () => apiRequest<AuthUser[]>('/users');
+
+export const createUser = (username: string, password: string, role: UserRole) =>
+  apiRequest<AuthUser>('/users', 'POST', { username, password, role });
+
+export const updateUser = (id: string, changes: { role?: UserRole; password?: string }) =>
+  apiRequest<AuthUser>(`/users/${encodeURIComponent(id)}`, 'PATCH', changes);
+
+export const removeUser = (id: string) => apiRequest(`/users/${encodeURIComponent(id)}`, 'DELETE');
@@ -0,0 +1,132 @@
+import { Group, Workspace } from "../types";
+import { CURRENT_SCHEMA_VERSION, migrateDocument } from "./migrations";
+import { downloadBlob } from "./exportService";
+import { isActiveParticipant } from "../utils/participant";
+import { isRecord } from "../utils/guards";
+
+// Marks a file as one of our backups, so an unrelated JSON file is rejected up front.
+const BACKUP_FORMAT = 'hubx-strategy-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workspace: Workspace;
+}
+
+export const createBackup = (workspace: Workspace): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  workspace
+});
+
+export const downloadBackup = (workspace: Workspace) => {
+  const backup = createBackup(workspace);
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `hubx-backup-${backup.exportedAt.slice(0, 10)}.json`);
+};
+
+// Validates a backup file and brings it up to the current schema. Throws with a
+// message meant for the user when the file cannot be restored.
+export const parseBackup = (text: string): BackupFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido.");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || typeof parsed.schemaVersion !== 'number') {
+    throw new Error("O arquivo não é um backup do HubX Strategy.");
+  }
+
+  const workspace = migrateDocument(parsed.workspace, parsed.schemaVersion);
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    workspace
+  };
+};
+
+export type GroupDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface GroupDiff {
+  groupId: string;
+  name: string;
+  status: GroupDiffStatus;
+  participantsBefore: number;
+  participantsAfter: number;
+  added: number;
+  removed: number;
+  changed: number;
+  settingsChanged: boolean;
+}
+
+export interface WorkspaceDiff {
+  groups: GroupDiff[];
+  ledgerBefore: number;
+  ledgerAfter: number;
+  templatesBefore: number;
+  templatesAfter: number;
+}
+
+const activeById = (group?: Group) =>
+  new Map((group?.participants ?? []).filter(isActiveParticipant).map(p => [p.id, p]));
+
+// Summarizes what restoring `incoming` would do to `current`, group by group.
+// Only rows with content are counted, so the blank spreadsheet rows do not show up.
+export const diffWorkspaces = (current: Workspace, incoming: Workspace): WorkspaceDiff => {
+  const ids = [...new Set([...incoming.groups.map(g => g.id), ...current.groups.map(g => g.id)])];
+
+  const groups = ids.map((groupId): GroupDiff => {
+    const before = current.groups.find(g => g.id === groupId);
+    const after = incoming.groups.find(g => g.id === groupId);
+    const beforeRows = activeById(before);
+    const afterRows = activeById(after);
+
+    let added = 0;
+    let changed = 0;
+    afterRows.forEach((participant, id) => {
+      const old = beforeRows.get(id);
+      if (!old) added++;
+      else if (JSON.stringify(old) !== JSON.stringify(participant)) changed++;
+    });
+    const removed = [...beforeRows.keys()].filter(id => !afterRows.has(id)).length;
+
+    const settingsChanged = !!before && !!after && (
+      before.name !== after.name ||
+      before.archived !== after.archived ||
+      JSON.stringify(before.settings) !== JSON.stringify(after.settings)
+    );
+
+    const status: GroupDiffStatus = !before ? 'added'
+      : !after ? 'removed'
+      : added || removed || changed || settingsChanged ? 'changed'
+      : 'unchanged';
+
+    return {
+      groupId,
+      name: (after ?? before)!.name,
+      status,
+      participantsBefore: beforeRows.size,
+      participantsAfter: afterRows.size,
+      added,
+      removed,
+      changed,
+      settingsChanged
+    };
+  });
+
+  return {
+    groups,
+    ledgerBefore: current.ledger.length,
+    ledgerAfter: incoming.ledger.length,
+    templatesBefore: current.messaging.templates.length,
+    templatesAfter: incoming.messaging.templates.length
+  };
+};
+
+export const countParticipants = (workspace: Workspace) =>
+  workspace.groups.reduce((sum, g) => sum + g.participants.filter(isActiveParticipant).length, 0);
@@ -0,0 +1,44 @@
+import { Participant } from "../types";
+import { CellRange, CellWrite, GridColumns, countColumns, isWeekColumn, rangeHeight, rangeWidth, readCell } from "../utils/grid";
+import { parseDelimited, parseWeekValue } from "./importService";
+
+// Cells travel as tab-separated text, the format Excel and Google Sheets use on
+// the clipboard. Paid periods are copied as "x".
+
+const quoteCell = (value: string) => /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const copyCells = (rows: Participant[], range: CellRange, columns: GridColumns) =>
+  rows.slice(range.top, range.bottom + 1)
+    .map(participant => {
+      const cells: string[] = [];
+      for (let col = range.left; col <= range.right; col++) {
+        const value = readCell(participant, col, columns);
+        cells.push(typeof value === 'boolean' ? (value ? 'x' : '') : quoteCell(value));
+      }
+      return cells.join('\t');
+    })
+    .join('\n');
+
+// Excel ends the copied block with a line break, which is not an extra row.
+export const parseClipboard = (text: string) => parseDelimited(text.replace(/^\uFEFF/, '').replace(/\r?\n$/, ''), '\t');
+
+// Writes for pasting `table` with its first cell at the selection's top left.
+// A single copied cell fills the whole selection instead.
+export const pasteCells = (table: string[][], selection: CellRange, columns: GridColumns): CellWrite[] => {
+  if (table.length === 0) return [];
+  const columnCount = countColumns(columns);
+  const single = table.length === 1 && table[0].length === 1;
+  const height = single ? rangeHeight(selection) : table.length;
+  const width = single ? rangeWidth(selection) : Math.max(...table.map(r => r.length));
+
+  const writes: CellWrite[] = [];
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const col = selection.left + c;
+      if (col >= columnCount) break;
+      const text = single ? table[0][0] : table[r][c] ?? '';
+      writes.push({ row: selection.top + r, col, value: isWeekColumn(col, columns) ? parseWeekValue(text) === true : text });
+    }
+  }
+  return writes;
+};
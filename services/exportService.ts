@@ -0,0 +1,112 @@
+import { CohortSettings, CustomField, Participant } from "../types";
+import { countPaidWeeks, getStatusLabel, isActiveParticipant } from "../utils/participant";
+import { FREQUENCY_LABELS, getPeriodLabel } from "../utils/cohort";
+import { getParticipantBalance } from "../utils/finance";
+import { formatFieldValue, formatTags, getFieldValue } from "../utils/fields";
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+type Cell = string | number;
+
+// Excel only detects UTF-8 (and therefore accented names) when the file starts with a BOM.
+const UTF8_BOM = '\uFEFF';
+
+// Excel in pt-BR uses ';' as list separator, so ',' would put everything in one column.
+const CSV_DELIMITER = ';';
+
+// Number fields become number cells; dates are written as shown (dd/mm/yyyy).
+const fieldCell = (participant: Participant, field: CustomField): Cell => {
+  const value = getFieldValue(participant, field.id);
+  return field.type === 'number' && value !== '' && Number.isFinite(Number(value)) ? Number(value) : formatFieldValue(field, value);
+};
+
+// The custom fields, tags and notes come last, so the other columns keep their place.
+const buildTable = (participants: Participant[], cohort: CohortSettings, fields: CustomField[]): Cell[][] => {
+  const rows = participants.filter(isActiveParticipant);
+  const weekCount = cohort.periodCount;
+
+  const header: Cell[] = [
+    'Nome',
+    'WhatsApp',
+    ...Array.from({ length: weekCount }, (_, i) => getPeriodLabel(cohort, i)),
+    `${FREQUENCY_LABELS[cohort.frequency].plural} Pagas`,
+    'Status',
+    'Pago (R$)',
+    'Pendente (R$)',
+    'Em atraso (R$)',
+    ...fields.map(f => f.name),
+    'Etiquetas',
+    'Observações'
+  ];
+
+  const body = rows.map(p => {
+    const balance = getParticipantBalance(p, cohort);
+    return [
+      p.name,
+      p.whatsapp,
+      ...Array.from({ length: weekCount }, (_, i) => (p.weeks[i] ? 'Sim' : 'Não')),
+      countPaidWeeks(p),
+      getStatusLabel(p),
+      balance.paid / 100,
+      balance.pending / 100,
+      balance.overdue / 100,
+      ...fields.map(f => fieldCell(p, f)),
+      formatTags(p.tags),
+      p.notes ?? ''
+    ];
+  });
+
+  return [header, ...body];
+};
+
+const escapeCsvCell = (value: Cell) => {
+  // Decimal comma, matching the ';' delimiter Excel expects in pt-BR.
+  const text = typeof value === 'number' ? String(value).replace('.', ',') : value;
+  if (/["\r\n]/.test(text) || text.includes(CSV_DELIMITER)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const toCsv = (participants: Participant[], cohort: CohortSettings, fields: CustomField[] = []) => {
+  const lines = buildTable(participants, cohort, fields).map(row => row.map(escapeCsvCell).join(CSV_DELIMITER));
+  return UTF8_BOM + lines.join('\r\n');
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const buildFilename = (extension: string) => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `hubx-participantes-${date}.${extension}`;
+};
+
+export const exportParticipants = async (
+  participants: Participant[],
+  format: ExportFormat,
+  cohort: CohortSettings,
+  fields: CustomField[] = []
+) => {
+  if (format === 'csv') {
+    const blob = new Blob([toCsv(participants, cohort, fields)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, buildFilename('csv'));
+    return;
+  }
+
+  // SheetJS is large, so it is only fetched when someone actually asks for an .xlsx file.
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet(buildTable(participants, cohort, fields));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Participantes');
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  downloadBlob(blob, buildFilename('xlsx'));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnTarget, applyImport, buildImportPreview } from './importService';
+import { createDefaultCohort } from '../utils/cohort';
+import { Participant } from '../types';
+
+const cohort = { ...createDefaultCohort(), periodCount: 3 };
+const targets: ColumnTarget[] = ['name', 'whatsapp', 'week:0', 'week:1'];
+const ana: Participant = { id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, false, false] };
+
+const sheet = (...rows: string[][]) => ({ headers: ['Nome', 'WhatsApp', 'S1', 'S2'], rows });
+
+describe('buildImportPreview', () => {
+  it('merges a known number into the existing person', () => {
+    const preview = buildImportPreview(sheet(['Ana Souza', '11988887777', 'x', 'x']), targets, [ana], cohort);
+    expect(preview.map(row => row.kind)).toEqual(['updated']);
+    expect(preview[0].merged).toMatchObject({ id: 'p1', weeks: [true, true, false] });
+  });
+
+  it('merges repeats of a number in the file without asking', () => {
+    const preview = buildImportPreview(
+      sheet(['Bruno Lima', '21977776666', 'x', ''], ['Bruno Lima', '21977776666', '', 'x']),
+      targets, [], cohort
+    );
+    expect(preview.map(row => [row.kind, row.sameAs])).toEqual([['new', undefined], ['updated', 'row-0']]);
+    expect(preview[1].merged.weeks).toEqual([true, true, false]);
+  });
+
+  it('flags only real disagreements as conflicts', () => {
+    const preview = buildImportPreview(
+      sheet(['Ana Costa', '11988887777', '', ''], ['Ana Souza', '11988887777', 'não', '']),
+      targets, [ana], cohort
+    );
+    expect(preview.map(row => row.kind)).toEqual(['conflict', 'conflict']);
+    expect(preview[0].reasons).toEqual(['Nome diferente: "Ana Souza"']);
+    expect(preview[1].reasons).toContain('Nome diferente: "Ana Costa"');
+  });
+});
+
+describe('applyImport', () => {
+  it('applies repeated numbers to one participant by default', () => {
+    const preview = buildImportPreview(
+      sheet(['Ana Souza', '11988887777', '', 'x'], ['Ana Souza', '11988887777', '', ''], ['Bruno Lima', '21977776666', 'x', ''], ['Bruno Lima', '21977776666', '', 'x']),
+      targets, [ana], cohort
+    );
+    const result = applyImport([ana], preview, {}, () => 'new-id');
+    expect(result).toEqual([
+      { ...ana, weeks: [true, true, false] },
+      expect.objectContaining({ id: 'new-id', name: 'Bruno Lima', weeks: [true, true, false] })
+    ]);
+  });
+
+  it('leaves conflicts alone unless the file is chosen', () => {
+    const preview = buildImportPreview(sheet(['Ana Costa', '11988887777', '', '']), targets, [ana], cohort);
+    expect(applyImport([ana], preview, {}, () => 'new-id')).toEqual([ana]);
+    expect(applyImport([ana], preview, { 'row-0': 'replace' }, () => 'new-id')[0].name).toBe('Ana Costa');
+  });
+});
@@ -0,0 +1,307 @@
+import { CohortSettings, CustomField, Participant } from "../types";
+import { isActiveParticipant, isBlankParticipant } from "../utils/participant";
+import { formatPhone, normalizePhone } from "../utils/phone";
+import { FREQUENCY_LABELS, resizeWeeks } from "../utils/cohort";
+import { formatTags, normalizeFieldValues, normalizeTags, parseFieldValue, parseTags } from "../utils/fields";
+
+export type ColumnTarget = 'ignore' | 'name' | 'whatsapp' | `week:${number}` | `field:${string}` | 'tags' | 'notes';
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportRowKind = 'new' | 'updated' | 'conflict' | 'unchanged';
+
+export interface ImportPreviewRow {
+  key: string;
+  kind: ImportRowKind;
+  incoming: Pick<Participant, 'name' | 'whatsapp'> & {
+    weeks: (boolean | null)[];
+    customFields: Record<string, string>;
+    tags: string[];
+    notes: string;
+  };
+  existing?: Participant;
+  // What the participant looks like after the merge when the imported values win.
+  merged: Participant;
+  reasons: string[];
+  // Key of the first row with the same number; this row is merged into it.
+  sameAs?: string;
+}
+
+export type ConflictResolution = 'keep' | 'replace';
+
+const TRUTHY_VALUES = new Set(['sim', 's', 'x', '1', 'true', 'pago', 'ok', 'yes', 'y', '✓', '✔']);
+
+const detectDelimiter = (firstLine: string) => {
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, current) =>
+    firstLine.split(current).length > firstLine.split(best).length ? current : best
+  );
+};
+
+// Every line, blank ones included, so rows keep their place (clipboard pastes).
+export const parseDelimited = (content: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  return parseDelimited(content, delimiter).filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const parseImportFile = async (file: File): Promise<ParsedSheet> => {
+  let table: string[][];
+
+  if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const raw = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    table = raw
+      .map(r => r.map(value => String(value ?? '')))
+      .filter(r => r.some(value => value.trim() !== ''));
+  } else {
+    table = parseCsv(await file.text());
+  }
+
+  if (table.length === 0) throw new Error("Arquivo vazio.");
+
+  const [headers, ...rows] = table;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Best-effort guess based on the header text, so our own exports and the usual
+// Google Sheets layouts map without any manual work. A header named exactly
+// like a custom field goes to that field.
+export const guessColumnTargets = (headers: string[], weekCount: number, fields: CustomField[] = []): ColumnTarget[] => {
+  const used = new Set<ColumnTarget>();
+  return headers.map(header => {
+    const label = normalizeHeader(header);
+    let target: ColumnTarget = 'ignore';
+
+    const field = fields.find(f => normalizeHeader(f.name) === label);
+    const weekMatch = label.match(/^(sem|semana|week|s|qnz|quinzena|mes|periodo)\s*(\d+)\b/);
+    if (field) {
+      target = `field:${field.id}`;
+    } else if (weekMatch) {
+      const index = Number(weekMatch[2]) - 1;
+      if (index >= 0 && index < weekCount) target = `week:${index}`;
+    } else if (/etiqueta|^tags?$|marcador/.test(label)) {
+      target = 'tags';
+    } else if (/observ|^notas?$|^notes?$|anotac/.test(label)) {
+      target = 'notes';
+    } else if (/whats|telefone|celular|fone|phone|contato/.test(label)) {
+      target = 'whatsapp';
+    } else if (/nome|name|participante/.test(label)) {
+      target = 'name';
+    }
+
+    if (used.has(target)) return 'ignore';
+    if (target !== 'ignore') used.add(target);
+    return target;
+  });
+};
+
+// "x", "sim", "1", "✓"... as paid; null for an empty cell.
+export const parseWeekValue = (value: string) => {
+  const text = value.trim().toLowerCase();
+  if (text === '') return null;
+  return TRUTHY_VALUES.has(text);
+};
+
+const emptyParticipant = (weekCount: number): Participant => ({
+  id: '',
+  name: '',
+  whatsapp: '',
+  weeks: resizeWeeks([], weekCount)
+});
+
+// Values present in the file win; blank cells keep what `base` has. Imported
+// tags are added to the ones the participant already has.
+const mergeIncoming = (base: Participant, incoming: ImportPreviewRow['incoming']): Participant => ({
+  ...base,
+  name: incoming.name || base.name,
+  whatsapp: incoming.whatsapp || base.whatsapp,
+  weeks: base.weeks.map((paid, i) => incoming.weeks[i] ?? paid),
+  customFields: normalizeFieldValues({ ...base.customFields, ...incoming.customFields }),
+  tags: incoming.tags.length > 0 ? normalizeTags([...(base.tags ?? []), ...incoming.tags]) : base.tags,
+  notes: incoming.notes || base.notes
+});
+
+// File values that would overwrite something different, which needs a decision.
+// Blank cells and new values don't count.
+const findDisagreements = (
+  current: Participant,
+  incoming: ImportPreviewRow['incoming'],
+  fields: CustomField[],
+  periodName: string
+): string[] => {
+  const reasons: string[] = [];
+  if (incoming.name && current.name.trim() && incoming.name.trim().toLowerCase() !== current.name.trim().toLowerCase()) {
+    reasons.push(`Nome diferente: "${current.name}"`);
+  }
+  Object.entries(incoming.customFields).forEach(([id, value]) => {
+    const existing = current.customFields?.[id];
+    if (existing && existing !== value) reasons.push(`${fields.find(f => f.id === id)?.name ?? 'Campo'} diferente: "${existing}"`);
+  });
+  if (incoming.notes && current.notes?.trim() && incoming.notes !== current.notes.trim()) {
+    reasons.push('Observações diferentes');
+  }
+  current.weeks.forEach((paid, i) => {
+    if (paid && incoming.weeks[i] === false) reasons.push(`${periodName} ${i + 1} desmarcada no arquivo`);
+  });
+  return reasons;
+};
+
+const hasChanges = (before: Participant, after: Participant) =>
+  after.name !== before.name ||
+  after.whatsapp !== before.whatsapp ||
+  after.weeks.some((paid, i) => paid !== before.weeks[i]) ||
+  JSON.stringify(after.customFields ?? {}) !== JSON.stringify(before.customFields ?? {}) ||
+  formatTags(after.tags) !== formatTags(before.tags) ||
+  (after.notes ?? '') !== (before.notes ?? '');
+
+// Custom field values that don't fit the field (a word in a number field) are skipped.
+export const buildImportPreview = (
+  sheet: ParsedSheet,
+  targets: ColumnTarget[],
+  existing: Participant[],
+  cohort: CohortSettings,
+  fields: CustomField[] = []
+): ImportPreviewRow[] => {
+  const weekCount = cohort.periodCount;
+  const periodName = FREQUENCY_LABELS[cohort.frequency].singular;
+  const byPhone = new Map<string, Participant>();
+  existing.filter(isActiveParticipant).forEach(p => {
+    const phone = normalizePhone(p.whatsapp);
+    if (phone && !byPhone.has(phone)) byPhone.set(phone, p);
+  });
+
+  // Latest row of each number in the file, so repeats merge into the same person.
+  const seenInFile = new Map<string, ImportPreviewRow>();
+
+  return sheet.rows.map((row, rowIndex): ImportPreviewRow => {
+    const incoming: ImportPreviewRow['incoming'] = {
+      name: '',
+      whatsapp: '',
+      weeks: new Array<boolean | null>(weekCount).fill(null),
+      customFields: {},
+      tags: [],
+      notes: ''
+    };
+    targets.forEach((target, column) => {
+      const value = (row[column] ?? '').trim();
+      if (target === 'name') incoming.name = value;
+      else if (target === 'whatsapp') incoming.whatsapp = formatPhone(value);
+      else if (target === 'tags') incoming.tags = parseTags(value);
+      else if (target === 'notes') incoming.notes = value;
+      else if (target.startsWith('week:')) incoming.weeks[Number(target.slice(5))] = parseWeekValue(value);
+      else if (target.startsWith('field:')) {
+        const field = fields.find(f => f.id === target.slice(6));
+        const parsed = field ? parseFieldValue(field, value) : null;
+        if (field && parsed) incoming.customFields[field.id] = parsed;
+      }
+    });
+
+    const key = `row-${rowIndex}`;
+    const phone = normalizePhone(incoming.whatsapp);
+    const match = phone ? byPhone.get(phone) : undefined;
+
+    // A number repeated in the file merges into what the rows above built up;
+    // it is only a conflict when it disagrees with them.
+    const previous = phone ? seenInFile.get(phone) : undefined;
+    const current = previous?.merged ?? match;
+    const merged = mergeIncoming(current ?? emptyParticipant(weekCount), incoming);
+    const reasons = current ? findDisagreements(current, incoming, fields, periodName) : [];
+    let kind: ImportRowKind = 'new';
+    if (current) {
+      if (reasons.length > 0) kind = 'conflict';
+      else kind = hasChanges(current, merged) ? 'updated' : 'unchanged';
+    }
+
+    const result: ImportPreviewRow = { key, kind, incoming, existing: match, merged, reasons };
+    if (previous) result.sameAs = previous.sameAs ?? previous.key;
+    if (phone) seenInFile.set(phone, result);
+    return result;
+  }).filter(row => row.incoming.name !== '' || row.incoming.whatsapp !== '');
+};
+
+// Applies the preview to the current data. New people take over blank rows first
+// so the sheet doesn't grow past the empty placeholders created on first load.
+export const applyImport = (
+  data: Participant[],
+  preview: ImportPreviewRow[],
+  resolutions: Record<string, ConflictResolution>,
+  createId: () => string
+): Participant[] => {
+  const updates = new Map<string, Participant>();
+  const additions = new Map<string, Participant>();
+  // What each applied row wrote, so a number repeated in the file updates that
+  // same participant instead of adding a second one.
+  const applied = new Map<string, Participant>();
+
+  preview.forEach(row => {
+    if (row.kind === 'unchanged') return;
+    if (row.kind === 'conflict' && resolutions[row.key] !== 'replace') return;
+
+    const earlier = row.sameAs ? applied.get(row.sameAs) : undefined;
+    const base = earlier ?? row.existing;
+    const participant = row.sameAs
+      ? { ...mergeIncoming(base ?? emptyParticipant(row.merged.weeks.length), row.incoming), id: base?.id ?? createId() }
+      : { ...row.merged, id: row.existing?.id ?? createId() };
+
+    if (row.existing || updates.has(participant.id)) updates.set(participant.id, participant);
+    else additions.set(participant.id, participant);
+    applied.set(row.sameAs ?? row.key, participant);
+  });
+
+  const pending = [...additions.values()];
+  const result = data.map(p => updates.get(p.id) ?? p);
+  for (let i = 0; i < result.length && pending.length > 0; i++) {
+    if (isBlankParticipant(result[i])) {
+      result[i] = { ...pending.shift()!, id: result[i].id };
+    }
+  }
+  return [...result, ...pending];
+};
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  SchemaVersionError,
+  migrateDocument,
+  readLocalStorageDocument
+} from './migrations';
+import { createDefaultMessaging } from '../utils/templates';
+import { createDefaultFields } from '../utils/fields';
+
+// Fixtures are what earlier builds of the app actually wrote.
+
+// Version 0: the first release kept a fixed 5-week sheet under hubx_strategy_data.
+const V0_DATA = JSON.stringify([
+  { id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, true, false, false, false] },
+  { id: 'p2', name: 'Bruno Lima', whatsapp: '(21) 97777-6666', weeks: [true, false, false, false, false] },
+  { id: 'p3', name: '', whatsapp: '', weeks: [false, false, false, false, false] }
+]);
+
+// Configurable periods added hubx_strategy_settings next to it.
+const V0_SETTINGS = JSON.stringify({ name: 'Turma Março', periodCount: 8, startDate: '2024-03-04', frequency: 'weekly' });
+
+// Version 1: groups under hubx_strategy_workspace.
+const V1_WORKSPACE = {
+  activeGroupId: 'g2',
+  groups: [
+    {
+      id: 'g1',
+      name: 'Turma Março',
+      archived: true,
+      createdAt: '2024-03-01T12:00:00.000Z',
+      settings: { name: 'Turma Março', periodCount: 5, startDate: '2024-03-04', frequency: 'weekly' },
+      participants: [{ id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, true, true, true, true] }]
+    },
+    {
+      id: 'g2',
+      name: 'Turma Abril',
+      archived: false,
+      createdAt: '2024-04-01T12:00:00.000Z',
+      settings: { name: 'Turma Abril', periodCount: 4, startDate: '2024-04-01', frequency: 'monthly' },
+      participants: [{ id: 'p2', name: 'Bruno Lima', whatsapp: '(21) 97777-6666', weeks: [true, false, false, false] }]
+    }
+  ]
+};
+
+// Version 2: the payment ledger.
+const V2_WORKSPACE = {
+  ...V1_WORKSPACE,
+  ledger: [
+    {
+      id: 'e1',
+      participantId: 'p2',
+      groupId: 'g2',
+      type: 'mark-paid',
+      periodIndex: 0,
+      operator: 'Carla',
+      timestamp: '2024-04-02T10:00:00.000Z'
+    }
+  ]
+};
+
+// Version 3: message templates.
+const V3_WORKSPACE = {
+  ...V2_WORKSPACE,
+  messaging: {
+    templates: [{ id: 't1', name: 'Lembrete curto', situation: 'reminder', body: 'Oi {nome}, falta {valor_pendente}.' }],
+    pixLink: 'https://pix.example/hubx'
+  }
+};
+
+// Version 4: custom fields and tag colors.
+const V4_WORKSPACE = {
+  ...V3_WORKSPACE,
+  fields: {
+    custom: [{ id: 'f1', name: 'Bairro', type: 'select', options: ['Centro', 'Norte'] }],
+    tagColors: { vip: 'amber' }
+  }
+};
+
+const memoryStorage = (entries: Record<string, string>) => {
+  const values = new Map(Object.entries(entries));
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); }
+  };
+};
+
+describe('readLocalStorageDocument', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads the version 0 sheet and its settings', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_data: V0_DATA, hubx_strategy_settings: V0_SETTINGS }));
+    expect(readLocalStorageDocument()).toEqual({
+      doc: { participants: JSON.parse(V0_DATA), settings: JSON.parse(V0_SETTINGS) },
+      version: 0
+    });
+  });
+
+  it('tells version 1 from version 2 workspaces by the ledger', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_workspace: JSON.stringify(V1_WORKSPACE) }));
+    expect(readLocalStorageDocument()?.version).toBe(1);
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_workspace: JSON.stringify(V2_WORKSPACE) }));
+    expect(readLocalStorageDocument()?.version).toBe(2);
+  });
+
+  it('prefers the workspace over the older sheet', () => {
+    vi.stubGlobal('localStorage', memoryStorage({
+      hubx_strategy_workspace: JSON.stringify(V1_WORKSPACE),
+      hubx_strategy_data: V0_DATA
+    }));
+    expect(readLocalStorageDocument()?.version).toBe(1);
+  });
+
+  it('skips a corrupt workspace and falls back to the older sheet', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_workspace: '{"groups": [', hubx_strategy_data: V0_DATA }));
+    expect(readLocalStorageDocument()?.version).toBe(0);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('returns null when everything is corrupt or missing', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_data: 'not json' }));
+    expect(readLocalStorageDocument()).toBeNull();
+    vi.stubGlobal('localStorage', memoryStorage({}));
+    expect(readLocalStorageDocument()).toBeNull();
+  });
+
+  it('ignores corrupt settings next to a readable sheet', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ hubx_strategy_data: V0_DATA, hubx_strategy_settings: '{' }));
+    expect(readLocalStorageDocument()).toEqual({ doc: { participants: JSON.parse(V0_DATA), settings: null }, version: 0 });
+  });
+});
+
+describe('migrateDocument', () => {
+  it('turns a version 0 sheet into one group', () => {
+    const workspace = migrateDocument({ participants: JSON.parse(V0_DATA), settings: null }, 0);
+    expect(workspace.groups).toHaveLength(1);
+    const [group] = workspace.groups;
+    expect(workspace.activeGroupId).toBe(group.id);
+    expect(group.name).toBe('Turma 1');
+    expect(group.settings.periodCount).toBe(5);
+    expect(group.participants.map(p => [p.id, p.name, p.weeks])).toEqual([
+      ['p1', 'Ana Souza', [true, true, false, false, false]],
+      ['p2', 'Bruno Lima', [true, false, false, false, false]],
+      ['p3', '', [false, false, false, false, false]]
+    ]);
+    expect(workspace.ledger).toEqual([]);
+    expect(workspace.messaging).toEqual(createDefaultMessaging());
+    expect(workspace.fields).toEqual(createDefaultFields());
+  });
+
+  it('fits version 0 participants to the saved cohort length', () => {
+    const workspace = migrateDocument({ participants: JSON.parse(V0_DATA), settings: JSON.parse(V0_SETTINGS) }, 0);
+    const [group] = workspace.groups;
+    expect(group.settings).toMatchObject({ periodCount: 8, startDate: '2024-03-04', frequency: 'weekly' });
+    expect(group.participants[0].weeks).toEqual([true, true, false, false, false, false, false, false]);
+  });
+
+  it('starts a fresh group from an empty version 0 document', () => {
+    const workspace = migrateDocument(null, 0);
+    expect(workspace.groups).toHaveLength(1);
+    expect(workspace.groups[0].participants.length).toBeGreaterThan(0);
+    expect(workspace.groups[0].participants.every(p => p.name === '' && p.whatsapp === '')).toBe(true);
+  });
+
+  it('keeps the groups of a version 1 workspace and adds an empty ledger', () => {
+    const workspace = migrateDocument(V1_WORKSPACE, 1);
+    expect(workspace.activeGroupId).toBe('g2');
+    expect(workspace.groups.map(g => [g.id, g.name, g.archived, g.settings.periodCount, g.settings.frequency])).toEqual([
+      ['g1', 'Turma Março', true, 5, 'weekly'],
+      ['g2', 'Turma Abril', false, 4, 'monthly']
+    ]);
+    expect(workspace.groups[1].participants[0].weeks).toEqual([true, false, false, false]);
+    expect(workspace.ledger).toEqual([]);
+    expect(workspace.messaging).toEqual(createDefaultMessaging());
+    expect(workspace.fields).toEqual(createDefaultFields());
+  });
+
+  it('keeps the ledger of a version 2 workspace and adds default templates', () => {
+    const workspace = migrateDocument(V2_WORKSPACE, 2);
+    expect(workspace.ledger).toEqual(V2_WORKSPACE.ledger);
+    expect(workspace.messaging).toEqual(createDefaultMessaging());
+    expect(workspace.fields).toEqual(createDefaultFields());
+  });
+
+  it('keeps the templates of a version 3 workspace and adds default field settings', () => {
+    const workspace = migrateDocument(V3_WORKSPACE, 3);
+    expect(workspace.messaging.templates).toEqual(V3_WORKSPACE.messaging.templates);
+    expect(workspace.messaging.pixLink).toBe('https://pix.example/hubx');
+    expect(workspace.fields).toEqual(createDefaultFields());
+  });
+
+  it('leaves a current document as it is', () => {
+    const workspace = migrateDocument(V4_WORKSPACE, CURRENT_SCHEMA_VERSION);
+    expect(workspace.fields).toEqual(V4_WORKSPACE.fields);
+    expect(workspace.messaging.templates).toEqual(V3_WORKSPACE.messaging.templates);
+    expect(workspace.ledger).toEqual(V2_WORKSPACE.ledger);
+  });
+
+  // A team server whose version was last written by an outdated client.
+  it('keeps settings already present in a document reported as older', () => {
+    const workspace = migrateDocument(V4_WORKSPACE, 2);
+    expect(workspace.messaging.templates).toEqual(V3_WORKSPACE.messaging.templates);
+    expect(workspace.fields).toEqual(V4_WORKSPACE.fields);
+  });
+
+  it('refuses documents written by a newer version', () => {
+    const newer = CURRENT_SCHEMA_VERSION + 1;
+    expect(() => migrateDocument(V4_WORKSPACE, newer)).toThrow(SchemaVersionError);
+    try {
+      migrateDocument(V4_WORKSPACE, newer);
+    } catch (e) {
+      expect((e as SchemaVersionError).version).toBe(newer);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { Workspace } from "../types";
+import { normalizeWorkspace, workspaceFromLegacy } from "../utils/groups";
+import { createDefaultMessaging } from "../utils/templates";
+import { createDefaultFields } from "../utils/fields";
+import { UnknownRecord, isRecord } from "../utils/guards";
+
+// Version of the workspace document written by this build. Bump it and add a
+// migration below whenever the stored shape changes.
+//   0 - single sheet: `{ participants, settings }` (the old localStorage keys)
+//   1 - groups: `{ activeGroupId, groups }`
+//   2 - groups + append-only payment ledger: `{ activeGroupId, groups, ledger }`
+//   3 - message templates: `{ ..., messaging: { templates, pixLink } }`
+//   4 - custom fields and tag colors: `{ ..., fields: { custom, tagColors } }`
+export const CURRENT_SCHEMA_VERSION = 4;
+
+type Migration = (doc: unknown) => UnknownRecord;
+
+const asRecord = (doc: unknown): UnknownRecord => isRecord(doc) ? doc : {};
+
+// MIGRATIONS[n] upgrades a version n-1 document to version n. Each step only
+// deals with its own change; normalizeWorkspace fills defaults at the end.
+// Steps keep what is already there: a team server can report an older version
+// than its data really has (written by a client that was behind), and its
+// settings must not be reset.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (doc) => {
+    const { participants, settings } = asRecord(doc);
+    const workspace = workspaceFromLegacy(participants, settings);
+    return { activeGroupId: workspace.activeGroupId, groups: workspace.groups };
+  },
+  2: (doc) => {
+    const current = asRecord(doc);
+    return { ...current, ledger: Array.isArray(current.ledger) ? current.ledger : [] };
+  },
+  3: (doc) => {
+    const current = asRecord(doc);
+    return { ...current, messaging: current.messaging ?? createDefaultMessaging() };
+  },
+  4: (doc) => {
+    const current = asRecord(doc);
+    return { ...current, fields: current.fields ?? createDefaultFields() };
+  }
+};
+
+export class SchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`Os dados foram salvos por uma versão mais nova do app (schema ${version}).`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const migrateDocument = (doc: unknown, fromVersion: number): Workspace => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) throw new SchemaVersionError(fromVersion);
+
+  let current = doc;
+  for (let version = fromVersion + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version](current);
+  }
+
+  const workspace = normalizeWorkspace(current);
+  if (!workspace) throw new Error("Documento do workspace inválido após a migração.");
+  return workspace;
+};
+
+// A corrupt blob is logged and treated as absent, so it can't block the app from starting.
+const readStoredJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Ignoring unreadable localStorage key "${key}"`, e);
+    return null;
+  }
+};
+
+// The localStorage layouts used before IndexedDB, newest first.
+export const readLocalStorageDocument = (): { doc: unknown; version: number } | null => {
+  const workspace = readStoredJson('hubx_strategy_workspace');
+  if (workspace) {
+    return { doc: workspace, version: isRecord(workspace) && Array.isArray(workspace.ledger) ? 2 : 1 };
+  }
+
+  const participants = readStoredJson('hubx_strategy_data');
+  if (participants) {
+    return { doc: { participants, settings: readStoredJson('hubx_strategy_settings') }, version: 0 };
+  }
+
+  return null;
+};
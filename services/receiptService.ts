@@ -0,0 +1,90 @@
+import { CohortSettings, Participant } from "../types";
+import { getPeriodLabel } from "../utils/cohort";
+import { formatBRL, getAmountPaid } from "../utils/finance";
+
+export interface ReceiptData {
+  number: number;
+  issuedAt: string; // ISO timestamp
+  participant: Participant;
+  groupName: string;
+  cohort: CohortSettings;
+  periodIndexes: number[];
+  // Who received the money, from the Pix settings; may be empty.
+  beneficiary: string;
+  operator: string;
+}
+
+export const getReceiptAmount = (participant: Participant, cohort: CohortSettings, periodIndexes: number[]) =>
+  periodIndexes.reduce((total, i) => total + getAmountPaid(participant, cohort, i), 0);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('pt-BR', { day: '2-digit', month: 'long', year: 'numeric' });
+
+const buildReceiptHtml = (receipt: ReceiptData) => {
+  const { participant, cohort } = receipt;
+  const payer = escapeHtml(participant.name || participant.whatsapp || 'Participante');
+  const total = getReceiptAmount(participant, cohort, receipt.periodIndexes);
+  const rows = receipt.periodIndexes
+    .map(i => `<tr><td>${escapeHtml(getPeriodLabel(cohort, i))}</td><td class="amount">${formatBRL(getAmountPaid(participant, cohort, i))}</td></tr>`)
+    .join('');
+  const number = String(receipt.number).padStart(4, '0');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Recibo nº ${number}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 640px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0; }
+  .header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #7c3aed; padding-bottom: 12px; margin-bottom: 24px; }
+  .number { font-size: 18px; font-weight: 700; color: #7c3aed; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  td { padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
+  .amount { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 700; border-bottom: none; }
+  .signature { margin-top: 64px; text-align: center; }
+  .signature div { border-top: 1px solid #64748b; width: 280px; margin: 0 auto; padding-top: 6px; font-size: 13px; color: #475569; }
+  .footer { margin-top: 32px; font-size: 11px; color: #94a3b8; text-align: center; }
+</style>
+</head>
+<body>
+  <div class="header"><h1>Recibo de pagamento</h1><span class="number">Nº ${number}</span></div>
+  <p>Recebemos de <strong>${payer}</strong> a quantia de <strong>${formatBRL(total)}</strong>,
+  referente a ${receipt.periodIndexes.length === 1 ? 'um período' : `${receipt.periodIndexes.length} períodos`} da turma <strong>${escapeHtml(receipt.groupName)}</strong>:</p>
+  <table>
+    ${rows}
+    <tr class="total"><td>Total</td><td class="amount">${formatBRL(total)}</td></tr>
+  </table>
+  <p>${formatDate(receipt.issuedAt)}</p>
+  <div class="signature"><div>${escapeHtml(receipt.beneficiary || 'Responsável')}</div></div>
+  <p class="footer">Emitido por ${escapeHtml(receipt.operator || '—')} em ${new Date(receipt.issuedAt).toLocaleString('pt-BR')}</p>
+</body>
+</html>`;
+};
+
+// Prints through a hidden frame, so no popup is needed; the print dialog also
+// offers "Salvar como PDF".
+export const printReceipt = (receipt: ReceiptData) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    throw new Error('Print frame unavailable');
+  }
+  doc.open();
+  doc.write(buildReceiptHtml(receipt));
+  doc.close();
+  win.addEventListener('afterprint', () => frame.remove());
+  win.focus();
+  win.print();
+};
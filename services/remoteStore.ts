@@ -0,0 +1,521 @@
+import { FieldSettings, Group, MessagingSettings, Participant, Workspace } from "../types";
+import {
+  ChangeResult,
+  ChangeSet,
+  DeletedRow,
+  FieldsRow,
+  GroupChange,
+  GroupData,
+  MessagingRow,
+  ParticipantChange,
+  RemoteDocument,
+  WorkspaceUpload,
+  isDeletedRow,
+  toDocument
+} from "./apiProtocol";
+import { OfflineError, apiRequest } from "./apiClient";
+import { CURRENT_SCHEMA_VERSION, migrateDocument } from "./migrations";
+import { LoadResult, LocalWorkspaceStore, SyncStatus, WorkspaceStore } from "./storageService";
+import { mergeFields } from "../utils/merge";
+
+// Rows someone else changed while this browser was editing them: the server's
+// copy with this browser's edits merged in field by field.
+export interface RemoteChanges {
+  groups: GroupChange[];
+  participants: ParticipantChange[];
+  messaging?: MessagingSettings;
+  fields?: FieldSettings;
+}
+
+export class WorkspaceConflictError extends Error {
+  // `conflicts` counts the fields both sides changed, where the server's value was kept.
+  constructor(public readonly changes: RemoteChanges, public readonly conflicts: number) {
+    super(conflicts > 0
+      ? `${conflicts} campo(s) também foram alterados por outra pessoa; a versão do servidor foi mantida.`
+      : "Edições de outra pessoa foram combinadas com as suas.");
+    this.name = 'WorkspaceConflictError';
+  }
+}
+
+interface RowState {
+  json: string;
+  position: number;
+  version: number;
+}
+
+interface ParticipantState extends RowState {
+  groupId: string;
+}
+
+// What the server holds as far as this client knows: the last sent or received
+// copy of each row and its version. Saves send the difference from it.
+interface Synced {
+  groups: Map<string, RowState>;
+  participants: Map<string, ParticipantState>;
+  ledgerIds: Set<string>;
+  messaging: { json: string; version: number } | null;
+  fields: { json: string; version: number } | null;
+}
+
+// Synced as kept in the browser, so edits made offline can still be sent (and
+// merged) after a reload.
+interface StoredSync {
+  schemaVersion: number;
+  groups: [string, RowState][];
+  participants: [string, ParticipantState][];
+  ledgerIds: string[];
+  messaging: Synced['messaging'];
+  fields: Synced['fields'];
+}
+
+const emptySynced = (): Synced => ({ groups: new Map(), participants: new Map(), ledgerIds: new Set(), messaging: null, fields: null });
+
+const toStoredSync = (synced: Synced): StoredSync => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  groups: [...synced.groups],
+  participants: [...synced.participants],
+  ledgerIds: [...synced.ledgerIds],
+  messaging: synced.messaging,
+  fields: synced.fields
+});
+
+// Null when nothing usable was stored, e.g. before the first sync or after a schema change.
+const fromStoredSync = (stored: unknown): Synced | null => {
+  const value = stored as StoredSync | null;
+  if (!value || value.schemaVersion !== CURRENT_SCHEMA_VERSION) return null;
+  return {
+    groups: new Map(value.groups),
+    participants: new Map(value.participants),
+    ledgerIds: new Set(value.ledgerIds),
+    messaging: value.messaging,
+    fields: value.fields
+  };
+};
+
+const toGroupData = ({ participants, ...group }: Group): GroupData => group;
+
+// Rows are immutable in the app, so each object is serialized once.
+const jsonCache = new WeakMap<object, string>();
+const toJson = (key: object, value: unknown = key) => {
+  let json = jsonCache.get(key);
+  if (json === undefined) {
+    json = JSON.stringify(value);
+    jsonCache.set(key, json);
+  }
+  return json;
+};
+
+const syncedFromDocument = (doc: RemoteDocument): Synced => ({
+  groups: new Map(doc.groups.map(row => [row.id, { json: JSON.stringify(row.data), position: row.position, version: row.version }])),
+  participants: new Map(doc.participants.map(row => [
+    row.id,
+    { json: JSON.stringify(row.data), position: row.position, version: row.version, groupId: row.groupId }
+  ])),
+  ledgerIds: new Set(doc.ledger.map(e => e.id)),
+  messaging: doc.messaging ? { json: JSON.stringify(doc.messaging.data), version: doc.messaging.version } : null,
+  fields: doc.fields ? { json: JSON.stringify(doc.fields.data), version: doc.fields.version } : null
+});
+
+const diffWorkspace = (synced: Synced, workspace: Workspace) => {
+  const changes: ChangeSet = { schemaVersion: CURRENT_SCHEMA_VERSION, groups: [], participants: [], ledger: [] };
+  const next: Synced = { groups: new Map(), participants: new Map(), ledgerIds: new Set(synced.ledgerIds), messaging: synced.messaging, fields: synced.fields };
+
+  workspace.groups.forEach((group, position) => {
+    const data = toGroupData(group);
+    const json = toJson(group, data);
+    const old = synced.groups.get(group.id);
+    const version = old?.version ?? 0;
+    if (!old || old.json !== json || old.position !== position) {
+      changes.groups.push({ id: group.id, version, position, data });
+    }
+    next.groups.set(group.id, { json, position, version });
+
+    group.participants.forEach((participant, index) => {
+      const participantJson = toJson(participant);
+      const previous = synced.participants.get(participant.id);
+      const participantVersion = previous?.version ?? 0;
+      if (!previous || previous.json !== participantJson || previous.position !== index || previous.groupId !== group.id) {
+        changes.participants.push({ id: participant.id, version: participantVersion, groupId: group.id, position: index, data: participant });
+      }
+      next.participants.set(participant.id, { json: participantJson, position: index, version: participantVersion, groupId: group.id });
+    });
+  });
+
+  synced.groups.forEach((old, id) => {
+    if (!next.groups.has(id)) changes.groups.push({ id, version: old.version, deleted: true });
+  });
+  synced.participants.forEach((old, id) => {
+    if (!next.participants.has(id)) changes.participants.push({ id, version: old.version, deleted: true });
+  });
+
+  workspace.ledger.forEach(event => {
+    if (!synced.ledgerIds.has(event.id)) {
+      changes.ledger.push(event);
+      next.ledgerIds.add(event.id);
+    }
+  });
+
+  const messagingJson = toJson(workspace.messaging);
+  if (messagingJson !== synced.messaging?.json) {
+    const version = synced.messaging?.version ?? 0;
+    changes.messaging = { version, data: workspace.messaging };
+    next.messaging = { json: messagingJson, version };
+  }
+
+  const fieldsJson = toJson(workspace.fields);
+  if (fieldsJson !== synced.fields?.json) {
+    const version = synced.fields?.version ?? 0;
+    changes.fields = { version, data: workspace.fields };
+    next.fields = { json: fieldsJson, version };
+  }
+
+  const isEmpty = !changes.groups.length && !changes.participants.length && !changes.ledger.length && !changes.messaging && !changes.fields;
+  return { changes: isEmpty ? null : changes, next };
+};
+
+const countChanges = (changes: ChangeSet | null) =>
+  changes ? changes.groups.length + changes.participants.length + changes.ledger.length + (changes.messaging ? 1 : 0) + (changes.fields ? 1 : 0) : 0;
+
+const deletedRow = (id: string, version: number): DeletedRow => ({ id, version, deleted: true });
+
+interface Resolved<T> {
+  row: T;
+  conflicts: number;
+}
+
+// Our change to a group against the server's copy (`theirs`), given the copy
+// both started from. A deletion stands only if they did not edit the row, and
+// an edit to a row they deleted is dropped.
+const resolveGroup = (base: RowState | undefined, ours: GroupChange, theirs: GroupChange): Resolved<GroupChange> => {
+  if (isDeletedRow(ours)) {
+    if (isDeletedRow(theirs)) return { row: theirs, conflicts: 0 };
+    if (base && base.json === JSON.stringify(theirs.data)) return { row: deletedRow(ours.id, theirs.version), conflicts: 0 };
+    return { row: theirs, conflicts: 1 };
+  }
+  if (isDeletedRow(theirs)) {
+    if (!base) return { row: ours, conflicts: 0 };
+    return { row: theirs, conflicts: base.json === JSON.stringify(ours.data) ? 0 : 1 };
+  }
+  const { value, conflicts } = mergeFields<GroupData>(base && JSON.parse(base.json), ours.data, theirs.data);
+  const position = base && ours.position !== base.position ? ours.position : theirs.position;
+  return { row: { id: ours.id, version: theirs.version, position, data: value }, conflicts };
+};
+
+const resolveParticipant = (
+  base: ParticipantState | undefined,
+  ours: ParticipantChange,
+  theirs: ParticipantChange
+): Resolved<ParticipantChange> => {
+  if (isDeletedRow(ours)) {
+    if (isDeletedRow(theirs)) return { row: theirs, conflicts: 0 };
+    if (base && base.json === JSON.stringify(theirs.data)) return { row: deletedRow(ours.id, theirs.version), conflicts: 0 };
+    return { row: theirs, conflicts: 1 };
+  }
+  if (isDeletedRow(theirs)) {
+    if (!base) return { row: ours, conflicts: 0 };
+    return { row: theirs, conflicts: base.json === JSON.stringify(ours.data) ? 0 : 1 };
+  }
+  const { value, conflicts } = mergeFields<Participant>(base && JSON.parse(base.json), ours.data, theirs.data);
+  // Moving a row is ours if we moved it, otherwise it stays where they have it.
+  const moved = !!base && (ours.groupId !== base.groupId || ours.position !== base.position);
+  return {
+    row: {
+      id: ours.id,
+      version: theirs.version,
+      groupId: moved ? ours.groupId : theirs.groupId,
+      position: moved ? ours.position : theirs.position,
+      data: value
+    },
+    conflicts
+  };
+};
+
+// Resolves every change against the server's rows, looked up by id (missing
+// means deleted). Returns what the app should take in place of its own rows.
+const resolveChanges = (
+  base: Synced,
+  changes: ChangeSet,
+  theirGroup: (id: string) => GroupChange,
+  theirParticipant: (id: string) => ParticipantChange,
+  theirMessaging: MessagingRow | null,
+  theirFields: FieldsRow | null
+) => {
+  let conflicts = 0;
+  const track = <T>(resolved: Resolved<T>) => {
+    conflicts += resolved.conflicts;
+    return resolved.row;
+  };
+  const remote: RemoteChanges = {
+    groups: changes.groups.map(c => track(resolveGroup(base.groups.get(c.id), c, theirGroup(c.id)))),
+    participants: changes.participants.map(c => track(resolveParticipant(base.participants.get(c.id), c, theirParticipant(c.id))))
+  };
+  if (changes.messaging && theirMessaging) {
+    const merged = mergeFields(base.messaging ? JSON.parse(base.messaging.json) : undefined, changes.messaging.data, theirMessaging.data);
+    conflicts += merged.conflicts;
+    remote.messaging = merged.value;
+  } else if (changes.messaging) {
+    remote.messaging = changes.messaging.data;
+  }
+  if (changes.fields && theirFields) {
+    const merged = mergeFields(base.fields ? JSON.parse(base.fields.json) : undefined, changes.fields.data, theirFields.data);
+    conflicts += merged.conflicts;
+    remote.fields = merged.value;
+  } else if (changes.fields) {
+    remote.fields = changes.fields.data;
+  }
+  return { remote, conflicts };
+};
+
+// Takes the new versions into `next`, and the server's copy for conflicting rows.
+// Those rows come back merged with our edits; the app takes them in and the next
+// save sends what is still ours.
+const applyResult = (base: Synced, changes: ChangeSet, next: Synced, result: ChangeResult) => {
+  Object.entries(result.versions.groups).forEach(([id, version]) => {
+    const row = next.groups.get(id);
+    if (row) row.version = version;
+  });
+  Object.entries(result.versions.participants).forEach(([id, version]) => {
+    const row = next.participants.get(id);
+    if (row) row.version = version;
+  });
+  if (next.messaging && result.versions.messaging !== undefined) next.messaging.version = result.versions.messaging;
+  if (next.fields && result.versions.fields !== undefined) next.fields.version = result.versions.fields;
+
+  const { conflicts } = result;
+  conflicts.groups.forEach(row => {
+    if (isDeletedRow(row)) next.groups.delete(row.id);
+    else next.groups.set(row.id, { json: JSON.stringify(row.data), position: row.position, version: row.version });
+  });
+  conflicts.participants.forEach(row => {
+    if (isDeletedRow(row)) next.participants.delete(row.id);
+    else next.participants.set(row.id, { json: JSON.stringify(row.data), position: row.position, version: row.version, groupId: row.groupId });
+  });
+  if (conflicts.messaging) {
+    next.messaging = { json: JSON.stringify(conflicts.messaging.data), version: conflicts.messaging.version };
+  }
+
+  if (conflicts.fields) {
+    next.fields = { json: JSON.stringify(conflicts.fields.data), version: conflicts.fields.version };
+  }
+
+  if (!conflicts.groups.length && !conflicts.participants.length && !conflicts.messaging && !conflicts.fields) return null;
+  const theirGroups = new Map(conflicts.groups.map(row => [row.id, row]));
+  const theirParticipants = new Map(conflicts.participants.map(row => [row.id, row]));
+  return resolveChanges(
+    base,
+    {
+      ...changes,
+      groups: changes.groups.filter(c => theirGroups.has(c.id)),
+      participants: changes.participants.filter(c => theirParticipants.has(c.id)),
+      messaging: conflicts.messaging ? changes.messaging : undefined,
+      fields: conflicts.fields ? changes.fields : undefined
+    },
+    id => theirGroups.get(id)!,
+    id => theirParticipants.get(id)!,
+    conflicts.messaging ?? null,
+    conflicts.fields ?? null
+  );
+};
+
+// Puts the server's rows from a conflict into the app's groups, leaving every
+// other row (including edits made while the save was in flight) as it is.
+export const applyRemoteChanges = (groups: Group[], changes: RemoteChanges): Group[] => {
+  let next = groups;
+
+  changes.groups.forEach(row => {
+    if (isDeletedRow(row)) {
+      next = next.filter(g => g.id !== row.id);
+    } else if (next.some(g => g.id === row.id)) {
+      next = next.map(g => g.id === row.id ? { ...row.data, participants: g.participants } : g);
+    } else {
+      next = [...next];
+      next.splice(Math.min(row.position, next.length), 0, { ...row.data, participants: [] });
+    }
+  });
+
+  changes.participants.forEach(row => {
+    next = next.map(g => g.participants.some(p => p.id === row.id)
+      ? { ...g, participants: g.participants.filter(p => p.id !== row.id) }
+      : g);
+    if (isDeletedRow(row)) return;
+    next = next.map(g => {
+      if (g.id !== row.groupId) return g;
+      const participants = [...g.participants];
+      participants.splice(Math.min(row.position, participants.length), 0, row.data);
+      return { ...g, participants };
+    });
+  });
+
+  return next;
+};
+
+// Edits this browser made since `base`, possibly offline, replayed on top of
+// the server's current workspace.
+const rebase = (base: Synced, local: Workspace, remote: RemoteDocument, workspace: Workspace) => {
+  const { changes } = diffWorkspace(base, local);
+  if (!changes) return { workspace, conflicts: 0 };
+  const groups = new Map(remote.groups.map(row => [row.id, row]));
+  const participants = new Map(remote.participants.map(row => [row.id, row]));
+  const { remote: resolved, conflicts } = resolveChanges(
+    base,
+    changes,
+    id => groups.get(id) ?? deletedRow(id, 0),
+    id => participants.get(id) ?? deletedRow(id, 0),
+    remote.messaging,
+    remote.fields
+  );
+  const known = new Set(workspace.ledger.map(e => e.id));
+  const ledger = [...workspace.ledger, ...changes.ledger.filter(e => !known.has(e.id))]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return {
+    workspace: {
+      ...workspace,
+      groups: applyRemoteChanges(workspace.groups, resolved),
+      ledger,
+      messaging: resolved.messaging ?? workspace.messaging,
+      fields: resolved.fields ?? workspace.fields
+    },
+    conflicts
+  };
+};
+
+// Keeps the workspace on the team server (server/index.ts). The browser's own
+// store stays as a mirror: it seeds an empty server, remembers the open group,
+// keeps the daily snapshots, and holds edits made while the server is out of
+// reach until a later save gets them through.
+export const createRemoteWorkspaceStore = (local: LocalWorkspaceStore): WorkspaceStore => {
+  let synced = emptySynced();
+  let queue: Promise<unknown> = Promise.resolve();
+  // Same rule as the local store: no writes until the server's data was read.
+  let loaded = false;
+  let status: SyncStatus = { pending: 0, online: true, syncing: false };
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const setStatus = (changes: Partial<SyncStatus>) => {
+    status = { ...status, ...changes };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const subscribe = (listener: (status: SyncStatus) => void) => {
+    listeners.add(listener);
+    listener(status);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    const run = queue.then(() => {
+      if (!loaded) throw new Error("Os dados do servidor não puderam ser carregados; o salvamento está desativado.");
+      return task();
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  // A failing local copy should not fail a save the server accepted.
+  const mirror = (workspace: Workspace, full: boolean) =>
+    (full ? local.replace(workspace) : local.save(workspace))
+      .catch(e => console.error("Failed to update the local copy", e));
+
+  const setSynced = (next: Synced) => {
+    synced = next;
+    return local.writeSyncState(toStoredSync(next))
+      .catch(e => console.error("Failed to keep the sync state", e));
+  };
+
+  const upload = async (workspace: Workspace) => {
+    const body: WorkspaceUpload = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      groups: workspace.groups,
+      ledger: workspace.ledger,
+      messaging: workspace.messaging,
+      fields: workspace.fields
+    };
+    await setSynced(syncedFromDocument(await apiRequest<RemoteDocument>('/workspace', 'PUT', body)));
+  };
+
+  // Offline, the edits stay in the local copy and go out with the next save
+  // that reaches the server, as the difference from what it last confirmed.
+  const save = (workspace: Workspace) => enqueue(async () => {
+    await mirror(workspace, false);
+    const { changes, next } = diffWorkspace(synced, workspace);
+    setStatus({ pending: countChanges(changes) });
+    if (!changes) {
+      // Nothing to send, but a retry should still find out the server is back.
+      if (!status.online) {
+        await apiRequest('/auth/status').then(() => setStatus({ online: true }), () => undefined);
+      }
+      return;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      setStatus({ online: false });
+      return;
+    }
+
+    setStatus({ syncing: true });
+    let result: ChangeResult;
+    try {
+      result = await apiRequest<ChangeResult>('/changes', 'POST', changes);
+    } catch (e) {
+      setStatus({ syncing: false, online: !(e instanceof OfflineError) });
+      if (e instanceof OfflineError) return;
+      throw e;
+    }
+    const resolved = applyResult(synced, changes, next, result);
+    await setSynced(next);
+    setStatus({ pending: 0, online: true, syncing: false });
+    if (resolved) throw new WorkspaceConflictError(resolved.remote, resolved.conflicts);
+  });
+
+  const replace = (workspace: Workspace) => enqueue(async () => {
+    await upload(workspace);
+    await mirror(workspace, true);
+  });
+
+  const load = async (): Promise<LoadResult> => {
+    const localResult = await local.load().catch(e => {
+      console.error("Failed to load the local copy", e);
+      return null;
+    });
+    const base = fromStoredSync(await local.readSyncState().catch(e => {
+      console.error("Failed to read the sync state", e);
+      return null;
+    }));
+
+    let remote: RemoteDocument;
+    try {
+      remote = await apiRequest<RemoteDocument>('/workspace');
+    } catch (e) {
+      // Without the server, work from the local copy if it was synced before.
+      if (!(e instanceof OfflineError) || !localResult || !base) throw e;
+      synced = base;
+      loaded = true;
+      setStatus({ online: false, pending: countChanges(diffWorkspace(base, localResult.workspace).changes) });
+      return { workspace: localResult.workspace, importedFromLocalStorage: false };
+    }
+    // The server migrates its own copy when it starts, so an older document
+    // means the server runs an older build and would refuse this one's writes.
+    if (remote.schemaVersion !== null && remote.schemaVersion < CURRENT_SCHEMA_VERSION) {
+      throw new Error("O servidor está com uma versão mais antiga do app. Atualize o servidor para continuar.");
+    }
+    loaded = true;
+    setStatus({ online: true });
+
+    if (remote.schemaVersion === null) {
+      // Empty server: this browser's data becomes the team's.
+      const workspace = localResult?.workspace ?? migrateDocument(null, 0);
+      await replace(workspace);
+      return { workspace, importedFromLocalStorage: localResult?.importedFromLocalStorage ?? false };
+    }
+
+    const workspace = migrateDocument(toDocument(remote, localResult?.workspace.activeGroupId ?? ''), remote.schemaVersion);
+    await setSynced(syncedFromDocument(remote));
+    // Edits that never reached the server before the last session ended.
+    const rebased = base && localResult ? rebase(base, localResult.workspace, remote, workspace) : { workspace, conflicts: 0 };
+    await mirror(rebased.workspace, false);
+    return { workspace: rebased.workspace, importedFromLocalStorage: false, conflicts: rebased.conflicts };
+  };
+
+  return { load, save, replace, listSnapshots: local.listSnapshots, subscribe };
+};
@@ -0,0 +1,155 @@
+import { StatementEntry } from "../types";
+import { parseBRL } from "../utils/finance";
+import { UnknownRecord, isRecord } from "../utils/guards";
+import { parseCsv } from "./importService";
+
+// Entries waiting for review, and the ones set aside so a new upload of the same
+// statement doesn't bring them back. Per browser, like the AI settings: bank data
+// never goes into the shared workspace.
+export interface StatementQueue {
+  pending: StatementEntry[];
+  ignored: string[];
+}
+
+const STATEMENT_QUEUE_STORAGE_KEY = 'hubx_statement_queue';
+// Statements overlap by a few weeks at most, so old ignored ids can go.
+const MAX_IGNORED = 2000;
+
+// "2024-01-15", "20240115120000[-3:BRT]", "15/01/2024", "15/01/24".
+const parseStatementDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/);
+  if (br) return `${br[3].length === 2 ? `20${br[3]}` : br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  return null;
+};
+
+// Signed centavos from "-1.234,56", "150.00", "R$ 50,00 D" or "(50,00)".
+const parseSignedAmount = (value: string): number | null => {
+  const text = value.trim();
+  const cents = parseBRL(text.replace(/-/g, ''));
+  if (cents === null) return null;
+  const negative = text.includes('-') || /\bD$/i.test(text) || /^\(.*\)$/.test(text);
+  return negative ? -cents : cents;
+};
+
+const normalizeLabel = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+
+// Entries without a bank id get one from their content; the counter keeps two
+// identical payments on the same day apart.
+const withIds = (entries: (Omit<StatementEntry, 'id'> & { id?: string })[]): StatementEntry[] => {
+  const seen = new Map<string, number>();
+  return entries.map(entry => {
+    if (entry.id) return { ...entry, id: entry.id };
+    const key = `${entry.date}|${entry.amount}|${normalizeLabel(entry.description)}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return { ...entry, id: `${key}|${count}` };
+  });
+};
+
+const ofxField = (block: string, tag: string) =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() ?? '';
+
+// OFX 1.x is SGML without closing tags, 2.x is XML; reading each field up to
+// the next tag or line break covers both.
+export const parseOfx = (text: string): StatementEntry[] => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  return withIds(blocks.flatMap(block => {
+    const date = parseStatementDate(ofxField(block, 'DTPOSTED'));
+    const amount = parseSignedAmount(ofxField(block, 'TRNAMT'));
+    if (!date || amount === null || amount <= 0) return [];
+    const fitId = ofxField(block, 'FITID');
+    const description = [ofxField(block, 'NAME'), ofxField(block, 'MEMO')].filter(Boolean).join(' ');
+    return [{ id: fitId ? `ofx:${fitId}` : undefined, date, amount, description }];
+  }));
+};
+
+const findColumn = (headers: string[], pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+
+// The usual bank exports: Nubank (Data, Valor, Identificador, Descrição), Inter
+// (Data Lançamento; Histórico; Descrição; Valor; Saldo), Itaú (data; lançamento;
+// valor), Banco do Brasil and Caixa (separate credit/debit or type columns).
+export const parseStatementCsv = (text: string): StatementEntry[] => {
+  const table = parseCsv(text);
+  // Some banks put account details above the header row.
+  const headerIndex = table.slice(0, 15).findIndex(row => {
+    const labels = row.map(normalizeLabel);
+    return labels.some(l => /^(data|date)/.test(l)) && labels.some(l => /^(valor|amount|credito|entrada)/.test(l));
+  });
+  if (headerIndex === -1) throw new Error("Não encontramos as colunas de data e valor no extrato.");
+
+  const headers = table[headerIndex].map(normalizeLabel);
+  const dateColumn = findColumn(headers, /^(data|date)/);
+  const creditColumn = findColumn(headers, /^(credito|entrada)/);
+  const amountColumn = findColumn(headers, /^(valor|amount|quantia)/);
+  const typeColumn = findColumn(headers, /^tipo/);
+  const idColumn = findColumn(headers, /^(identificador|id|fitid)$|documento/);
+  const skip = [dateColumn, creditColumn, amountColumn, typeColumn, idColumn];
+  const descriptionColumns = headers
+    .map((header, i) => (!skip.includes(i) && /descri|historico|lancamento|detalhe|memo|titulo|title|nome|favorecido|origem/.test(header) ? i : -1))
+    .filter(i => i >= 0);
+
+  return withIds(table.slice(headerIndex + 1).flatMap(row => {
+    const date = parseStatementDate(row[dateColumn] ?? '');
+    const description = descriptionColumns.map(i => (row[i] ?? '').trim()).filter(Boolean).join(' ');
+    let amount = parseSignedAmount(row[creditColumn >= 0 ? creditColumn : amountColumn] ?? '');
+    if (amount !== null && typeColumn >= 0 && /^(d|debito|saida)/.test(normalizeLabel(row[typeColumn] ?? ''))) amount = -Math.abs(amount);
+    if (!date || amount === null || amount <= 0 || /^saldo/i.test(description)) return [];
+    const id = idColumn >= 0 && row[idColumn]?.trim() ? `csv:${row[idColumn].trim()}` : undefined;
+    return [{ id, date, amount, description }];
+  }));
+};
+
+// Older bank exports are often Windows-1252 rather than UTF-8.
+const decodeText = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+// Only credits are kept: money coming in is what can settle a period.
+export const parseStatementFile = async (file: File): Promise<StatementEntry[]> => {
+  const text = decodeText(await file.arrayBuffer()).replace(/^\uFEFF/, '');
+  const entries = /\.ofx$/i.test(file.name) || /<OFX>/i.test(text) ? parseOfx(text) : parseStatementCsv(text);
+  if (entries.length === 0) throw new Error("Nenhum crédito encontrado no extrato.");
+  return entries;
+};
+
+const isStatementEntry = (value: unknown): value is StatementEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.date === 'string' &&
+  typeof value.description === 'string' && typeof value.amount === 'number' && Number.isFinite(value.amount);
+
+export const loadStatementQueue = (): StatementQueue => {
+  let saved: UnknownRecord = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STATEMENT_QUEUE_STORAGE_KEY) ?? 'null');
+    if (isRecord(parsed)) saved = parsed;
+  } catch (e) {
+    console.error("Failed to load statement queue", e);
+  }
+  return {
+    pending: Array.isArray(saved.pending) ? saved.pending.filter(isStatementEntry) : [],
+    ignored: Array.isArray(saved.ignored) ? saved.ignored.filter((id: unknown): id is string => typeof id === 'string') : []
+  };
+};
+
+export const saveStatementQueue = (queue: StatementQueue) => {
+  localStorage.setItem(STATEMENT_QUEUE_STORAGE_KEY, JSON.stringify({ ...queue, ignored: queue.ignored.slice(-MAX_IGNORED) }));
+};
+
+// Adds what is new in `entries`: not queued, not ignored and not already a
+// payment (`reconciled` holds the references of recorded payments).
+export const enqueueStatement = (queue: StatementQueue, entries: StatementEntry[], reconciled: Set<string>) => {
+  const known = new Set([...queue.pending.map(e => e.id), ...queue.ignored, ...reconciled]);
+  const added = entries.filter(e => !known.has(e.id));
+  return {
+    queue: { ...queue, pending: [...queue.pending, ...added].sort((a, b) => a.date.localeCompare(b.date)) },
+    added: added.length,
+    skipped: entries.length - added.length
+  };
+};
@@ -0,0 +1,383 @@
+import { FieldSettings, Group, LedgerEvent, MessagingSettings, Participant, Workspace } from "../types";
+import { CURRENT_SCHEMA_VERSION, migrateDocument, readLocalStorageDocument } from "./migrations";
+import { toIsoDate } from "../utils/cohort";
+
+const DB_NAME = 'hubx_strategy';
+// IndexedDB's own version only tracks object stores and indexes; the document
+// shape is versioned separately by CURRENT_SCHEMA_VERSION in the meta store.
+//   1 - meta, groups, participants, ledger
+//   2 - snapshots
+//   3 - sync (the team server's state as last seen, see remoteStore)
+const DB_VERSION = 3;
+
+const STORES = {
+  meta: 'meta',
+  groups: 'groups',
+  participants: 'participants',
+  ledger: 'ledger'
+} as const;
+
+// Kept apart from STORES: snapshots are not part of the workspace document.
+const SNAPSHOT_STORE = 'snapshots';
+const SNAPSHOT_LIMIT = 10;
+const SYNC_STORE = 'sync';
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+type GroupRecord = Omit<Group, 'participants'> & { position: number };
+
+interface ParticipantRecord {
+  id: string;
+  groupId: string;
+  position: number;
+  participant: Participant;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transação abortada."));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB não está disponível neste navegador."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.meta, { keyPath: 'key' });
+        db.createObjectStore(STORES.groups, { keyPath: 'id' });
+        const participants = db.createObjectStore(STORES.participants, { keyPath: 'id' });
+        participants.createIndex('groupId', 'groupId');
+        const ledger = db.createObjectStore(STORES.ledger, { keyPath: 'id' });
+        ledger.createIndex('participantId', 'participantId');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(SYNC_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("O banco de dados está aberto em outra aba com uma versão antiga."));
+  });
+
+const readDocument = async (db: IDBDatabase) => {
+  const tx = db.transaction(Object.values(STORES), 'readonly');
+  const [meta, groups, participants, ledger] = await Promise.all([
+    requestToPromise(tx.objectStore(STORES.meta).getAll() as IDBRequest<MetaRecord[]>),
+    requestToPromise(tx.objectStore(STORES.groups).getAll() as IDBRequest<GroupRecord[]>),
+    requestToPromise(tx.objectStore(STORES.participants).getAll() as IDBRequest<ParticipantRecord[]>),
+    requestToPromise(tx.objectStore(STORES.ledger).getAll() as IDBRequest<LedgerEvent[]>)
+  ]);
+
+  const metaValue = (key: string) => meta.find(m => m.key === key)?.value;
+  const version = metaValue('schemaVersion');
+  if (typeof version !== 'number') return null;
+
+  const byGroup = new Map<string, ParticipantRecord[]>();
+  participants.forEach(record => {
+    const list = byGroup.get(record.groupId) ?? [];
+    list.push(record);
+    byGroup.set(record.groupId, list);
+  });
+
+  const doc = {
+    activeGroupId: metaValue('activeGroupId'),
+    groups: [...groups]
+      .sort((a, b) => a.position - b.position)
+      .map(({ position, ...group }) => ({
+        ...group,
+        participants: (byGroup.get(group.id) ?? [])
+          .sort((a, b) => a.position - b.position)
+          .map(r => r.participant)
+      })),
+    ledger: [...ledger].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    messaging: metaValue('messaging'),
+    fields: metaValue('fields')
+  };
+
+  return { doc, version };
+};
+
+// What was last written successfully, used to only write what changed.
+// Participants and groups are immutable in the app, so reference equality is enough.
+interface Snapshot {
+  activeGroupId: string;
+  messaging: MessagingSettings | null;
+  fields: FieldSettings | null;
+  groups: Map<string, { group: Group; position: number }>;
+  participants: Map<string, { participant: Participant; groupId: string; position: number }>;
+  ledgerIds: Set<string>;
+}
+
+const emptySnapshot = (): Snapshot => ({
+  activeGroupId: '',
+  messaging: null,
+  fields: null,
+  groups: new Map(),
+  participants: new Map(),
+  ledgerIds: new Set()
+});
+
+const takeSnapshot = (workspace: Workspace): Snapshot => {
+  const snapshot = emptySnapshot();
+  snapshot.activeGroupId = workspace.activeGroupId;
+  snapshot.messaging = workspace.messaging;
+  snapshot.fields = workspace.fields;
+  workspace.groups.forEach((group, position) => {
+    snapshot.groups.set(group.id, { group, position });
+    group.participants.forEach((participant, index) => {
+      snapshot.participants.set(participant.id, { participant, groupId: group.id, position: index });
+    });
+  });
+  workspace.ledger.forEach(e => snapshot.ledgerIds.add(e.id));
+  return snapshot;
+};
+
+const toGroupRecord = (group: Group, position: number): GroupRecord => {
+  const { participants, ...rest } = group;
+  return { ...rest, position };
+};
+
+// Writes the difference from `previous`, or rewrites every store when it is null.
+const writeChanges = async (db: IDBDatabase, previous: Snapshot | null, workspace: Workspace) => {
+  const tx = db.transaction(Object.values(STORES), 'readwrite');
+  const done = transactionDone(tx);
+  const metaStore = tx.objectStore(STORES.meta);
+  const groupStore = tx.objectStore(STORES.groups);
+  const participantStore = tx.objectStore(STORES.participants);
+  const ledgerStore = tx.objectStore(STORES.ledger);
+
+  // The ledger is append-only, even across a restore: stored events stay and
+  // the new document's events are added next to them.
+  if (!previous) {
+    [metaStore, groupStore, participantStore].forEach(store => store.clear());
+    previous = emptySnapshot();
+  }
+
+  metaStore.put({ key: 'schemaVersion', value: CURRENT_SCHEMA_VERSION });
+  if (workspace.activeGroupId !== previous.activeGroupId) {
+    metaStore.put({ key: 'activeGroupId', value: workspace.activeGroupId });
+  }
+  if (workspace.messaging !== previous.messaging) {
+    metaStore.put({ key: 'messaging', value: workspace.messaging });
+  }
+  if (workspace.fields !== previous.fields) {
+    metaStore.put({ key: 'fields', value: workspace.fields });
+  }
+
+  const next = takeSnapshot(workspace);
+
+  next.groups.forEach(({ group, position }, id) => {
+    const old = previous.groups.get(id);
+    // Participant edits create a new group object too, so compare the group's own fields.
+    if (!old || old.position !== position || JSON.stringify(toGroupRecord(old.group, 0)) !== JSON.stringify(toGroupRecord(group, 0))) {
+      groupStore.put(toGroupRecord(group, position));
+    }
+  });
+  previous.groups.forEach((_, id) => {
+    if (!next.groups.has(id)) groupStore.delete(id);
+  });
+
+  next.participants.forEach((entry, id) => {
+    const old = previous.participants.get(id);
+    if (!old || old.participant !== entry.participant || old.groupId !== entry.groupId || old.position !== entry.position) {
+      participantStore.put({ id, ...entry });
+    }
+  });
+  previous.participants.forEach((_, id) => {
+    if (!next.participants.has(id)) participantStore.delete(id);
+  });
+
+  // Events are immutable and keyed by id, so `put` is safe for one that is already
+  // stored (re-sent after a rebase); `add` would abort the whole save.
+  workspace.ledger.forEach(event => {
+    if (!previous.ledgerIds.has(event.id)) ledgerStore.put(event);
+  });
+
+  await done;
+  return next;
+};
+
+export interface WorkspaceSnapshot {
+  // Local date (YYYY-MM-DD); one snapshot per day.
+  id: string;
+  createdAt: string;
+  schemaVersion: number;
+  workspace: Workspace;
+}
+
+// Stores today's snapshot unless there already is one, then drops the oldest
+// beyond SNAPSHOT_LIMIT. The first save of the day keeps the state as it started.
+const writeDailySnapshot = async (db: IDBDatabase, workspace: Workspace) => {
+  const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(SNAPSHOT_STORE);
+  const id = toIsoDate(new Date());
+
+  const existing = await requestToPromise(store.get(id));
+  if (!existing) {
+    const snapshot: WorkspaceSnapshot = { id, createdAt: new Date().toISOString(), schemaVersion: CURRENT_SCHEMA_VERSION, workspace };
+    store.put(snapshot);
+    const keys = (await requestToPromise(store.getAllKeys())).map(String).filter(key => key !== id).sort();
+    keys.slice(0, Math.max(0, keys.length + 1 - SNAPSHOT_LIMIT)).forEach(key => store.delete(key));
+  }
+
+  await done;
+  return id;
+};
+
+export interface LoadResult {
+  workspace: Workspace;
+  // Set when the data came from the old localStorage keys on this load.
+  importedFromLocalStorage: boolean;
+  // Fields where edits not yet synced lost to someone else's (team server only).
+  conflicts?: number;
+}
+
+export interface SyncStatus {
+  // Rows and events saved in this browser but not yet on the server.
+  pending: number;
+  // False while the server cannot be reached.
+  online: boolean;
+  syncing: boolean;
+}
+
+export interface WorkspaceStore {
+  load: () => Promise<LoadResult>;
+  save: (workspace: Workspace) => Promise<void>;
+  // Overwrites everything stored with `workspace`, e.g. when restoring a backup.
+  replace: (workspace: Workspace) => Promise<void>;
+  listSnapshots: () => Promise<WorkspaceSnapshot[]>;
+  // Only stores that sync with a server report their progress. The listener is
+  // called right away with the current status.
+  subscribe?: (listener: (status: SyncStatus) => void) => () => void;
+}
+
+// The browser's own store also keeps what the team store needs to work offline.
+export interface LocalWorkspaceStore extends WorkspaceStore {
+  readSyncState: () => Promise<unknown>;
+  writeSyncState: (state: unknown) => Promise<void>;
+}
+
+export const createWorkspaceStore = (): LocalWorkspaceStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let saved = emptySnapshot();
+  // Saves run one after another so each diff is taken against the previous write.
+  let queue: Promise<unknown> = Promise.resolve();
+  // Until a load succeeds the snapshot does not reflect the database, and a
+  // diff against it could write a fallback workspace over the real data.
+  let loaded = false;
+  let snapshotDay = '';
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  // A missing snapshot should not fail the save or load that triggered it.
+  const takeDailySnapshot = (db: IDBDatabase, workspace: Workspace) =>
+    writeDailySnapshot(db, workspace)
+      .then(id => { snapshotDay = id; })
+      .catch(e => console.error("Failed to write snapshot", e));
+
+  const enqueue = (workspace: Workspace, full: boolean) => {
+    const run = queue.then(async () => {
+      if (!loaded) throw new Error("Os dados salvos não puderam ser carregados; o salvamento está desativado.");
+      const db = await getDb();
+      saved = await writeChanges(db, full ? null : saved, workspace);
+      if (snapshotDay !== toIsoDate(new Date())) await takeDailySnapshot(db, workspace);
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const save = (workspace: Workspace) => enqueue(workspace, false);
+  const replace = (workspace: Workspace) => enqueue(workspace, true);
+
+  const listSnapshots = async () => {
+    const db = await getDb();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const snapshots = await requestToPromise(tx.objectStore(SNAPSHOT_STORE).getAll() as IDBRequest<WorkspaceSnapshot[]>);
+    return snapshots
+      .map(snapshot => ({
+        ...snapshot,
+        workspace: migrateDocument(snapshot.workspace, snapshot.schemaVersion),
+        schemaVersion: CURRENT_SCHEMA_VERSION
+      }))
+      .sort((a, b) => b.id.localeCompare(a.id));
+  };
+
+  const load = async (): Promise<LoadResult> => {
+    const db = await getDb();
+    const stored = await readDocument(db);
+
+    if (stored) {
+      const workspace = migrateDocument(stored.doc, stored.version);
+      loaded = true;
+      if (stored.version === CURRENT_SCHEMA_VERSION) {
+        saved = takeSnapshot(workspace);
+        await takeDailySnapshot(db, workspace);
+      } else {
+        // Migrated documents are rewritten in full at the new version.
+        await save(workspace);
+      }
+      return { workspace, importedFromLocalStorage: false };
+    }
+
+    // First run on IndexedDB: import the localStorage data once. The old keys are
+    // left in place as a fallback copy; the meta record stops a second import.
+    // An empty version 0 document migrates to a fresh "Turma 1".
+    // Data that parses but can't be migrated is left behind the same way.
+    const legacy = readLocalStorageDocument();
+    let workspace: Workspace;
+    let imported = !!legacy;
+    try {
+      workspace = migrateDocument(legacy?.doc ?? null, legacy?.version ?? 0);
+    } catch (e) {
+      console.error("Ignoring localStorage data that could not be migrated", e);
+      workspace = migrateDocument(null, 0);
+      imported = false;
+    }
+    loaded = true;
+    await save(workspace);
+    return { workspace, importedFromLocalStorage: imported };
+  };
+
+  const readSyncState = async () => {
+    const db = await getDb();
+    const tx = db.transaction(SYNC_STORE, 'readonly');
+    const record = await requestToPromise(tx.objectStore(SYNC_STORE).get('state') as IDBRequest<MetaRecord | undefined>);
+    return record?.value ?? null;
+  };
+
+  const writeSyncState = async (state: unknown) => {
+    const db = await getDb();
+    const tx = db.transaction(SYNC_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(SYNC_STORE).put({ key: 'state', value: state });
+    await done;
+  };
+
+  return { load, save, replace, listSnapshots, readSyncState, writeSyncState };
+};
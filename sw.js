@@ -0,0 +1,55 @@
+// Service worker for the installed app (see the serviceWorker plugin in
+// vite.config.ts, which fills in the two placeholders at build time).
+// The build's own files are cached on install, so the app opens without a
+// connection; the CDN scripts and fonts are cached the first time they load.
+// Anything else, such as the team server's API, goes straight to the network.
+
+const CACHE = 'hubx-__BUILD_VERSION__';
+const PRECACHE = __PRECACHE_FILES__;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith('hubx-') && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Answers from the cache right away and refreshes it in the background.
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached ?? network;
+};
+
+// Third-party files the page loads from a CDN (Tailwind, fonts).
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    // The app has a single page; the cached shell matches the cached bundle.
+    event.respondWith(caches.match('/index.html').then((cached) => cached ?? fetch(request)));
+  } else if (url.origin === self.location.origin && PRECACHE.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
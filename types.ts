@@ -6,13 +6,170 @@ export interface Participant {
   id: string;
   name: string;
   whatsapp: string;
-  weeks: [boolean, boolean, boolean, boolean, boolean]; // Fixed 5 weeks
+  weeks: boolean[]; // One entry per cohort period, see CohortSettings.periodCount
+  payments?: Payment[];
+  pricing?: PricingOverride;
+  deletedAt?: string; // ISO timestamp, set while the row sits in the trash
+  // Values of the workspace's custom fields by field id: numbers as "1234.5",
+  // dates as YYYY-MM-DD, select fields as the chosen option.
+  customFields?: Record<string, string>;
+  tags?: string[];
+  notes?: string;
 }
 
+export type PaymentMethod = 'pix' | 'transfer' | 'cash' | 'card';
+
+// Money is always stored in centavos to avoid floating point drift.
+export interface Payment {
+  id: string;
+  periodIndex: number;
+  amount: number; // centavos
+  date: string; // YYYY-MM-DD
+  method: PaymentMethod;
+  // Bank statement entry the payment was reconciled from, so it is never applied twice.
+  reference?: string;
+}
+
+// A credit read from a bank statement (OFX or CSV).
+export interface StatementEntry {
+  // The bank's transaction id when the file has one, otherwise derived from the entry.
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // centavos
+  description: string;
+}
+
+export type PricingKind = 'discount-percent' | 'fixed-price' | 'scholarship';
+
+export interface PricingOverride {
+  kind: PricingKind;
+  value: number; // percent for 'discount-percent', centavos for 'fixed-price', ignored for 'scholarship'
+}
+
+export type PeriodFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface CohortSettings {
+  periodCount: number;
+  startDate: string; // YYYY-MM-DD, first day of period 1
+  frequency: PeriodFrequency;
+  periodPrice: number; // centavos charged per period
+  dueOffsetDays: number; // days after the period start when payment is due
+  periodOverrides?: Record<number, PeriodOverride>;
+}
+
+export interface PeriodOverride {
+  price?: number; // centavos
+  dueDate?: string; // YYYY-MM-DD
+}
+
+// A turma: its own participants and cohort settings, isolated from the other groups.
+export interface Group {
+  id: string;
+  name: string;
+  archived: boolean;
+  createdAt: string; // ISO timestamp
+  settings: CohortSettings;
+  participants: Participant[];
+}
+
+export type MessageSituation = 'thanks' | 'reminder' | 'final-notice';
+
+// Reusable WhatsApp message with `{variable}` placeholders and `{se var}...{/se}` blocks.
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  situation: MessageSituation;
+  body: string;
+}
+
+export interface MessagingSettings {
+  templates: MessageTemplate[];
+  // Filled into `{link_pix}` when no Pix key is set.
+  pixLink: string;
+  pix: PixSettings;
+}
+
+export type PixKeyType = 'cpf' | 'cnpj' | 'phone' | 'email' | 'random';
+
+// The organizer's Pix key, used to generate "Pix Copia e Cola" codes and receipts.
+export interface PixSettings {
+  keyType: PixKeyType;
+  key: string;
+  beneficiary: string; // name shown to the payer
+  city: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+// A column the organizers add to every group's sheet (e-mail, cidade, indicação...).
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of a 'select' field
+}
+
+export type TagColor = 'slate' | 'rose' | 'amber' | 'emerald' | 'sky' | 'violet' | 'pink';
+
+export interface FieldSettings {
+  custom: CustomField[];
+  // Chosen color by lower-case tag; other tags get one from their name.
+  tagColors: Record<string, TagColor>;
+}
+
+export type UserRole = 'treasurer' | 'assistant' | 'viewer';
+
+// Account on the team server; the browser-only mode has no accounts.
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface Workspace {
+  activeGroupId: string;
+  groups: Group[];
+  ledger: LedgerEvent[];
+  messaging: MessagingSettings;
+  fields: FieldSettings;
+}
+
+export type LedgerEventType =
+  | 'mark-paid'
+  | 'unmark'
+  | 'payment-added'
+  | 'payment-removed'
+  | 'amount-change'
+  | 'note'
+  | 'contacted'
+  | 'receipt-issued'
+  | 'backup-restored';
+
+// Append-only record of everything that touched a participant's payments,
+// plus collection contacts.
+// Events are never edited or removed; corrections are new events.
+export interface LedgerEvent {
+  id: string;
+  participantId: string;
+  groupId: string;
+  type: LedgerEventType;
+  periodIndex?: number;
+  amount?: number; // centavos
+  paymentId?: string;
+  note?: string;
+  // Set on 'receipt-issued': the receipt number and the periods it covers.
+  receiptNumber?: number;
+  periodIndexes?: number[];
+  operator: string;
+  timestamp: string; // ISO timestamp
+}
+
+// Money values in centavos.
 export interface Stats {
   totalParticipants: number;
   totalPaid: number;
   totalPending: number;
+  totalOverdue: number;
   revenuePotential: number;
 }
 
@@ -0,0 +1,51 @@
+import { CohortSettings, LedgerEvent, Participant } from '../types';
+import { getCurrentPeriodIndex } from './cohort';
+import { getParticipantBalance } from './finance';
+import { isActiveParticipant } from './participant';
+
+export type CampaignRule = 'min-unpaid' | 'current-unpaid' | 'overdue' | 'everyone';
+
+export interface CampaignCriteria {
+  rule: CampaignRule;
+  // Only used by 'min-unpaid'.
+  minUnpaid: number;
+}
+
+export const CAMPAIGN_RULE_LABELS: Record<CampaignRule, string> = {
+  'min-unpaid': 'Com vários períodos em aberto',
+  'current-unpaid': 'Sem pagar o período atual',
+  'overdue': 'Com valor vencido',
+  'everyone': 'Todos, em dia ou não'
+};
+
+// Unpaid periods that have already started; future periods are not debts yet.
+export const countUnpaidToDate = (participant: Participant, cohort: CohortSettings, today = new Date()) => {
+  const current = getCurrentPeriodIndex(cohort, today);
+  return participant.weeks.slice(0, current + 1).filter(paid => !paid).length;
+};
+
+export const selectDebtors = (
+  participants: Participant[],
+  cohort: CohortSettings,
+  criteria: CampaignCriteria,
+  today = new Date()
+) => {
+  const current = getCurrentPeriodIndex(cohort, today);
+  return participants.filter(isActiveParticipant).filter(p => {
+    if (criteria.rule === 'everyone') return true;
+    if (criteria.rule === 'current-unpaid') return current >= 0 && !p.weeks[current];
+    if (criteria.rule === 'overdue') return getParticipantBalance(p, cohort, today).overdue > 0;
+    return countUnpaidToDate(p, cohort, today) >= Math.max(1, criteria.minUnpaid);
+  });
+};
+
+// Most recent 'contacted' event per participant.
+export const getLastContacts = (ledger: LedgerEvent[]) => {
+  const last = new Map<string, LedgerEvent>();
+  ledger.forEach(event => {
+    if (event.type !== 'contacted') return;
+    const previous = last.get(event.participantId);
+    if (!previous || previous.timestamp < event.timestamp) last.set(event.participantId, event);
+  });
+  return last;
+};
@@ -0,0 +1,113 @@
+import { CohortSettings, PeriodFrequency, PeriodOverride } from '../types';
+
+export const MIN_PERIODS = 1;
+export const MAX_PERIODS = 24;
+
+// Width of each period column, shared by the table header and SpreadsheetRow.
+export const PERIOD_COLUMN_WIDTH = 64;
+
+export const FREQUENCY_LABELS: Record<PeriodFrequency, { singular: string; plural: string; short: string }> = {
+  weekly: { singular: 'Semana', plural: 'Semanas', short: 'Sem' },
+  biweekly: { singular: 'Quinzena', plural: 'Quinzenas', short: 'Qnz' },
+  monthly: { singular: 'Mês', plural: 'Meses', short: 'Mês' }
+};
+
+export const toIsoDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parses YYYY-MM-DD as a local date; `new Date(string)` would read it as UTC midnight.
+export const parseIsoDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
+
+export const createDefaultCohort = (): CohortSettings => ({
+  periodCount: 5,
+  startDate: toIsoDate(new Date()),
+  frequency: 'weekly',
+  periodPrice: 0,
+  dueOffsetDays: 0
+});
+
+export const getPeriodStart = (cohort: CohortSettings, index: number) => {
+  const start = parseIsoDate(cohort.startDate);
+  if (cohort.frequency === 'monthly') {
+    const date = new Date(start.getFullYear(), start.getMonth() + index, 1);
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(start.getDate(), lastDay));
+    return date;
+  }
+  const days = cohort.frequency === 'weekly' ? 7 : 14;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + index * days);
+};
+
+export const getPeriodDates = (cohort: CohortSettings) =>
+  Array.from({ length: cohort.periodCount }, (_, i) => getPeriodStart(cohort, i));
+
+export const formatShortDate = (date: Date) =>
+  date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+export const getPeriodDueDate = (cohort: CohortSettings, index: number) => {
+  const override = cohort.periodOverrides?.[index]?.dueDate;
+  if (override) return parseIsoDate(override);
+  const start = getPeriodStart(cohort, index);
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + cohort.dueOffsetDays);
+};
+
+// "Semana 3 (20/10)" — used in exports, prompts and tooltips.
+export const getPeriodLabel = (cohort: CohortSettings, index: number) =>
+  `${FREQUENCY_LABELS[cohort.frequency].singular} ${index + 1} (${formatShortDate(getPeriodStart(cohort, index))})`;
+
+// Index of the period that contains `now`, clamped to the cohort range.
+// Returns -1 before the cohort starts.
+export const getCurrentPeriodIndex = (cohort: CohortSettings, now = new Date()) => {
+  if (now < parseIsoDate(cohort.startDate)) return -1;
+  let index = 0;
+  while (index + 1 < cohort.periodCount && getPeriodStart(cohort, index + 1) <= now) index++;
+  return index;
+};
+
+export const resizeWeeks = (weeks: boolean[] | undefined, periodCount: number) => {
+  const source = Array.isArray(weeks) ? weeks.map(Boolean) : [];
+  if (source.length >= periodCount) return source.slice(0, periodCount);
+  return [...source, ...new Array(periodCount - source.length).fill(false)];
+};
+
+const toNonNegativeInt = (value: unknown, fallback: number) => {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+const normalizePeriodOverrides = (value: unknown) => {
+  const result: Record<number, PeriodOverride> = {};
+  if (!value || typeof value !== 'object') return result;
+  Object.entries(value as Record<string, any>).forEach(([key, override]) => {
+    const index = Number(key);
+    if (!Number.isInteger(index) || index < 0 || !override) return;
+    const entry: PeriodOverride = {};
+    if (override.price !== undefined && override.price !== null) entry.price = toNonNegativeInt(override.price, 0);
+    if (typeof override.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(override.dueDate)) entry.dueDate = override.dueDate;
+    if (Object.keys(entry).length > 0) result[index] = entry;
+  });
+  return result;
+};
+
+export const normalizeCohort = (value: Partial<CohortSettings> | null | undefined): CohortSettings => {
+  const defaults = createDefaultCohort();
+  const periodCount = Math.round(Number(value?.periodCount));
+  return {
+    periodCount: Number.isFinite(periodCount)
+      ? Math.min(MAX_PERIODS, Math.max(MIN_PERIODS, periodCount))
+      : defaults.periodCount,
+    startDate: typeof value?.startDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.startDate)
+      ? value.startDate
+      : defaults.startDate,
+    frequency: typeof value?.frequency === 'string' && Object.hasOwn(FREQUENCY_LABELS, value.frequency) ? value.frequency : defaults.frequency,
+    periodPrice: toNonNegativeInt(value?.periodPrice, defaults.periodPrice),
+    dueOffsetDays: toNonNegativeInt(value?.dueOffsetDays, defaults.dueOffsetDays),
+    periodOverrides: normalizePeriodOverrides(value?.periodOverrides)
+  };
+};
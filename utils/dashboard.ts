@@ -0,0 +1,168 @@
+import { Group, Participant } from '../types';
+import { FREQUENCY_LABELS, getPeriodDueDate, getPeriodLabel, getPeriodStart, parseIsoDate, toIsoDate } from './cohort';
+import { getAmountDue, getAmountPaid, getParticipantBalance, getRecordedAmount } from './finance';
+import { isActiveParticipant } from './participant';
+
+// YYYY-MM-DD bounds, both inclusive; '' leaves that side open.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface PeriodCollection {
+  index: number;
+  label: string;
+  paid: number;
+  total: number;
+  rate: number; // 0..1
+  // Rate minus the previous period's rate; null for the first period shown.
+  change: number | null;
+}
+
+export interface RevenuePoint {
+  date: string; // YYYY-MM-DD
+  amount: number; // centavos received that day
+  cumulative: number; // centavos received up to that day, within the range
+}
+
+export interface Debtor {
+  participant: Participant;
+  groupName: string;
+  overdue: number; // centavos
+  pending: number; // centavos
+}
+
+export interface DashboardMetrics {
+  participantCount: number;
+  // Money due and paid for the periods that start within the range.
+  expected: number;
+  collected: number;
+  periods: PeriodCollection[];
+  revenue: RevenuePoint[];
+  // paidDistribution[n] = how many participants paid exactly n of their periods in the range.
+  paidDistribution: number[];
+  // Overdue at the end of the range, across everyone; topDebtors are the largest.
+  overdue: number;
+  topDebtors: Debtor[];
+  // Received in the 7 days up to the end of the range, and in the 7 days before.
+  lastWeek: number;
+  previousWeek: number;
+}
+
+export const TOP_DEBTORS = 10;
+
+const inRange = (date: string, range: DateRange) =>
+  (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// When each paid amount came in: recorded payments carry their date, and what a
+// period ticked by hand adds on top of them counts on its due date.
+const getReceipts = (participant: Participant, group: Group) => {
+  const receipts: { date: string; amount: number }[] = [];
+  for (let i = 0; i < group.settings.periodCount; i++) {
+    (participant.payments ?? []).filter(p => p.periodIndex === i).forEach(p => receipts.push({ date: p.date, amount: p.amount }));
+    const unrecorded = getAmountPaid(participant, group.settings, i) - getRecordedAmount(participant, i);
+    if (unrecorded > 0) receipts.push({ date: toIsoDate(getPeriodDueDate(group.settings, i)), amount: unrecorded });
+  }
+  return receipts;
+};
+
+// Everything is computed from the participants of `groups`; periods of
+// different groups are lined up by their number.
+export const computeDashboard = (groups: Group[], range: DateRange, today = new Date()): DashboardMetrics => {
+  // Balances and the weekly comparison are taken at the end of the range, never in the future.
+  const end = range.to && range.to < toIsoDate(today) ? parseIsoDate(range.to) : today;
+  const endIso = toIsoDate(end);
+  const lastWeekFrom = toIsoDate(addDays(end, -6));
+  const previousWeekFrom = toIsoDate(addDays(end, -13));
+
+  const periodTotals: { paid: number; total: number; labels: Set<string> }[] = [];
+  // Padded to the most periods any group has in the range, so "5/5" shows even when empty.
+  const distribution: number[] = [0];
+  const daily = new Map<string, number>();
+  const debtors: Debtor[] = [];
+  let participantCount = 0;
+  let expected = 0;
+  let collected = 0;
+  let lastWeek = 0;
+  let previousWeek = 0;
+  let overdue = 0;
+
+  groups.forEach(group => {
+    const cohort = group.settings;
+    const periods = Array.from({ length: cohort.periodCount }, (_, i) => i)
+      .filter(i => inRange(toIsoDate(getPeriodStart(cohort, i)), range));
+    const active = group.participants.filter(isActiveParticipant);
+    participantCount += active.length;
+    while (distribution.length <= periods.length) distribution.push(0);
+
+    periods.forEach(i => {
+      const totals = periodTotals[i] ?? (periodTotals[i] = { paid: 0, total: 0, labels: new Set() });
+      totals.labels.add(getPeriodLabel(cohort, i));
+      totals.total += active.length;
+      totals.paid += active.filter(p => p.weeks[i]).length;
+    });
+
+    active.forEach(participant => {
+      const paidCount = periods.filter(i => participant.weeks[i]).length;
+      distribution[paidCount]++;
+      periods.forEach(i => {
+        expected += getAmountDue(participant, cohort, i);
+        collected += getAmountPaid(participant, cohort, i);
+      });
+
+      getReceipts(participant, group).forEach(({ date, amount }) => {
+        if (inRange(date, range)) daily.set(date, (daily.get(date) ?? 0) + amount);
+        if (date >= lastWeekFrom && date <= endIso) lastWeek += amount;
+        else if (date >= previousWeekFrom && date < lastWeekFrom) previousWeek += amount;
+      });
+
+      const balance = getParticipantBalance(participant, cohort, end);
+      overdue += balance.overdue;
+      if (balance.overdue > 0) debtors.push({ participant, groupName: group.name, overdue: balance.overdue, pending: balance.pending });
+    });
+  });
+
+  const frequencies = new Set(groups.map(g => g.settings.frequency));
+  const periodName = frequencies.size === 1 ? FREQUENCY_LABELS[groups[0].settings.frequency].singular : 'Período';
+  let previousRate: number | null = null;
+  const periods: PeriodCollection[] = [];
+  periodTotals.forEach((totals, index) => {
+    const rate = totals.total ? totals.paid / totals.total : 0;
+    periods.push({
+      index,
+      label: totals.labels.size === 1 ? [...totals.labels][0] : `${periodName} ${index + 1}`,
+      paid: totals.paid,
+      total: totals.total,
+      rate,
+      change: previousRate === null ? null : rate - previousRate
+    });
+    previousRate = rate;
+  });
+
+  let cumulative = 0;
+  const revenue = [...daily.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, amount]) => {
+      cumulative += amount;
+      return { date, amount, cumulative };
+    });
+
+  return {
+    participantCount,
+    expected,
+    collected,
+    periods,
+    revenue,
+    paidDistribution: distribution,
+    overdue,
+    topDebtors: debtors.sort((a, b) => b.overdue - a.overdue || b.pending - a.pending).slice(0, TOP_DEBTORS),
+    lastWeek,
+    previousWeek
+  };
+};
+
+// Relative change, or null when there is nothing to compare against.
+export const getChange = (current: number, previous: number) =>
+  previous > 0 ? (current - previous) / previous : null;
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomField, CustomFieldType, FieldSettings, Participant, TagColor } from '../types';
+import { isRecord } from './guards';
+
+export const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Lista de opções'
+};
+
+// Chip classes per color; the swatch is the picker button in the field settings.
+export const TAG_COLORS: Record<TagColor, { chip: string; swatch: string }> = {
+  slate: { chip: 'bg-slate-100 text-slate-700 border-slate-200', swatch: 'bg-slate-400' },
+  rose: { chip: 'bg-rose-100 text-rose-700 border-rose-200', swatch: 'bg-rose-400' },
+  amber: { chip: 'bg-amber-100 text-amber-700 border-amber-200', swatch: 'bg-amber-400' },
+  emerald: { chip: 'bg-emerald-100 text-emerald-700 border-emerald-200', swatch: 'bg-emerald-400' },
+  sky: { chip: 'bg-sky-100 text-sky-700 border-sky-200', swatch: 'bg-sky-400' },
+  violet: { chip: 'bg-violet-100 text-violet-700 border-violet-200', swatch: 'bg-violet-400' },
+  pink: { chip: 'bg-pink-100 text-pink-700 border-pink-200', swatch: 'bg-pink-400' }
+};
+
+// Widths in pixels of the columns after the periods, shared by the header and the rows.
+export const FIELD_COLUMN_WIDTH = 160;
+export const TAGS_COLUMN_WIDTH = 180;
+export const NOTES_COLUMN_WIDTH = 220;
+
+const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[];
+const COLORS = Object.keys(TAG_COLORS) as TagColor[];
+
+export const createDefaultFields = (): FieldSettings => ({ custom: [], tagColors: {} });
+
+export const createCustomField = (name: string, type: CustomFieldType = 'text'): CustomField => ({
+  id: uuidv4(),
+  name,
+  type,
+  options: []
+});
+
+const normalizeOptions = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? [...new Set(value.filter((o): o is string => typeof o === 'string').map(o => o.trim()).filter(Boolean))]
+    : [];
+
+export const normalizeFields = (value: unknown): FieldSettings => {
+  if (!isRecord(value)) return createDefaultFields();
+  const custom: CustomField[] = Array.isArray(value.custom)
+    ? value.custom.flatMap((f: unknown): CustomField[] => {
+      if (!isRecord(f) || typeof f.name !== 'string') return [];
+      return [{
+        id: typeof f.id === 'string' ? f.id : uuidv4(),
+        name: f.name,
+        type: FIELD_TYPES.find(type => type === f.type) ?? 'text',
+        options: normalizeOptions(f.options)
+      }];
+    })
+    : [];
+  const tagColors: Record<string, TagColor> = {};
+  if (isRecord(value.tagColors)) {
+    Object.entries(value.tagColors).forEach(([tag, color]) => {
+      if (COLORS.includes(color as TagColor)) tagColors[tag.toLowerCase()] = color as TagColor;
+    });
+  }
+  return { custom, tagColors };
+};
+
+// Trimmed, without blanks or repeats; the first spelling of a tag wins ("VIP" and "vip" are the same tag).
+export const normalizeTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.trim())
+    .filter(t => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// "vip, indicação; bolsista" as typed or pasted into the tags cell.
+export const parseTags = (text: string) => normalizeTags(text.split(/[,;]/));
+
+export const formatTags = (tags: string[] | undefined) => (tags ?? []).join(', ');
+
+export const hasTag = (participant: Participant, tag: string) =>
+  (participant.tags ?? []).some(t => t.toLowerCase() === tag.toLowerCase());
+
+// Every tag in use, sorted, for the filter and the color settings.
+export const collectTags = (participants: Participant[]) => {
+  const tags = normalizeTags(participants.flatMap(p => p.tags ?? []));
+  return tags.sort((a, b) => a.localeCompare(b, 'pt-BR', { sensitivity: 'base' }));
+};
+
+// Tags without a chosen color keep a stable one derived from their name.
+export const getTagColor = (settings: FieldSettings, tag: string): TagColor => {
+  const key = tag.toLowerCase();
+  const chosen = settings.tagColors[key];
+  if (chosen) return chosen;
+  const hash = [...key].reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return COLORS[hash % COLORS.length];
+};
+
+// Only filled values are kept, so untouched rows carry no `customFields` at all.
+export const normalizeFieldValues = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const entries = Object.entries(value).filter(([, v]) => typeof v === 'string' && v !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) as Record<string, string> : undefined;
+};
+
+export const getFieldValue = (participant: Participant, fieldId: string) =>
+  participant.customFields?.[fieldId] ?? '';
+
+export const setFieldValue = (participant: Participant, fieldId: string, value: string): Participant => ({
+  ...participant,
+  customFields: normalizeFieldValues({ ...participant.customFields, [fieldId]: value })
+});
+
+// "1.234,5", "1234.5" or "1,5"; dots alone are thousands only in the "1.234" shape.
+const parseNumber = (text: string): number | null => {
+  const compact = text.replace(/\s/g, '');
+  const plain = compact.includes(',')
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : /^-?\d{1,3}(\.\d{3})+$/.test(compact) ? compact.replace(/\./g, '') : compact;
+  if (!/^-?\d*\.?\d+$/.test(plain)) return null;
+  return Number(plain);
+};
+
+// "2024-03-15", "15/03/2024" or "15/03/24", as long as the day exists.
+const parseDate = (text: string): string | null => {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const br = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})$/);
+  const parts = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : br ? [Number(br[3].length === 2 ? `20${br[3]}` : br[3]), Number(br[2]), Number(br[1])] : null;
+  if (!parts) return null;
+  const [year, month, day] = parts;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Turns typed or pasted text into the stored value: null when it doesn't fit the
+// field (not a number, not a date, not one of the options), '' to clear.
+export const parseFieldValue = (field: CustomField, text: string): string | null => {
+  const value = text.trim();
+  if (value === '') return '';
+  switch (field.type) {
+    case 'number': {
+      const number = parseNumber(value);
+      return number === null ? null : String(number);
+    }
+    case 'date':
+      return parseDate(value);
+    case 'select':
+      return field.options.find(o => o.toLowerCase() === value.toLowerCase()) ?? null;
+    default:
+      return value;
+  }
+};
+
+// The value as shown and copied: "1.234,5" and "15/03/2024".
+export const formatFieldValue = (field: CustomField, value: string) => {
+  if (!value) return '';
+  if (field.type === 'number' && Number.isFinite(Number(value))) {
+    return Number(value).toLocaleString('pt-BR', { maximumFractionDigits: 10 });
+  }
+  if (field.type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-');
+    return `${day}/${month}/${year}`;
+  }
+  return value;
+};
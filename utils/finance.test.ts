@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountOutstanding, getAmountPaid, parseBRL } from './finance';
+import { CohortSettings, Participant } from '../types';
+
+describe('parseBRL', () => {
+  it('reads pt-BR amounts with a decimal comma', () => {
+    expect(parseBRL('1.234,56')).toBe(123456);
+    expect(parseBRL('50,5')).toBe(5050);
+    expect(parseBRL('R$ 50,00')).toBe(5000);
+  });
+
+  it('reads a single dot followed by three digits as thousands', () => {
+    expect(parseBRL('1.234')).toBe(123400);
+    expect(parseBRL('R$ 1.234')).toBe(123400);
+    expect(parseBRL('1.234.567')).toBe(123456700);
+  });
+
+  it('reads other dots as the decimal point', () => {
+    expect(parseBRL('1234.56')).toBe(123456);
+    expect(parseBRL('12.5')).toBe(1250);
+    expect(parseBRL('1.2345')).toBe(123);
+  });
+
+  it('reads whole amounts', () => {
+    expect(parseBRL('R$ 50')).toBe(5000);
+    expect(parseBRL('0')).toBe(0);
+  });
+
+  it('rejects blanks, words and negative amounts', () => {
+    expect(parseBRL('')).toBeNull();
+    expect(parseBRL('abc')).toBeNull();
+    expect(parseBRL('-10')).toBeNull();
+  });
+});
+
+describe('getAmountPaid / getAmountOutstanding', () => {
+  const cohort: CohortSettings = {
+    periodCount: 3,
+    startDate: '2024-03-04',
+    frequency: 'weekly',
+    periodPrice: 5000,
+    dueOffsetDays: 0,
+    periodOverrides: { 2: { price: 8000 } }
+  };
+  const participant = (changes: Partial<Participant> = {}): Participant => ({
+    id: 'p1', name: 'Ana Souza', whatsapp: '', weeks: [false, false, false], ...changes
+  });
+  const payment = (periodIndex: number, amount: number) => ({ id: `pay-${periodIndex}-${amount}`, periodIndex, amount, date: '2024-03-05', method: 'pix' as const });
+
+  it('owes the full price of an unpaid period', () => {
+    expect(getAmountPaid(participant(), cohort, 0)).toBe(0);
+    expect(getAmountOutstanding(participant(), cohort, 0)).toBe(5000);
+    expect(getAmountOutstanding(participant(), cohort, 2)).toBe(8000);
+  });
+
+  it('subtracts recorded payments from an unticked period', () => {
+    const p = participant({ payments: [payment(0, 2000), payment(0, 1000)] });
+    expect(getAmountPaid(p, cohort, 0)).toBe(3000);
+    expect(getAmountOutstanding(p, cohort, 0)).toBe(2000);
+  });
+
+  it('counts a ticked period as paid in full', () => {
+    const p = participant({ weeks: [true, false, false], payments: [payment(0, 2000)] });
+    expect(getAmountPaid(p, cohort, 0)).toBe(5000);
+    expect(getAmountOutstanding(p, cohort, 0)).toBe(0);
+  });
+
+  it('keeps an overpayment as paid and owes nothing', () => {
+    const p = participant({ payments: [payment(1, 7000)] });
+    expect(getAmountPaid(p, cohort, 1)).toBe(7000);
+    expect(getAmountOutstanding(p, cohort, 1)).toBe(0);
+  });
+
+  it('applies the participant pricing', () => {
+    expect(getAmountOutstanding(participant({ pricing: { kind: 'discount-percent', value: 10 } }), cohort, 0)).toBe(4500);
+    expect(getAmountOutstanding(participant({ pricing: { kind: 'fixed-price', value: 3000 } }), cohort, 2)).toBe(3000);
+    expect(getAmountOutstanding(participant({ pricing: { kind: 'scholarship', value: 0 } }), cohort, 0)).toBe(0);
+  });
+});
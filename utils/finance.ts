@@ -0,0 +1,118 @@
+import { CohortSettings, Participant, Payment, PaymentMethod, Stats } from '../types';
+import { getPeriodDueDate } from './cohort';
+import { isActiveParticipant } from './participant';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  transfer: 'Transferência',
+  cash: 'Dinheiro',
+  card: 'Cartão'
+};
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const formatBRL = (cents: number) => currencyFormatter.format(cents / 100);
+
+// Accepts "1.234,56", "1.234", "1234.56", "R$ 50" and returns centavos, or null
+// when unreadable. Without a comma, dots are thousands only in the "1.234" shape.
+export const parseBRL = (value: string): number | null => {
+  let text = value.replace(/[^\d.,-]/g, '');
+  if (text === '') return null;
+  if (text.includes(',')) text = text.replace(/\./g, '').replace(',', '.');
+  else if (/^\d{1,3}(\.\d{3})+$/.test(text)) text = text.replace(/\./g, '');
+  const number = Number(text);
+  return Number.isFinite(number) && number >= 0 ? Math.round(number * 100) : null;
+};
+
+export const centsToInput = (cents: number) => (cents / 100).toFixed(2).replace('.', ',');
+
+// Cohort price for a period before any participant discount.
+export const getPeriodPrice = (cohort: CohortSettings, index: number) =>
+  cohort.periodOverrides?.[index]?.price ?? cohort.periodPrice;
+
+export const getAmountDue = (participant: Participant, cohort: CohortSettings, index: number) => {
+  const base = getPeriodPrice(cohort, index);
+  const pricing = participant.pricing;
+  if (!pricing) return base;
+  if (pricing.kind === 'scholarship') return 0;
+  if (pricing.kind === 'fixed-price') return pricing.value;
+  return Math.round(base * (1 - Math.min(100, Math.max(0, pricing.value)) / 100));
+};
+
+export const getRecordedAmount = (participant: Participant, index: number) =>
+  (participant.payments ?? [])
+    .filter(p => p.periodIndex === index)
+    .reduce((acc, p) => acc + p.amount, 0);
+
+// A ticked period counts as paid in full, even when it was ticked by hand over a
+// partial payment (or before payments existed); an unticked one has paid what was
+// recorded. Either way, due = paid + outstanding.
+export const getAmountPaid = (participant: Participant, cohort: CohortSettings, index: number) => {
+  const recorded = getRecordedAmount(participant, index);
+  return participant.weeks[index] ? Math.max(recorded, getAmountDue(participant, cohort, index)) : recorded;
+};
+
+export const getAmountOutstanding = (participant: Participant, cohort: CohortSettings, index: number) =>
+  participant.weeks[index] ? 0 : Math.max(0, getAmountDue(participant, cohort, index) - getRecordedAmount(participant, index));
+
+export const isPeriodSettled = (participant: Participant, cohort: CohortSettings, index: number) =>
+  getRecordedAmount(participant, index) >= getAmountDue(participant, cohort, index);
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export interface ParticipantBalance {
+  due: number;
+  paid: number;
+  pending: number;
+  overdue: number;
+}
+
+export const getParticipantBalance = (participant: Participant, cohort: CohortSettings, today = new Date()): ParticipantBalance => {
+  const balance: ParticipantBalance = { due: 0, paid: 0, pending: 0, overdue: 0 };
+  for (let i = 0; i < cohort.periodCount; i++) {
+    const outstanding = getAmountOutstanding(participant, cohort, i);
+    balance.due += getAmountDue(participant, cohort, i);
+    balance.paid += getAmountPaid(participant, cohort, i);
+    balance.pending += outstanding;
+    if (getPeriodDueDate(cohort, i) < startOfDay(today)) balance.overdue += outstanding;
+  }
+  return balance;
+};
+
+export const computeStats = (participants: Participant[], cohort: CohortSettings, today = new Date()): Stats => {
+  const active = participants.filter(isActiveParticipant);
+  return active.reduce<Stats>((stats, participant) => {
+    const balance = getParticipantBalance(participant, cohort, today);
+    return {
+      ...stats,
+      totalPaid: stats.totalPaid + balance.paid,
+      totalPending: stats.totalPending + balance.pending,
+      totalOverdue: stats.totalOverdue + balance.overdue,
+      revenuePotential: stats.revenuePotential + balance.due
+    };
+  }, { totalParticipants: active.length, totalPaid: 0, totalPending: 0, totalOverdue: 0, revenuePotential: 0 });
+};
+
+export const mergeStats = (items: Stats[]): Stats => items.reduce<Stats>((acc, s) => ({
+  totalParticipants: acc.totalParticipants + s.totalParticipants,
+  totalPaid: acc.totalPaid + s.totalPaid,
+  totalPending: acc.totalPending + s.totalPending,
+  totalOverdue: acc.totalOverdue + s.totalOverdue,
+  revenuePotential: acc.revenuePotential + s.revenuePotential
+}), { totalParticipants: 0, totalPaid: 0, totalPending: 0, totalOverdue: 0, revenuePotential: 0 });
+
+// Replaces the payment list and re-derives the paid flag of every period whose
+// payments changed, so recording the full amount ticks the week and removing it unticks.
+export const withPayments = (participant: Participant, cohort: CohortSettings, payments: Payment[]): Participant => {
+  const before = participant.payments ?? [];
+  const touched = new Set<number>();
+  [...before, ...payments].forEach(p => {
+    const wasThere = before.some(b => b.id === p.id && b.amount === p.amount && b.periodIndex === p.periodIndex);
+    const isThere = payments.some(n => n.id === p.id && n.amount === p.amount && n.periodIndex === p.periodIndex);
+    if (wasThere !== isThere) touched.add(p.periodIndex);
+  });
+
+  const next = { ...participant, payments };
+  next.weeks = participant.weeks.map((paid, i) => (touched.has(i) ? isPeriodSettled(next, cohort, i) : paid));
+  return next;
+};
@@ -0,0 +1,145 @@
+import { CustomField, Participant } from '../types';
+import { formatPhone } from './phone';
+import { formatFieldValue, formatTags, getFieldValue, parseFieldValue, parseTags, setFieldValue } from './fields';
+
+// Spreadsheet cells are addressed by row (position in the list as shown) and
+// column: 0 is the name, 1 the WhatsApp, then one column per period, one per
+// custom field, the tags and the notes.
+export const NAME_COLUMN = 0;
+export const WHATSAPP_COLUMN = 1;
+export const FIRST_WEEK_COLUMN = 2;
+
+export interface GridColumns {
+  periodCount: number;
+  fields: CustomField[];
+}
+
+export type GridColumn =
+  | { kind: 'name' }
+  | { kind: 'whatsapp' }
+  | { kind: 'week'; index: number }
+  | { kind: 'field'; field: CustomField }
+  | { kind: 'tags' }
+  | { kind: 'notes' };
+
+export const getFieldColumn = (columns: GridColumns, index: number) => FIRST_WEEK_COLUMN + columns.periodCount + index;
+export const getTagsColumn = (columns: GridColumns) => getFieldColumn(columns, columns.fields.length);
+export const getNotesColumn = (columns: GridColumns) => getTagsColumn(columns) + 1;
+
+export const countColumns = (columns: GridColumns) => getNotesColumn(columns) + 1;
+
+export const getColumn = (columns: GridColumns, col: number): GridColumn => {
+  if (col === NAME_COLUMN) return { kind: 'name' };
+  if (col === WHATSAPP_COLUMN) return { kind: 'whatsapp' };
+  if (col < getFieldColumn(columns, 0)) return { kind: 'week', index: col - FIRST_WEEK_COLUMN };
+  if (col < getTagsColumn(columns)) return { kind: 'field', field: columns.fields[col - getFieldColumn(columns, 0)] };
+  return col === getTagsColumn(columns) ? { kind: 'tags' } : { kind: 'notes' };
+};
+
+export const isWeekColumn = (col: number, columns: GridColumns) => getColumn(columns, col).kind === 'week';
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// Inclusive on all sides.
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const rangeBetween = (a: CellPosition, b: CellPosition): CellRange => ({
+  top: Math.min(a.row, b.row),
+  left: Math.min(a.col, b.col),
+  bottom: Math.max(a.row, b.row),
+  right: Math.max(a.col, b.col)
+});
+
+export const rangeHeight = (range: CellRange) => range.bottom - range.top + 1;
+export const rangeWidth = (range: CellRange) => range.right - range.left + 1;
+
+export type CellValue = string | boolean;
+
+// Custom fields read as shown ("15/03/2024"), which is also what pasting accepts back.
+export const readCell = (participant: Participant, col: number, columns: GridColumns): CellValue => {
+  const column = getColumn(columns, col);
+  switch (column.kind) {
+    case 'name': return participant.name;
+    case 'whatsapp': return participant.whatsapp;
+    case 'week': return participant.weeks[column.index] ?? false;
+    case 'field': return formatFieldValue(column.field, getFieldValue(participant, column.field.id));
+    case 'tags': return formatTags(participant.tags);
+    case 'notes': return participant.notes ?? '';
+  }
+};
+
+export interface CellWrite extends CellPosition {
+  value: CellValue;
+}
+
+// Text that doesn't fit a custom field (a word in a number field, a missing
+// option) leaves the cell as it was.
+const writeCell = (participant: Participant, col: number, value: CellValue, columns: GridColumns): Participant => {
+  const column = getColumn(columns, col);
+  if (column.kind === 'week') {
+    const paid = value === true;
+    if (column.index >= participant.weeks.length || participant.weeks[column.index] === paid) return participant;
+    const weeks = [...participant.weeks];
+    weeks[column.index] = paid;
+    return { ...participant, weeks };
+  }
+  const text = typeof value === 'string' ? value.trim() : '';
+  switch (column.kind) {
+    case 'name':
+      return text === participant.name ? participant : { ...participant, name: text };
+    case 'whatsapp': {
+      const whatsapp = formatPhone(text);
+      return whatsapp === participant.whatsapp ? participant : { ...participant, whatsapp };
+    }
+    case 'field': {
+      const parsed = parseFieldValue(column.field, text);
+      return parsed === null || parsed === getFieldValue(participant, column.field.id)
+        ? participant
+        : setFieldValue(participant, column.field.id, parsed);
+    }
+    case 'tags': {
+      const tags = parseTags(text);
+      return formatTags(tags) === formatTags(participant.tags) ? participant : { ...participant, tags: tags.length > 0 ? tags : undefined };
+    }
+    case 'notes':
+      return text === (participant.notes ?? '') ? participant : { ...participant, notes: text || undefined };
+  }
+};
+
+// Applies `writes` addressed to `rows` (the rows as shown, a subset of
+// `participants` in any order). Writes past the last row add new participants,
+// so a pasted list can be longer than the sheet. Returns `participants` itself
+// when nothing changes.
+export const applyCellWrites = (
+  participants: Participant[],
+  rows: Participant[],
+  writes: CellWrite[],
+  createRow: () => Participant,
+  columns: GridColumns
+): Participant[] => {
+  const lastRow = writes.reduce((max, w) => Math.max(max, w.row), rows.length - 1);
+  const added = Array.from({ length: lastRow - rows.length + 1 }, createRow);
+  const targets = [...rows, ...added];
+
+  const updated = new Map<string, Participant>();
+  writes.forEach(({ row, col, value }) => {
+    const current = updated.get(targets[row].id) ?? targets[row];
+    const next = writeCell(current, col, value, columns);
+    if (next !== current) updated.set(next.id, next);
+  });
+
+  // Blank lines inside a pasted list keep their place; trailing ones are dropped.
+  const keep = added.reduce((last, p, i) => updated.has(p.id) ? i + 1 : last, 0);
+  const newRows = added.slice(0, keep).map(p => updated.get(p.id) ?? p);
+  const existing = participants.filter(p => updated.has(p.id));
+  if (existing.length === 0 && newRows.length === 0) return participants;
+  return [...participants.map(p => updated.get(p.id) ?? p), ...newRows];
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Group, Participant } from '../types';
+import { createDefaultCohort } from './cohort';
+import { createEmptyParticipant, transferParticipants } from './groups';
+
+const group = (id: string, periodCount: number, participants: Participant[]): Group => ({
+  id,
+  name: `Turma ${id}`,
+  archived: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  settings: { ...createDefaultCohort(), periodCount },
+  participants
+});
+
+const ana: Participant = {
+  id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, true, false, true],
+  payments: [
+    { id: 'pay1', periodIndex: 1, amount: 5000, date: '2024-03-11', method: 'pix' },
+    { id: 'pay2', periodIndex: 3, amount: 5000, date: '2024-03-25', method: 'cash' }
+  ]
+};
+const bruno: Participant = { id: 'p2', name: 'Bruno Lima', whatsapp: '', weeks: [false, false, false, false] };
+
+describe('transferParticipants', () => {
+  const groups = [group('g1', 4, [ana, bruno]), group('g2', 2, [createEmptyParticipant(2), createEmptyParticipant(2)])];
+
+  it('moves participants, fitting them to the target cohort', () => {
+    const [source, target] = transferParticipants(groups, 'g1', 'g2', ['p1'], 'move');
+    expect(source.participants.map(p => p.id)).toEqual(['p2']);
+    const moved = target.participants[0];
+    expect(moved).toMatchObject({ id: 'p1', weeks: [true, true] });
+    expect(moved.payments?.map(p => p.id)).toEqual(['pay1']);
+    expect(target.participants).toHaveLength(2);
+  });
+
+  it('copies with fresh ids and keeps the original', () => {
+    const [source, target] = transferParticipants(groups, 'g1', 'g2', ['p1'], 'copy');
+    expect(source.participants).toEqual([ana, bruno]);
+    const copy = target.participants[0];
+    expect(copy.id).not.toBe('p1');
+    expect(copy.name).toBe('Ana Souza');
+    expect(copy.payments).toHaveLength(1);
+    expect(copy.payments?.[0].id).not.toBe('pay1');
+  });
+
+  it('fills blank rows first and appends the rest', () => {
+    const crowded = [group('g1', 4, [ana, bruno]), group('g2', 2, [createEmptyParticipant(2)])];
+    const [, target] = transferParticipants(crowded, 'g1', 'g2', ['p1', 'p2'], 'move');
+    expect(target.participants.map(p => p.id)).toEqual(['p1', 'p2']);
+  });
+
+  it('leaves the groups alone for an unknown or identical target', () => {
+    expect(transferParticipants(groups, 'g1', 'g1', ['p1'], 'move')).toBe(groups);
+    expect(transferParticipants(groups, 'g1', 'missing', ['p1'], 'move')).toBe(groups);
+  });
+});
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CohortSettings, Group, Participant, Payment, PaymentMethod, PricingOverride, Workspace } from '../types';
+import { createDefaultCohort, normalizeCohort, resizeWeeks } from './cohort';
+import { isActiveParticipant, isBlankParticipant } from './participant';
+import { normalizeLedger } from './ledger';
+import { createDefaultMessaging, normalizeMessaging } from './templates';
+import { createDefaultFields, normalizeFieldValues, normalizeFields, normalizeTags } from './fields';
+import { isRecord } from './guards';
+
+// Number of blank rows a brand-new group starts with, users can add more.
+export const INITIAL_EMPTY_ROWS = 50;
+
+export const createEmptyParticipant = (periodCount: number): Participant => ({
+  id: uuidv4(),
+  name: '',
+  whatsapp: '',
+  weeks: resizeWeeks([], periodCount)
+});
+
+export const createGroup = (name: string, settings: CohortSettings = createDefaultCohort()): Group => ({
+  id: uuidv4(),
+  name,
+  archived: false,
+  createdAt: new Date().toISOString(),
+  settings,
+  participants: Array.from({ length: INITIAL_EMPTY_ROWS }, () => createEmptyParticipant(settings.periodCount))
+});
+
+const PAYMENT_METHODS: PaymentMethod[] = ['pix', 'transfer', 'cash', 'card'];
+
+const normalizePayments = (value: unknown): Payment[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((p: unknown): Payment[] => {
+    if (
+      !isRecord(p) || typeof p.periodIndex !== 'number' || !Number.isInteger(p.periodIndex) ||
+      typeof p.amount !== 'number' || !Number.isFinite(p.amount) || typeof p.date !== 'string'
+    ) return [];
+    return [{
+      id: typeof p.id === 'string' ? p.id : uuidv4(),
+      periodIndex: p.periodIndex,
+      amount: Math.round(p.amount),
+      date: p.date,
+      method: PAYMENT_METHODS.find(method => method === p.method) ?? 'pix',
+      ...(typeof p.reference === 'string' ? { reference: p.reference } : {})
+    }];
+  });
+};
+
+const PRICING_KINDS: PricingOverride['kind'][] = ['discount-percent', 'fixed-price', 'scholarship'];
+
+const normalizePricing = (value: unknown): PricingOverride | undefined => {
+  const kind = isRecord(value) ? PRICING_KINDS.find(k => k === value.kind) : undefined;
+  if (!isRecord(value) || !kind) return undefined;
+  return { kind, value: typeof value.value === 'number' && Number.isFinite(value.value) ? Math.max(0, value.value) : 0 };
+};
+
+// Tags, custom fields and notes are left out of rows that have none, so older rows keep their shape.
+const normalizeOptionalTags = (value: unknown) => {
+  const tags = normalizeTags(value);
+  return tags.length > 0 ? tags : undefined;
+};
+
+// Fits a participant to a cohort length: extra weeks and the payments recorded for them are dropped.
+export const resizeParticipant = (participant: Participant, periodCount: number): Participant => ({
+  ...participant,
+  weeks: resizeWeeks(participant.weeks, periodCount),
+  payments: participant.payments?.filter(p => p.periodIndex < periodCount)
+});
+
+export const normalizeParticipants = (value: unknown, periodCount: number): Participant[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map((item: unknown) => {
+    const p = isRecord(item) ? item : {};
+    return resizeParticipant({
+      ...p,
+      id: typeof p.id === 'string' ? p.id : uuidv4(),
+      name: typeof p.name === 'string' ? p.name : '',
+      whatsapp: typeof p.whatsapp === 'string' ? p.whatsapp : '',
+      weeks: Array.isArray(p.weeks) ? p.weeks.map(Boolean) : [],
+      payments: normalizePayments(p.payments),
+      pricing: normalizePricing(p.pricing),
+      customFields: normalizeFieldValues(p.customFields),
+      tags: normalizeOptionalTags(p.tags),
+      notes: typeof p.notes === 'string' && p.notes ? p.notes : undefined
+    }, periodCount);
+  });
+};
+
+export const normalizeWorkspace = (value: unknown): Workspace | null => {
+  if (!isRecord(value) || !Array.isArray(value.groups) || value.groups.length === 0) return null;
+  const groups: Group[] = value.groups.map((item: unknown) => {
+    const g = isRecord(item) ? item : {};
+    const settings = normalizeCohort(g.settings as Partial<CohortSettings> | undefined);
+    return {
+      id: typeof g.id === 'string' ? g.id : uuidv4(),
+      name: typeof g.name === 'string' ? g.name : 'Turma',
+      archived: Boolean(g.archived),
+      createdAt: typeof g.createdAt === 'string' ? g.createdAt : new Date().toISOString(),
+      settings,
+      participants: normalizeParticipants(g.participants, settings.periodCount)
+    };
+  });
+  const activeGroupId = groups.find(g => g.id === value.activeGroupId)?.id ?? groups[0].id;
+  return {
+    activeGroupId,
+    groups,
+    ledger: normalizeLedger(value.ledger),
+    messaging: normalizeMessaging(value.messaging),
+    fields: normalizeFields(value.fields)
+  };
+};
+
+// Builds the first workspace out of the pre-groups storage (one participant list + one settings blob).
+export const workspaceFromLegacy = (legacyData: unknown, legacySettings: unknown): Workspace => {
+  const settings = normalizeCohort(legacySettings as Partial<CohortSettings>);
+  const group = createGroup('Turma 1', settings);
+  const participants = normalizeParticipants(legacyData, settings.periodCount);
+  if (participants.length > 0) group.participants = participants;
+  return { activeGroupId: group.id, groups: [group], ledger: [], messaging: createDefaultMessaging(), fields: createDefaultFields() };
+};
+
+export type TransferMode = 'move' | 'copy';
+
+// Moves or copies participants into another group, fitting their payments to the
+// target cohort length. Copies get fresh ids so both rows can be edited independently.
+export const transferParticipants = (
+  groups: Group[],
+  sourceGroupId: string,
+  targetGroupId: string,
+  participantIds: string[],
+  mode: TransferMode
+): Group[] => {
+  const source = groups.find(g => g.id === sourceGroupId);
+  const target = groups.find(g => g.id === targetGroupId);
+  if (!source || !target || source.id === target.id) return groups;
+
+  const ids = new Set(participantIds);
+  const incoming = source.participants
+    .filter(p => ids.has(p.id))
+    .map(p => resizeParticipant({
+      ...p,
+      id: mode === 'copy' ? uuidv4() : p.id,
+      payments: mode === 'copy' ? p.payments?.map(payment => ({ ...payment, id: uuidv4() })) : p.payments
+    }, target.settings.periodCount));
+
+  return groups.map(g => {
+    if (g.id === source.id && mode === 'move') {
+      return { ...g, participants: g.participants.filter(p => !ids.has(p.id)) };
+    }
+    if (g.id === target.id) {
+      // Fill blank placeholder rows first, same as the import flow.
+      const queue = [...incoming];
+      const participants = g.participants.map(p => (isBlankParticipant(p) && queue.length > 0 ? queue.shift()! : p));
+      return { ...g, participants: [...participants, ...queue] };
+    }
+    return g;
+  });
+};
+
+export interface PaymentSummary {
+  count: number;
+  paidPeriods: number;
+  totalPeriods: number;
+  percentage: number;
+}
+
+export const summarizeParticipants = (participants: Participant[], periodCount: number): PaymentSummary => {
+  const active = participants.filter(isActiveParticipant);
+  const totalPeriods = active.length * periodCount;
+  const paidPeriods = active.reduce((acc, curr) => acc + curr.weeks.filter(Boolean).length, 0);
+  const percentage = totalPeriods === 0 ? 0 : Math.round((paidPeriods / totalPeriods) * 100);
+  return { count: active.length, paidPeriods, totalPeriods, percentage };
+};
+
+// Totals across every non-archived group, weighted by periods rather than averaged per group.
+export const summarizeGroups = (groups: Group[]): PaymentSummary => {
+  const summaries = groups
+    .filter(g => !g.archived)
+    .map(g => summarizeParticipants(g.participants, g.settings.periodCount));
+  const count = summaries.reduce((acc, s) => acc + s.count, 0);
+  const paidPeriods = summaries.reduce((acc, s) => acc + s.paidPeriods, 0);
+  const totalPeriods = summaries.reduce((acc, s) => acc + s.totalPeriods, 0);
+  const percentage = totalPeriods === 0 ? 0 : Math.round((paidPeriods / totalPeriods) * 100);
+  return { count, paidPeriods, totalPeriods, percentage };
+};
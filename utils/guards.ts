@@ -0,0 +1,6 @@
+// Narrowing helpers for data read from storage, imports and the network.
+
+export type UnknownRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
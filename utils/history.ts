@@ -0,0 +1,57 @@
+import { Participant } from '../types';
+
+// One undoable change to a group's participant list. Lists are immutable, so
+// keeping both snapshots is cheap: unchanged rows are shared between them.
+export interface HistoryEntry {
+  groupId: string;
+  label: string;
+  before: Participant[];
+  after: Participant[];
+  coalesceKey?: string;
+  timestamp: number;
+  // Other groups changed by the same operation, such as the target of a transfer.
+  linked?: GroupSnapshots[];
+}
+
+export interface GroupSnapshots {
+  groupId: string;
+  before: Participant[];
+  after: Participant[];
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+// Keystrokes in the same cell within this window become a single undo step.
+export const COALESCE_WINDOW_MS = 1500;
+
+export const createHistory = (): UndoHistory => ({ past: [], future: [] });
+
+export const recordHistory = (history: UndoHistory, entry: HistoryEntry): UndoHistory => {
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    last.groupId === entry.groupId &&
+    entry.timestamp - last.timestamp < COALESCE_WINDOW_MS
+  ) {
+    const merged = { ...last, after: entry.after, timestamp: entry.timestamp };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+const touches = (entry: HistoryEntry, groupIds: string[]) =>
+  groupIds.includes(entry.groupId) || (entry.linked ?? []).some(l => groupIds.includes(l.groupId));
+
+// Changes made outside the history (cohort resizes, restores) invalidate the
+// snapshots of the groups they touch, so those entries are dropped.
+export const forgetGroups = (history: UndoHistory, groupIds: string[]): UndoHistory => ({
+  past: history.past.filter(e => !touches(e, groupIds)),
+  future: history.future.filter(e => !touches(e, groupIds))
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerEvent, Participant, Workspace } from '../types';
+import { findLedgerMismatches, restoreLedger } from './ledger';
+import { createDefaultMessaging } from './templates';
+import { createDefaultFields } from './fields';
+import { createDefaultCohort } from './cohort';
+
+const event = (id: string, participantId: string, type: LedgerEvent['type'], periodIndex?: number): LedgerEvent => ({
+  id, participantId, groupId: 'g1', type, periodIndex, operator: 'Carla', timestamp: `2024-04-0${id.slice(1)}T10:00:00.000Z`
+});
+
+const ana: Participant = { id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, true] };
+const bruno: Participant = { id: 'p2', name: 'Bruno Lima', whatsapp: '(21) 97777-6666', weeks: [false, false] };
+
+const backupOf = (participants: Participant[], ledger: LedgerEvent[]): Workspace => ({
+  activeGroupId: 'g1',
+  groups: [{ id: 'g1', name: 'Turma', archived: false, createdAt: '2024-04-01T00:00:00.000Z', settings: { ...createDefaultCohort(), periodCount: 2 }, participants }],
+  ledger,
+  messaging: createDefaultMessaging(),
+  fields: createDefaultFields()
+});
+
+describe('restoreLedger', () => {
+  const current = [event('e1', 'p1', 'mark-paid', 0), event('e2', 'p1', 'mark-paid', 1)];
+
+  it('keeps the current events and adds the backup ones by id', () => {
+    const backup = backupOf([ana, bruno], [current[0], event('e3', 'p2', 'note')]);
+    const ledger = restoreLedger(current, backup, [ana, bruno], 'Carla');
+    expect(ledger.map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('records the restore for each participant it changes', () => {
+    const restoredAna = { ...ana, weeks: [true, false] };
+    const ledger = restoreLedger(current, backupOf([restoredAna, bruno], [current[0]]), [ana, bruno], 'Carla');
+    const added = ledger.slice(2);
+    expect(added.map(e => [e.participantId, e.type, e.periodIndex])).toEqual([
+      ['p1', 'backup-restored', undefined],
+      ['p1', 'unmark', 1]
+    ]);
+    expect(added.every(e => e.operator === 'Carla' && e.groupId === 'g1')).toBe(true);
+    expect(findLedgerMismatches(restoredAna, ledger.filter(e => e.participantId === 'p1'))).toEqual([]);
+  });
+});
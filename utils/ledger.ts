@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LedgerEvent, LedgerEventType, Participant, PricingOverride, Workspace } from '../types';
+import { PAYMENT_METHOD_LABELS, formatBRL } from './finance';
+import { isRecord } from './guards';
+import { isActiveParticipant } from './participant';
+
+export type LedgerEntry = Omit<LedgerEvent, 'id' | 'groupId' | 'operator' | 'timestamp'>;
+
+export const LEDGER_EVENT_LABELS: Record<LedgerEventType, string> = {
+  'mark-paid': 'Marcou como pago',
+  'unmark': 'Desmarcou pagamento',
+  'payment-added': 'Registrou pagamento',
+  'payment-removed': 'Removeu pagamento',
+  'amount-change': 'Alterou valor',
+  'note': 'Observação',
+  'contacted': 'Cobrança enviada',
+  'receipt-issued': 'Emitiu recibo',
+  'backup-restored': 'Restaurou backup'
+};
+
+// Recorded when nobody has identified themselves yet; the app never stops an edit to ask.
+export const UNIDENTIFIED_OPERATOR = '(não identificado)';
+
+export const createLedgerEvents = (entries: LedgerEntry[], groupId: string, operator: string): LedgerEvent[] => {
+  const timestamp = new Date().toISOString();
+  return entries.map(entry => ({ ...entry, id: uuidv4(), groupId, operator, timestamp }));
+};
+
+const describePricing = (pricing?: PricingOverride) => {
+  if (!pricing) return 'valor da turma';
+  if (pricing.kind === 'scholarship') return 'bolsista';
+  if (pricing.kind === 'fixed-price') return `valor fixo de ${formatBRL(pricing.value)}`;
+  return `desconto de ${pricing.value}%`;
+};
+
+// Turns any edit of a participant into ledger entries. Name/WhatsApp edits are
+// not payment events and produce nothing.
+export const diffParticipant = (before: Participant, after: Participant): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [];
+  const participantId = after.id;
+
+  const beforePayments = before.payments ?? [];
+  const afterPayments = after.payments ?? [];
+  afterPayments
+    .filter(p => !beforePayments.some(b => b.id === p.id))
+    .forEach(p => entries.push({
+      participantId,
+      type: 'payment-added',
+      periodIndex: p.periodIndex,
+      amount: p.amount,
+      paymentId: p.id,
+      note: `${PAYMENT_METHOD_LABELS[p.method]} em ${p.date.split('-').reverse().join('/')}`
+    }));
+  beforePayments
+    .filter(p => !afterPayments.some(a => a.id === p.id))
+    .forEach(p => entries.push({
+      participantId,
+      type: 'payment-removed',
+      periodIndex: p.periodIndex,
+      amount: p.amount,
+      paymentId: p.id
+    }));
+
+  // Periods cut off by a shorter cohort count as unmarked.
+  for (let periodIndex = 0; periodIndex < Math.max(before.weeks.length, after.weeks.length); periodIndex++) {
+    const paid = Boolean(after.weeks[periodIndex]);
+    if (Boolean(before.weeks[periodIndex]) !== paid) {
+      entries.push({ participantId, type: paid ? 'mark-paid' : 'unmark', periodIndex });
+    }
+  }
+
+  if (JSON.stringify(before.pricing ?? null) !== JSON.stringify(after.pricing ?? null)) {
+    entries.push({
+      participantId,
+      type: 'amount-change',
+      note: `${describePricing(before.pricing)} → ${describePricing(after.pricing)}`
+    });
+  }
+
+  return entries;
+};
+
+export const diffParticipants = (before: Participant[], after: Participant[]): LedgerEntry[] => {
+  const previous = new Map(before.map(p => [p.id, p]));
+  return after.flatMap(p => {
+    // Rows that did not exist before (e.g. imported) are compared against a blank row.
+    const old = previous.get(p.id) ?? { ...p, weeks: [], payments: [], pricing: undefined };
+    return old !== p ? diffParticipant(old, p) : [];
+  });
+};
+
+// Paid flags as the ledger tells them: the last mark/unmark of each period wins.
+// Periods the ledger never mentions are `null` (data from before the ledger existed).
+export const replayWeeks = (events: LedgerEvent[], periodCount: number): (boolean | null)[] => {
+  const weeks: (boolean | null)[] = new Array(periodCount).fill(null);
+  [...events]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach(event => {
+      if (event.periodIndex === undefined || event.periodIndex >= periodCount) return;
+      if (event.type === 'mark-paid') weeks[event.periodIndex] = true;
+      if (event.type === 'unmark') weeks[event.periodIndex] = false;
+    });
+  return weeks;
+};
+
+// Periods whose current flag disagrees with the ledger, including ones with no history at all.
+export const findLedgerMismatches = (participant: Participant, events: LedgerEvent[]) => {
+  const replayed = replayWeeks(events, participant.weeks.length);
+  return participant.weeks
+    .map((paid, periodIndex) => ({ periodIndex, paid, ledger: replayed[periodIndex] }))
+    .filter(({ paid, ledger }) => (ledger === null ? paid : ledger !== paid));
+};
+
+// Entries that bring the ledger in line with the current flags, for participants
+// whose history predates the ledger.
+export const reconcileEntries = (participant: Participant, events: LedgerEvent[]): LedgerEntry[] =>
+  findLedgerMismatches(participant, events).map(({ periodIndex, paid }) => ({
+    participantId: participant.id,
+    type: paid ? 'mark-paid' : 'unmark',
+    periodIndex,
+    note: 'Reconciliação com o estado atual'
+  }));
+
+const LEDGER_EVENT_TYPES = Object.keys(LEDGER_EVENT_LABELS) as LedgerEventType[];
+
+export const normalizeLedger = (value: unknown): LedgerEvent[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((e: unknown): LedgerEvent[] => {
+    if (
+      !isRecord(e) ||
+      typeof e.id !== 'string' ||
+      typeof e.participantId !== 'string' ||
+      typeof e.timestamp !== 'string' ||
+      !LEDGER_EVENT_TYPES.some(type => type === e.type)
+    ) return [];
+    // Optional fields are kept as stored; the checks above cover what every event needs.
+    return [{ ...e, operator: typeof e.operator === 'string' ? e.operator : '' } as LedgerEvent];
+  });
+};
+
+// Receipts are numbered across the whole workspace. Two people issuing offline
+// at the same moment could pick the same number; the ledger keeps both.
+export const getNextReceiptNumber = (ledger: LedgerEvent[]) =>
+  ledger.reduce((max, e) => e.type === 'receipt-issued' && e.receiptNumber ? Math.max(max, e.receiptNumber) : max, 0) + 1;
+
+// Periods already covered by a receipt for this participant.
+export const getReceiptedPeriods = (events: LedgerEvent[]) =>
+  new Set(events.filter(e => e.type === 'receipt-issued').flatMap(e => e.periodIndexes ?? []));
+
+// A restore keeps every event already recorded and adds the backup's by id.
+// Each participant the restore changes gets a 'backup-restored' event, plus the
+// marks that bring the ledger in line with the restored periods.
+export const restoreLedger = (current: LedgerEvent[], backup: Workspace, before: Participant[], operator: string): LedgerEvent[] => {
+  const known = new Set(current.map(e => e.id));
+  const ledger = [...current, ...backup.ledger.filter(e => !known.has(e.id))];
+  const previous = new Map(before.map(p => [p.id, p]));
+  const byParticipant = new Map<string, LedgerEvent[]>();
+  ledger.forEach(e => byParticipant.set(e.participantId, [...(byParticipant.get(e.participantId) ?? []), e]));
+
+  const restored = backup.groups.flatMap(group => createLedgerEvents(
+    group.participants
+      .filter(p => isActiveParticipant(p) && JSON.stringify(previous.get(p.id)) !== JSON.stringify(p))
+      .flatMap((p): LedgerEntry[] => [
+        { participantId: p.id, type: 'backup-restored' },
+        ...reconcileEntries(p, byParticipant.get(p.id) ?? []).map(entry => ({ ...entry, note: 'Estado do backup' }))
+      ]),
+    group.id,
+    operator
+  ));
+  return [...ledger, ...restored];
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Participant } from '../types';
+import { mergeFields } from './merge';
+
+describe('mergeFields', () => {
+  const base: Participant = { id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [false, false, false] };
+
+  it('takes the side that changed a field', () => {
+    expect(mergeFields(base, { ...base, name: 'Ana S.' }, base)).toEqual({ value: { ...base, name: 'Ana S.' }, conflicts: 0 });
+    expect(mergeFields(base, base, { ...base, name: 'Ana Lima' })).toEqual({ value: { ...base, name: 'Ana Lima' }, conflicts: 0 });
+  });
+
+  it('combines different fields changed on each side', () => {
+    const { value, conflicts } = mergeFields(base, { ...base, name: 'Ana S.' }, { ...base, whatsapp: '(11) 97777-0000' });
+    expect(value).toEqual({ ...base, name: 'Ana S.', whatsapp: '(11) 97777-0000' });
+    expect(conflicts).toBe(0);
+  });
+
+  it('keeps theirs and counts a conflict when both changed the same field', () => {
+    const { value, conflicts } = mergeFields(base, { ...base, name: 'Ana S.' }, { ...base, name: 'Ana Lima' });
+    expect(value.name).toBe('Ana Lima');
+    expect(conflicts).toBe(1);
+  });
+
+  it('merges period flags by index', () => {
+    const { value, conflicts } = mergeFields(base, { ...base, weeks: [true, false, false] }, { ...base, weeks: [false, false, true] });
+    expect(value.weeks).toEqual([true, false, true]);
+    expect(conflicts).toBe(0);
+  });
+
+  it('merges keyed lists item by item', () => {
+    const p1 = { id: 'pay1', amount: 5000 };
+    const p2 = { id: 'pay2', amount: 3000 };
+    const p3 = { id: 'pay3', amount: 1000 };
+    const { value, conflicts } = mergeFields([p1, p2], [p1, p2, p3], [p1, { ...p2, amount: 3500 }]);
+    expect(value).toEqual([p1, { ...p2, amount: 3500 }, p3]);
+    expect(conflicts).toBe(0);
+  });
+
+  it('keeps an item removed on one side only when the other side left it alone', () => {
+    const p1 = { id: 'pay1', amount: 5000 };
+    expect(mergeFields([p1], [], [p1])).toEqual({ value: [], conflicts: 0 });
+    expect(mergeFields([p1], [], [{ ...p1, amount: 4000 }])).toEqual({ value: [{ ...p1, amount: 4000 }], conflicts: 1 });
+  });
+
+  it('adds fields that only exist on one side without a base', () => {
+    const { value, conflicts } = mergeFields(undefined, { ...base, notes: 'Pagou no caixa' }, base);
+    expect(value).toEqual({ ...base, notes: 'Pagou no caixa' });
+    expect(conflicts).toBe(0);
+  });
+});
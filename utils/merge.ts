@@ -0,0 +1,81 @@
+// Three-way merge of one row (participant, group settings, message settings)
+// edited on two sides since a common base. A field only one side changed takes
+// that side's value; a field both sides changed to different values keeps
+// `theirs` and counts as a conflict.
+
+type Plain = Record<string, unknown>;
+
+interface Keyed {
+  id: string;
+}
+
+const isPlainObject = (value: unknown): value is Plain =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown) => value === null || typeof value !== 'object';
+
+// Lists of records with an id, such as payments: merged item by item.
+const isKeyedList = (value: unknown): value is Keyed[] =>
+  Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export interface MergeResult<T> {
+  value: T;
+  conflicts: number;
+}
+
+export const mergeFields = <T>(base: T | undefined, ours: T, theirs: T): MergeResult<T> => {
+  let conflicts = 0;
+
+  const merge = (b: unknown, o: unknown, t: unknown): unknown => {
+    if (same(o, t) || same(b, o)) return t;
+    if (same(b, t)) return o;
+
+    if (isPlainObject(o) && isPlainObject(t)) {
+      const previous = isPlainObject(b) ? b : {};
+      const result: Plain = {};
+      new Set([...Object.keys(t), ...Object.keys(o)]).forEach(key => {
+        const value = merge(previous[key], o[key], t[key]);
+        if (value !== undefined) result[key] = value;
+      });
+      return result;
+    }
+
+    // Period flags: one entry per period, so entries line up by index.
+    if (Array.isArray(o) && Array.isArray(t) && o.length === t.length && o.every(isScalar) && t.every(isScalar)) {
+      const previous = Array.isArray(b) && b.length === o.length ? b : [];
+      return t.map((item, i) => merge(previous[i], o[i], item));
+    }
+
+    if (isKeyedList(o) && isKeyedList(t)) {
+      const previous = new Map((isKeyedList(b) ? b : []).map(item => [item.id, item]));
+      const mine = new Map(o.map(item => [item.id, item]));
+      const result: Keyed[] = [];
+      t.forEach(item => {
+        const own = mine.get(item.id);
+        const before = previous.get(item.id);
+        if (own) result.push(merge(before, own, item) as Keyed);
+        // Removed on our side: gone, unless they changed it meanwhile.
+        else if (!before) result.push(item);
+        else if (!same(before, item)) {
+          conflicts++;
+          result.push(item);
+        }
+      });
+      o.forEach(item => {
+        if (t.some(other => other.id === item.id)) return;
+        const before = previous.get(item.id);
+        // Added on our side, or removed on theirs after we changed it.
+        if (!before) result.push(item);
+        else if (!same(before, item)) conflicts++;
+      });
+      return result;
+    }
+
+    conflicts++;
+    return t;
+  };
+
+  return { value: merge(base, ours, theirs) as T, conflicts };
+};
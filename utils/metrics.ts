@@ -0,0 +1,85 @@
+import { CohortSettings, Participant } from '../types';
+import { getCurrentPeriodIndex, getPeriodLabel } from './cohort';
+import { countPaidWeeks, isActiveParticipant, isFullyPaid } from './participant';
+
+export type RiskSegment = 'paid-up' | 'one-behind' | 'at-risk' | 'never-paid';
+
+export const RISK_SEGMENTS: RiskSegment[] = ['paid-up', 'one-behind', 'at-risk', 'never-paid'];
+
+export const RISK_SEGMENT_LABELS: Record<RiskSegment, string> = {
+  'paid-up': 'Em dia',
+  'one-behind': 'Um período atrasado',
+  'at-risk': 'Em risco (2+ atrasados)',
+  'never-paid': 'Nunca pagou'
+};
+
+export interface PeriodRate {
+  index: number;
+  label: string;
+  paid: number;
+  total: number;
+  rate: number; // 0..1
+}
+
+export interface AdherenceMetrics {
+  participantCount: number;
+  // Periods started so far (the current one included); 0 before the cohort starts.
+  periodsToDate: number;
+  // Paid periods to date over expected periods to date, across everyone.
+  adherenceRate: number;
+  fullyPaid: number;
+  periodRates: PeriodRate[];
+  // paidDistribution[n] = how many participants paid exactly n periods.
+  paidDistribution: number[];
+  segments: Record<RiskSegment, string[]>;
+}
+
+const unpaidToDate = (participant: Participant, periodsToDate: number) =>
+  participant.weeks.slice(0, periodsToDate).filter(paid => !paid).length;
+
+export const getRiskSegment = (participant: Participant, periodsToDate: number): RiskSegment => {
+  const unpaid = unpaidToDate(participant, periodsToDate);
+  if (unpaid === 0) return 'paid-up';
+  if (countPaidWeeks(participant) === 0) return 'never-paid';
+  return unpaid === 1 ? 'one-behind' : 'at-risk';
+};
+
+// Everything here is computed over the whole list, not a sample, so the numbers
+// shown (and sent to the AI) are exact.
+export const computeAdherence = (participants: Participant[], cohort: CohortSettings, today = new Date()): AdherenceMetrics => {
+  const active = participants.filter(isActiveParticipant);
+  const periodsToDate = getCurrentPeriodIndex(cohort, today) + 1;
+
+  const periodRates = Array.from({ length: cohort.periodCount }, (_, index) => {
+    const paid = active.filter(p => p.weeks[index]).length;
+    return {
+      index,
+      label: getPeriodLabel(cohort, index),
+      paid,
+      total: active.length,
+      rate: active.length ? paid / active.length : 0
+    };
+  });
+
+  const paidDistribution = new Array(cohort.periodCount + 1).fill(0);
+  const segments: Record<RiskSegment, string[]> = { 'paid-up': [], 'one-behind': [], 'at-risk': [], 'never-paid': [] };
+  let paidToDate = 0;
+  active.forEach(p => {
+    paidDistribution[Math.min(countPaidWeeks(p), cohort.periodCount)]++;
+    paidToDate += p.weeks.slice(0, periodsToDate).filter(Boolean).length;
+    segments[getRiskSegment(p, periodsToDate)].push(p.id);
+  });
+
+  const expected = active.length * periodsToDate;
+  return {
+    participantCount: active.length,
+    periodsToDate,
+    adherenceRate: expected ? paidToDate / expected : 0,
+    fullyPaid: active.filter(isFullyPaid).length,
+    periodRates,
+    paidDistribution,
+    segments
+  };
+};
+
+export const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
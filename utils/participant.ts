@@ -0,0 +1,22 @@
+import { Participant } from '../types';
+
+// A row counts as "active" once the user typed a name or a number into it.
+// The blank rows seeded on first load, and rows in the trash, are ignored by stats, exports and AI.
+export const isActiveParticipant = (participant: Participant) =>
+  !participant.deletedAt && (participant.name.trim() !== '' || participant.whatsapp.trim() !== '');
+
+// Placeholder row that new participants (imports, transfers) can take over.
+export const isBlankParticipant = (participant: Participant) =>
+  !participant.deletedAt && participant.name.trim() === '' && participant.whatsapp.trim() === '';
+
+export const countPaidWeeks = (participant: Participant) =>
+  participant.weeks.filter(Boolean).length;
+
+export const isFullyPaid = (participant: Participant) =>
+  participant.weeks.every(Boolean);
+
+// Same label shown in the status column of the spreadsheet: "PAGO" or "n/5".
+export const getStatusLabel = (participant: Participant) =>
+  isFullyPaid(participant)
+    ? 'PAGO'
+    : `${countPaidWeeks(participant)}/${participant.weeks.length}`;
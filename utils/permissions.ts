@@ -0,0 +1,56 @@
+import { LedgerEventType, Participant, UserRole } from '../types';
+
+export type Permission =
+  | 'edit-payments'   // toggle periods, payments, pricing
+  | 'delete'          // trash, purge, "Limpar"
+  | 'edit-contacts'   // name and WhatsApp
+  | 'send-messages'   // generate messages, campaigns, templates
+  | 'view-people'     // see the participant list at all
+  | 'manage-groups'   // create, configure, archive groups; import; transfer
+  | 'manage-data'     // backup restore
+  | 'manage-users';
+
+export const ROLES: UserRole[] = ['treasurer', 'assistant', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  treasurer: 'Tesoureiro',
+  assistant: 'Assistente',
+  viewer: 'Visualizador'
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  treasurer: 'Acesso total: pagamentos, exclusões, turmas, backup e usuários.',
+  assistant: 'Edita nomes e WhatsApp e envia mensagens; não mexe em pagamentos.',
+  viewer: 'Vê apenas as estatísticas.'
+};
+
+// Completes "Seu perfil não permite ...".
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'edit-payments': 'alterar pagamentos',
+  'delete': 'excluir participantes',
+  'edit-contacts': 'editar nomes e WhatsApp',
+  'send-messages': 'enviar mensagens nem editar modelos',
+  'view-people': 'ver a lista de participantes',
+  'manage-groups': 'gerenciar turmas',
+  'manage-data': 'restaurar backups',
+  'manage-users': 'gerenciar usuários'
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  treasurer: ['edit-payments', 'delete', 'edit-contacts', 'send-messages', 'view-people', 'manage-groups', 'manage-data', 'manage-users'],
+  assistant: ['edit-contacts', 'send-messages', 'view-people'],
+  viewer: []
+};
+
+export const hasPermission = (role: UserRole, permission: Permission) => ROLE_PERMISSIONS[role].includes(permission);
+
+// Ledger events someone without 'edit-payments' may still record.
+export const CONTACT_EVENT_TYPES: LedgerEventType[] = ['contacted', 'note'];
+
+// True when `after` differs from `before` in more than the contact fields.
+// A new row (no `before`) counts as a contact edit while it carries no payment data.
+export const changesBeyondContact = (before: Participant | null, after: Participant) => {
+  const paymentData = (p: Participant) => JSON.stringify([p.weeks.map(Boolean), p.payments ?? [], p.pricing ?? null, p.deletedAt ?? null]);
+  if (!before) return after.weeks.some(Boolean) || (after.payments?.length ?? 0) > 0 || !!after.pricing || !!after.deletedAt;
+  return paymentData(before) !== paymentData(after);
+};
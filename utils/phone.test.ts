@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Group } from '../types';
+import { createDefaultCohort } from './cohort';
+import { buildWhatsAppLink, findDuplicatePhones, formatPhone, formatPhoneInput, normalizePhone, parseBrazilianPhone, validatePhone } from './phone';
+
+describe('parseBrazilianPhone', () => {
+  it('reads the common layouts of one number', () => {
+    ['(11) 98888-7777', '11988887777', '+55 11 98888-7777', '011 98888-7777'].forEach(value => {
+      expect(parseBrazilianPhone(value)).toEqual({ ddd: '11', subscriber: '988887777', mobile: true, e164: '+5511988887777' });
+    });
+  });
+
+  it('adds the 9th digit to old 8-digit mobiles and keeps landlines', () => {
+    expect(parseBrazilianPhone('(11) 8888-7777')?.subscriber).toBe('988887777');
+    expect(parseBrazilianPhone('(11) 3333-4444')).toMatchObject({ subscriber: '33334444', mobile: false });
+  });
+
+  it('rejects foreign numbers, unknown area codes and wrong lengths', () => {
+    expect(parseBrazilianPhone('+1 415 555 0100')).toBeNull();
+    expect(parseBrazilianPhone('(20) 98888-7777')).toBeNull();
+    expect(parseBrazilianPhone('98888-7777')).toBeNull();
+    expect(parseBrazilianPhone('(11) 88888-7777')).toBeNull();
+  });
+});
+
+describe('validatePhone', () => {
+  it('accepts empty values and mobiles', () => {
+    expect(validatePhone('')).toBeNull();
+    expect(validatePhone('(11) 98888-7777')).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(validatePhone('+1 415 555 0100')).toBe('Apenas números do Brasil (+55) são aceitos.');
+    expect(validatePhone('98888-7777')).toBe('Número incompleto: informe DDD e número.');
+    expect(validatePhone('(11) 98888-77776')).toBe('Número com dígitos a mais.');
+    expect(validatePhone('(20) 98888-7777')).toBe('DDD 20 não existe.');
+    expect(validatePhone('(11) 3333-4444')).toBe('Parece um fixo; o WhatsApp normalmente usa celular.');
+  });
+});
+
+describe('formatting', () => {
+  it('masks while typing', () => {
+    expect(formatPhoneInput('1')).toBe('(1');
+    expect(formatPhoneInput('1198')).toBe('(11) 98');
+    expect(formatPhoneInput('1133334444')).toBe('(11) 3333-4444');
+    expect(formatPhoneInput('11988887777')).toBe('(11) 98888-7777');
+  });
+
+  it('formats complete numbers and keeps the rest as typed', () => {
+    expect(formatPhone('+55 11 8888-7777')).toBe('(11) 98888-7777');
+    expect(formatPhone('ligar depois')).toBe('ligar depois');
+  });
+
+  it('matches the same number across layouts', () => {
+    expect(normalizePhone('+55 11 98888-7777')).toBe('11988887777');
+    expect(normalizePhone('11 8888-7777')).toBe('11988887777');
+  });
+
+  it('links to WhatsApp only for valid numbers', () => {
+    expect(buildWhatsAppLink('(11) 98888-7777', 'Olá, tudo bem?')).toBe('https://wa.me/5511988887777?text=Ol%C3%A1%2C%20tudo%20bem%3F');
+    expect(buildWhatsAppLink('123', 'Olá')).toBeNull();
+  });
+});
+
+describe('findDuplicatePhones', () => {
+  const group = (id: string, name: string, participants: Group['participants']): Group => ({
+    id, name, archived: false, createdAt: '2024-01-01T00:00:00.000Z', settings: createDefaultCohort(), participants
+  });
+
+  it('lists where else each number appears, across groups', () => {
+    const groups = [
+      group('g1', 'Turma 1', [
+        { id: 'p1', name: 'Ana', whatsapp: '(11) 98888-7777', weeks: [] },
+        { id: 'p2', name: 'Bruno', whatsapp: '11 8888-7777', weeks: [] },
+        { id: 'p3', name: 'Carla', whatsapp: '(21) 97777-6666', weeks: [] },
+        { id: 'p4', name: 'Ana', whatsapp: '(11) 98888-7777', weeks: [], deletedAt: '2024-02-01T00:00:00.000Z' }
+      ]),
+      group('g2', 'Turma 2', [{ id: 'p5', name: '', whatsapp: '+55 11 98888-7777', weeks: [] }])
+    ];
+    const duplicates = findDuplicatePhones(groups, 'g1');
+    expect(Object.fromEntries(duplicates)).toEqual({
+      p1: 'Bruno, sem nome (Turma 2)',
+      p2: 'Ana, sem nome (Turma 2)',
+      p5: 'Ana, Bruno'
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Group } from '../types';
+import { isActiveParticipant } from './participant';
+
+const COUNTRY_CODE = '55';
+
+// Area codes (DDD) in use in Brazil, per Anatel.
+const VALID_DDDS = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19,
+  21, 22, 24, 27, 28,
+  31, 32, 33, 34, 35, 37, 38,
+  41, 42, 43, 44, 45, 46, 47, 48, 49,
+  51, 53, 54, 55,
+  61, 62, 63, 64, 65, 66, 67, 68, 69,
+  71, 73, 74, 75, 77, 79,
+  81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99
+].map(String));
+
+export interface ParsedPhone {
+  ddd: string;
+  // 9 digits for mobiles (always with the leading 9), 8 for landlines.
+  subscriber: string;
+  mobile: boolean;
+  // +5511988887777
+  e164: string;
+}
+
+// National digits: without the country code or the 0 trunk prefix ("011...").
+const toNationalDigits = (value: string) => {
+  let digits = value.replace(/\D/g, '');
+  if (digits.startsWith(COUNTRY_CODE) && digits.length >= 12) digits = digits.slice(2);
+  if (digits.startsWith('0') && digits.length >= 11) digits = digits.slice(1);
+  return digits;
+};
+
+const isForeign = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed.startsWith('+') && !trimmed.replace(/[\s()-]/g, '').startsWith(`+${COUNTRY_CODE}`);
+};
+
+// Parses a Brazilian number typed in any common layout. Old 8-digit mobiles get
+// the 9th digit added, so "(11) 8888-7777" and "(11) 98888-7777" are the same number.
+export const parseBrazilianPhone = (value: string): ParsedPhone | null => {
+  if (isForeign(value)) return null;
+  const digits = toNationalDigits(value);
+  if (digits.length !== 10 && digits.length !== 11) return null;
+
+  const ddd = digits.slice(0, 2);
+  let subscriber = digits.slice(2);
+  if (!VALID_DDDS.has(ddd)) return null;
+
+  if (subscriber.length === 9) {
+    if (!subscriber.startsWith('9')) return null;
+  } else if (/^[6-9]/.test(subscriber)) {
+    subscriber = `9${subscriber}`;
+  } else if (!/^[2-5]/.test(subscriber)) {
+    return null;
+  }
+
+  return { ddd, subscriber, mobile: subscriber.length === 9, e164: `+${COUNTRY_CODE}${ddd}${subscriber}` };
+};
+
+// Error shown under the WhatsApp cell, or null when the value is empty or valid.
+export const validatePhone = (value: string): string | null => {
+  if (value.trim() === '') return null;
+  if (isForeign(value)) return 'Apenas números do Brasil (+55) são aceitos.';
+
+  const digits = toNationalDigits(value);
+  if (digits.length < 10) return 'Número incompleto: informe DDD e número.';
+  if (digits.length > 11) return 'Número com dígitos a mais.';
+  if (!VALID_DDDS.has(digits.slice(0, 2))) return `DDD ${digits.slice(0, 2)} não existe.`;
+
+  const parsed = parseBrazilianPhone(value);
+  if (!parsed) return 'Número inválido.';
+  if (!parsed.mobile) return 'Parece um fixo; o WhatsApp normalmente usa celular.';
+  return null;
+};
+
+// Input mask applied while typing: "(11) 98888-7777", or "(11) 8888-7777" for 10 digits.
+// Numbers with a foreign country code are left as typed.
+export const formatPhoneInput = (value: string) => {
+  if (isForeign(value)) return value;
+  const digits = toNationalDigits(value).slice(0, 11);
+  if (digits.length === 0) return '';
+  if (digits.length <= 2) return `(${digits}`;
+
+  const ddd = digits.slice(0, 2);
+  const rest = digits.slice(2);
+  const split = rest.length > 8 ? 5 : 4;
+  if (rest.length <= split) return `(${ddd}) ${rest}`;
+  return `(${ddd}) ${rest.slice(0, split)}-${rest.slice(split)}`;
+};
+
+// Canonical display once the number is complete; anything unparseable is kept.
+export const formatPhone = (value: string) => {
+  const parsed = parseBrazilianPhone(value);
+  if (!parsed) return value;
+  const { ddd, subscriber } = parsed;
+  const split = subscriber.length - 4;
+  return `(${ddd}) ${subscriber.slice(0, split)}-${subscriber.slice(split)}`;
+};
+
+// Digits-only key used to detect the same person across imports and edits.
+// Parseable numbers use their national form with the 9th digit, so
+// "+55 11 98888-7777", "(11) 98888-7777" and "11 8888-7777" all match.
+export const normalizePhone = (value: string) => {
+  const parsed = parseBrazilianPhone(value);
+  if (parsed) return `${parsed.ddd}${parsed.subscriber}`;
+  return toNationalDigits(value);
+};
+
+export const buildWhatsAppLink = (value: string, text: string) => {
+  const parsed = parseBrazilianPhone(value);
+  if (!parsed) return null;
+  return `https://wa.me/${parsed.e164.slice(1)}?text=${encodeURIComponent(text)}`;
+};
+
+// For every participant whose number also appears on another row, a short
+// description of where ("Maria", "João (Turma 2)"). Rows in the trash are ignored.
+export const findDuplicatePhones = (groups: Group[], activeGroupId: string) => {
+  const owners = new Map<string, { id: string; label: string }[]>();
+  groups.forEach(group => {
+    group.participants.filter(isActiveParticipant).forEach(p => {
+      const key = normalizePhone(p.whatsapp);
+      if (key.length < 10) return;
+      const name = p.name.trim() || 'sem nome';
+      const label = group.id === activeGroupId ? name : `${name} (${group.name})`;
+      owners.set(key, [...(owners.get(key) ?? []), { id: p.id, label }]);
+    });
+  });
+
+  const duplicates = new Map<string, string>();
+  owners.forEach(list => {
+    if (list.length < 2) return;
+    list.forEach(owner => {
+      duplicates.set(owner.id, list.filter(o => o !== owner).map(o => o.label).join(', '));
+    });
+  });
+  return duplicates;
+};
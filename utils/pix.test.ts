@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PixSettings } from '../types';
+import { buildPixPayload, normalizePixKey, validatePixKey } from './pix';
+
+// The static BR Code example from the Banco Central Pix manual.
+const MANUAL_EXAMPLE =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR' +
+  '5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+const pix: PixSettings = { keyType: 'random', key: '123e4567-e12b-12d1-a456-426655440000', beneficiary: 'Fulano de Tal', city: 'BRASILIA' };
+
+describe('buildPixPayload', () => {
+  it('matches the manual example, CRC16 included', () => {
+    expect(buildPixPayload(pix, { amount: 0 })).toBe(MANUAL_EXAMPLE);
+  });
+
+  it('adds the amount, description and txid fields', () => {
+    const payload = buildPixPayload(pix, { amount: 12345, txid: 'abc-123', description: 'Mensalidade' });
+    expect(payload).toContain('0211Mensalidade');
+    expect(payload).toContain('5406123.45');
+    expect(payload).toContain('62100506abc123');
+    expect(payload).toMatch(/6304[0-9A-F]{4}$/);
+  });
+
+  it('writes names and cities as plain ASCII within their limits', () => {
+    const payload = buildPixPayload({ ...pix, beneficiary: 'Associação São João', city: 'São José dos Campos' }, { amount: 0 });
+    expect(payload).toContain('5919Associacao Sao Joao');
+    expect(payload).toContain('6015Sao Jose dos Ca');
+  });
+
+  it('changes the CRC when the content changes', () => {
+    const crc = (payload: string) => payload.slice(-4);
+    expect(crc(buildPixPayload(pix, { amount: 100 }))).not.toBe(crc(MANUAL_EXAMPLE));
+  });
+});
+
+describe('Pix keys', () => {
+  it('normalizes keys the way the Pix directory stores them', () => {
+    expect(normalizePixKey('cpf', '123.456.789-09')).toBe('12345678909');
+    expect(normalizePixKey('phone', '(11) 98888-7777')).toBe('+5511988887777');
+    expect(normalizePixKey('email', ' Tesouraria@Hubx.org ')).toBe('tesouraria@hubx.org');
+  });
+
+  it('rejects keys in the wrong shape', () => {
+    expect(validatePixKey('cpf', '123.456.789-09')).toBeNull();
+    expect(validatePixKey('cpf', '123')).toBe('O CPF tem 11 dígitos.');
+    expect(validatePixKey('phone', '98888-7777')).toBe('Informe DDD e número.');
+    expect(validatePixKey('email', 'tesouraria')).toBe('E-mail inválido.');
+  });
+});
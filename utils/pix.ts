@@ -0,0 +1,108 @@
+import { CohortSettings, Participant, PixKeyType, PixSettings } from '../types';
+import { getParticipantBalance } from './finance';
+import { isRecord } from './guards';
+
+export const PIX_KEY_TYPE_LABELS: Record<PixKeyType, string> = {
+  cpf: 'CPF',
+  cnpj: 'CNPJ',
+  phone: 'Celular',
+  email: 'E-mail',
+  random: 'Chave aleatória'
+};
+
+export const createDefaultPix = (): PixSettings => ({ keyType: 'cpf', key: '', beneficiary: '', city: '' });
+
+const RANDOM_KEY = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// The key as the Pix directory stores it: digits only for CPF/CNPJ, +55 for phones.
+export const normalizePixKey = (type: PixKeyType, key: string) => {
+  const digits = key.replace(/\D/g, '');
+  if (type === 'cpf' || type === 'cnpj') return digits;
+  if (type === 'phone') return digits.length <= 11 ? `+55${digits}` : `+${digits}`;
+  return key.trim().toLowerCase();
+};
+
+export const validatePixKey = (type: PixKeyType, key: string): string | null => {
+  const normalized = normalizePixKey(type, key);
+  if (type === 'cpf' && normalized.length !== 11) return 'O CPF tem 11 dígitos.';
+  if (type === 'cnpj' && normalized.length !== 14) return 'O CNPJ tem 14 dígitos.';
+  if (type === 'phone' && !/^\+55\d{10,11}$/.test(normalized)) return 'Informe DDD e número.';
+  if (type === 'email' && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalized)) return 'E-mail inválido.';
+  if (type === 'random' && !RANDOM_KEY.test(normalized)) return 'A chave aleatória tem o formato 123e4567-e89b-12d3-a456-426614174000.';
+  return null;
+};
+
+// Ready to generate codes: a valid key and a beneficiary name.
+export const isPixConfigured = (pix: PixSettings) =>
+  pix.key.trim() !== '' && pix.beneficiary.trim() !== '' && validatePixKey(pix.keyType, pix.key) === null;
+
+const PIX_KEY_TYPES = Object.keys(PIX_KEY_TYPE_LABELS) as PixKeyType[];
+
+export const normalizePix = (value: unknown): PixSettings => {
+  const defaults = createDefaultPix();
+  if (!isRecord(value)) return defaults;
+  const text = (field: unknown) => typeof field === 'string' ? field : '';
+  return {
+    keyType: PIX_KEY_TYPES.find(type => type === value.keyType) ?? defaults.keyType,
+    key: text(value.key),
+    beneficiary: text(value.beneficiary),
+    city: text(value.city)
+  };
+};
+
+// The EMV fields only take plain ASCII, without accents.
+const toAscii = (value: string, maxLength: number) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '').trim().slice(0, maxLength);
+
+const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// CRC16-CCITT (polynomial 0x1021, initial 0xFFFF), as required by the BR Code spec.
+const crc16 = (payload: string) => {
+  let crc = 0xFFFF;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xFFFF;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export interface PixCharge {
+  amount: number; // centavos; 0 lets the payer type the amount
+  // Shows up in the payer's bank app and statement, helping to match the payment.
+  txid?: string;
+  description?: string;
+}
+
+// Static "Pix Copia e Cola" payload (BR Code, EMV QRCPS-MPM), also used as the QR content.
+export const buildPixPayload = (pix: PixSettings, charge: PixCharge) => {
+  const txid = toAscii(charge.txid ?? '', 25).replace(/[^A-Za-z0-9]/g, '') || '***';
+  const description = toAscii(charge.description ?? '', 40);
+  const account = field('00', 'br.gov.bcb.pix') +
+    field('01', normalizePixKey(pix.keyType, pix.key)) +
+    (description ? field('02', description) : '');
+
+  const payload = field('00', '01') +
+    field('26', account) +
+    field('52', '0000') +
+    field('53', '986') +
+    (charge.amount > 0 ? field('54', (charge.amount / 100).toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', toAscii(pix.beneficiary, 25) || 'N') +
+    field('60', toAscii(pix.city, 15) || 'BRASIL') +
+    field('62', field('05', txid)) +
+    '6304';
+  return payload + crc16(payload);
+};
+
+// What `participant` owes now: the overdue amount, or everything pending when
+// nothing is late yet. The txid ties the payment back to the participant.
+export const getParticipantCharge = (participant: Participant, cohort: CohortSettings, today = new Date()): PixCharge => {
+  const balance = getParticipantBalance(participant, cohort, today);
+  return {
+    amount: balance.overdue > 0 ? balance.overdue : balance.pending,
+    txid: participant.id.replace(/-/g, '').slice(0, 25)
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CohortSettings, Participant, StatementEntry } from '../types';
+import { matchStatement, nameSimilarity } from './reconcile';
+
+const cohort: CohortSettings = { periodCount: 3, startDate: '2024-03-04', frequency: 'weekly', periodPrice: 5000, dueOffsetDays: 0 };
+
+const maria: Participant = { id: 'p1', name: 'Maria Silva Oliveira', whatsapp: '', weeks: [true, false, false] };
+const mariana: Participant = { id: 'p2', name: 'Mariana Costa', whatsapp: '', weeks: [false, false, false] };
+const joao: Participant = { id: 'p3', name: 'João Pedro Santos', whatsapp: '', weeks: [false, false, false] };
+const blank: Participant = { id: 'p4', name: '', whatsapp: '', weeks: [false, false, false] };
+
+const entry = (id: string, date: string, description: string, amount = 5000): StatementEntry => ({ id, date, description, amount });
+
+describe('nameSimilarity', () => {
+  it('credits the abbreviations banks use', () => {
+    expect(nameSimilarity('João Pedro Santos', 'TED JOAO PEDRO SANT')).toBeCloseTo(2.9 / 3);
+    expect(nameSimilarity('Maria Silva Oliveira', 'PIX RECEBIDO MARIA S OLIVEIRA')).toBeCloseTo(2.5 / 3);
+  });
+
+  it('halves the score when the first name is missing', () => {
+    expect(nameSimilarity('Ana Oliveira', 'PIX MARIA OLIVEIRA')).toBe(0.25);
+    expect(nameSimilarity('Ana', '')).toBe(0);
+  });
+});
+
+describe('matchStatement', () => {
+  const entries = [
+    entry('e3', '2024-03-12', 'TED JOAO PEDRO SANT'),
+    entry('e2', '2024-03-11', 'PIX RECEBIDO MARIA S OLIVEIRA'),
+    entry('e1', '2024-03-05', 'TED JOAO PEDRO SANT'),
+    entry('e4', '2024-03-13', 'PIX RECEBIDO FULANO BELTRANO')
+  ];
+  const matches = matchStatement(entries, [maria, mariana, joao, blank], cohort);
+
+  it('takes entries in date order', () => {
+    expect(matches.map(m => m.entry.id)).toEqual(['e1', 'e2', 'e3', 'e4']);
+  });
+
+  it('proposes the open period the amount pays off', () => {
+    const [, forMaria] = matches;
+    expect(forMaria.candidates.map(c => [c.participant.id, c.periodIndex])).toEqual([['p1', 1]]);
+    expect(forMaria.confident).toBe(true);
+  });
+
+  it("doesn't propose the same period twice for one person", () => {
+    const [first, , second] = matches;
+    expect(first.candidates[0]).toMatchObject({ participant: joao, periodIndex: 0 });
+    expect(second.candidates[0]).toMatchObject({ participant: joao, periodIndex: 1 });
+  });
+
+  it('leaves payers nobody resembles without candidates', () => {
+    expect(matches[3]).toMatchObject({ candidates: [], confident: false });
+  });
+
+  it('is not confident when two people are close', () => {
+    const twins: Participant[] = [
+      { id: 'a', name: 'Maria Souza', whatsapp: '', weeks: [false, false, false] },
+      { id: 'b', name: 'Maria Santos', whatsapp: '', weeks: [false, false, false] }
+    ];
+    const [match] = matchStatement([entry('e1', '2024-03-04', 'PIX MARIA S')], twins, cohort);
+    expect(match.candidates).toHaveLength(2);
+    expect(match.confident).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { CohortSettings, Group, Participant, StatementEntry } from '../types';
+import { getPeriodDueDate, parseIsoDate } from './cohort';
+import { getAmountOutstanding } from './finance';
+import { isActiveParticipant } from './participant';
+
+export interface MatchCandidate {
+  participant: Participant;
+  score: number; // 0..1
+  // Proposed period, or null when everything is already paid.
+  periodIndex: number | null;
+}
+
+export interface StatementMatch {
+  entry: StatementEntry;
+  // Best first; only people whose name resembles the payer.
+  candidates: MatchCandidate[];
+  // The top candidate, when it is clearly ahead of the others.
+  confident: boolean;
+}
+
+// What the user confirmed: `entry` settles `periodIndex` of that participant.
+export interface ReconciledEntry {
+  entry: StatementEntry;
+  participantId: string;
+  periodIndex: number;
+}
+
+// Words banks add around the payer's name, and name particles.
+const NOISE_WORDS = new Set([
+  'pix', 'recebido', 'recebida', 'receb', 'transferencia', 'transf', 'ted', 'doc', 'tev', 'credito', 'cred',
+  'pagamento', 'pgto', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'para', 'ltda', 'me', 'sa'
+]);
+
+const MIN_NAME_SCORE = 0.5;
+const MAX_CANDIDATES = 5;
+
+export const nameTokens = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]+/g, ' ')
+    .split(' ').filter(token => token && !NOISE_WORDS.has(token));
+
+// How much of the participant's name shows up in the statement text. Banks
+// abbreviate ("MARIA S OLIVEIRA", "JOAO PEDRO SANT"), so initials and prefixes
+// count too; a payer with the same surname but another first name scores half.
+export const nameSimilarity = (name: string, description: string) => {
+  const wanted = nameTokens(name);
+  const found = nameTokens(description);
+  if (wanted.length === 0 || found.length === 0) return 0;
+  const credit = (token: string) => found.reduce((best, other) => {
+    if (other === token) return 1;
+    if (Math.min(token.length, other.length) >= 3 && (token.startsWith(other) || other.startsWith(token))) return Math.max(best, 0.9);
+    if (other.length === 1 && token.startsWith(other)) return Math.max(best, 0.5);
+    return best;
+  }, 0);
+  const score = wanted.reduce((total, token) => total + credit(token), 0) / wanted.length;
+  return credit(wanted[0]) >= 0.9 ? score : score / 2;
+};
+
+// The earliest open period this amount pays off exactly, or else the earliest open one.
+export const proposePeriod = (participant: Participant, cohort: CohortSettings, amount: number, taken: Set<number> = new Set()) => {
+  const open = participant.weeks
+    .map((paid, i) => (paid || taken.has(i) || getAmountOutstanding(participant, cohort, i) === 0 ? -1 : i))
+    .filter(i => i >= 0);
+  const exact = open.find(i => getAmountOutstanding(participant, cohort, i) === amount);
+  return exact ?? open[0] ?? null;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Name weighs the most; the amount and how close the date is to the due date break ties.
+const scoreCandidate = (entry: StatementEntry, participant: Participant, cohort: CohortSettings, nameScore: number, periodIndex: number | null) => {
+  if (periodIndex === null) return nameScore * 0.6;
+  const outstanding = getAmountOutstanding(participant, cohort, periodIndex);
+  const amountScore = entry.amount === outstanding ? 1 : entry.amount < outstanding ? 0.4 : 0.2;
+  const days = Math.abs(parseIsoDate(entry.date).getTime() - getPeriodDueDate(cohort, periodIndex).getTime()) / DAY;
+  const dateScore = days <= 7 ? 1 : Math.max(0, 1 - (days - 7) / 53);
+  return nameScore * 0.6 + amountScore * 0.25 + dateScore * 0.15;
+};
+
+// Matches every entry against the group's participants. Entries are taken in date
+// order, and a period proposed for one entry isn't proposed again for the next
+// payment of the same person.
+export const matchStatement = (entries: StatementEntry[], participants: Participant[], cohort: CohortSettings): StatementMatch[] => {
+  const people = participants.filter(p => isActiveParticipant(p) && p.name.trim());
+  const taken = new Map<string, Set<number>>();
+
+  return [...entries].sort((a, b) => a.date.localeCompare(b.date)).map(entry => {
+    const candidates = people
+      .map(participant => ({ participant, nameScore: nameSimilarity(participant.name, entry.description) }))
+      .filter(({ nameScore }) => nameScore >= MIN_NAME_SCORE)
+      .map(({ participant, nameScore }) => {
+        const periodIndex = proposePeriod(participant, cohort, entry.amount, taken.get(participant.id));
+        return { participant, periodIndex, score: scoreCandidate(entry, participant, cohort, nameScore, periodIndex) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+
+    const [best, runnerUp] = candidates;
+    const confident = !!best && best.periodIndex !== null && best.score >= 0.8 && (!runnerUp || best.score - runnerUp.score >= 0.15);
+    if (best?.periodIndex != null) {
+      const periods = taken.get(best.participant.id) ?? new Set<number>();
+      periods.add(best.periodIndex);
+      taken.set(best.participant.id, periods);
+    }
+    return { entry, candidates, confident };
+  });
+};
+
+// Statement entries already recorded as payments anywhere in the workspace, trash included.
+export const getPaymentReferences = (groups: Group[]) =>
+  new Set(groups.flatMap(g => g.participants.flatMap(p => (p.payments ?? []).flatMap(payment => payment.reference ? [payment.reference] : []))));
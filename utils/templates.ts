@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CohortSettings, MessageSituation, MessageTemplate, MessagingSettings, Participant, PixSettings } from '../types';
+import { formatShortDate, getCurrentPeriodIndex, getPeriodDueDate, getPeriodLabel } from './cohort';
+import { formatBRL, getParticipantBalance } from './finance';
+import { isFullyPaid } from './participant';
+import { countUnpaidToDate } from './campaign';
+import { isRecord } from './guards';
+import { buildPixPayload, createDefaultPix, getParticipantCharge, isPixConfigured, normalizePix } from './pix';
+
+export const SITUATION_LABELS: Record<MessageSituation, string> = {
+  'thanks': 'Agradecimento',
+  'reminder': 'Primeiro lembrete',
+  'final-notice': 'Último aviso'
+};
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'nome', description: 'Nome completo' },
+  { name: 'primeiro_nome', description: 'Primeiro nome' },
+  { name: 'turma', description: 'Nome da turma' },
+  { name: 'semanas_pendentes', description: 'Quantidade de períodos em aberto até hoje' },
+  { name: 'periodos_pendentes', description: 'Lista dos períodos em aberto até hoje' },
+  { name: 'valor_devido', description: 'Valor total em aberto' },
+  { name: 'valor_vencido', description: 'Valor já vencido' },
+  { name: 'proximo_vencimento', description: 'Vencimento do primeiro período em aberto' },
+  { name: 'link_pix', description: 'Pix Copia e Cola com o valor devido (ou o link Pix configurado)' }
+];
+
+export const DEFAULT_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'default-thanks',
+    name: 'Obrigado!',
+    situation: 'thanks',
+    body: 'Olá, {primeiro_nome}! 🎉 Passando para agradecer: seus pagamentos da {turma} estão em dia. Obrigado pela confiança e bora seguir firme! 💪'
+  },
+  {
+    id: 'default-reminder',
+    name: 'Lembrete amigável',
+    situation: 'reminder',
+    body: 'Oi, {primeiro_nome}! 😊 Tudo bem? Só um lembrete: {se periodos_pendentes}ficou em aberto {periodos_pendentes}{/se}{se valor_devido}, no total de {valor_devido}{/se}.{se link_pix}\nPara pagar pelo Pix: {link_pix}{/se}\nQualquer dúvida, é só chamar!'
+  },
+  {
+    id: 'default-final-notice',
+    name: 'Último aviso',
+    situation: 'final-notice',
+    body: 'Olá, {nome}. Ainda não identificamos o pagamento de {semanas_pendentes} períodos da {turma}{se valor_vencido} ({valor_vencido} vencidos){/se}. Precisamos regularizar até {proximo_vencimento} para manter sua participação.{se link_pix}\nPix: {link_pix}{/se}'
+  }
+];
+
+export const createDefaultMessaging = (): MessagingSettings => ({
+  templates: DEFAULT_TEMPLATES.map(t => ({ ...t })),
+  pixLink: '',
+  pix: createDefaultPix()
+});
+
+export const createTemplate = (situation: MessageSituation): MessageTemplate => ({
+  id: uuidv4(),
+  name: 'Novo modelo',
+  situation,
+  body: ''
+});
+
+const SITUATIONS = Object.keys(SITUATION_LABELS) as MessageSituation[];
+
+export const normalizeMessaging = (value: unknown): MessagingSettings => {
+  if (!isRecord(value) || !Array.isArray(value.templates)) return createDefaultMessaging();
+  return {
+    templates: value.templates.flatMap((t: unknown): MessageTemplate[] => {
+      if (!isRecord(t) || typeof t.body !== 'string') return [];
+      return [{
+        id: typeof t.id === 'string' ? t.id : uuidv4(),
+        name: typeof t.name === 'string' ? t.name : 'Modelo',
+        situation: SITUATIONS.find(situation => situation === t.situation) ?? 'reminder',
+        body: t.body
+      }];
+    }),
+    pixLink: typeof value.pixLink === 'string' ? value.pixLink : '',
+    pix: normalizePix(value.pix)
+  };
+};
+
+// Each variable's text, plus whether it counts as "present" for `{se ...}` blocks:
+// zero amounts and empty lists are absent, so "{se valor_vencido}" hides when nothing is late.
+export type TemplateValues = Record<string, { text: string; present: boolean }>;
+
+export interface TemplateContext {
+  groupName: string;
+  pixLink: string;
+  // With a key set, `{link_pix}` is the participant's own "Pix Copia e Cola" code.
+  pix?: PixSettings;
+  today?: Date;
+}
+
+export const buildTemplateValues = (
+  participant: Participant,
+  cohort: CohortSettings,
+  context: TemplateContext
+): TemplateValues => {
+  const today = context.today ?? new Date();
+  const balance = getParticipantBalance(participant, cohort, today);
+  const current = getCurrentPeriodIndex(cohort, today);
+  const open = participant.weeks
+    .map((paid, index) => ({ paid, index }))
+    .filter(({ paid, index }) => !paid && index <= current);
+  const firstOpen = participant.weeks.findIndex(paid => !paid);
+  const name = participant.name.trim();
+
+  const value = (text: string, present = text !== '') => ({ text, present });
+  return {
+    nome: value(name || 'participante', name !== ''),
+    primeiro_nome: value(name.split(/\s+/)[0] || 'participante', name !== ''),
+    turma: value(context.groupName),
+    semanas_pendentes: value(String(open.length), open.length > 0),
+    periodos_pendentes: value(open.map(({ index }) => getPeriodLabel(cohort, index)).join(', ')),
+    valor_devido: value(formatBRL(balance.pending), balance.pending > 0),
+    valor_vencido: value(formatBRL(balance.overdue), balance.overdue > 0),
+    proximo_vencimento: value(firstOpen === -1 ? '' : formatShortDate(getPeriodDueDate(cohort, firstOpen))),
+    link_pix: value(context.pix && isPixConfigured(context.pix)
+      ? buildPixPayload(context.pix, getParticipantCharge(participant, cohort, today))
+      : context.pixLink.trim())
+  };
+};
+
+// Innermost block first, so blocks can be nested.
+const CONDITIONAL_BLOCK = /\{se (!?)(\w+)\}((?:(?!\{se )[\s\S])*?)\{\/se\}/;
+
+// Fills `{variable}` placeholders and resolves `{se var}...{/se}` / `{se !var}...{/se}` blocks.
+// Unknown variables are left as typed so mistakes show up in the preview.
+export const renderTemplate = (body: string, values: TemplateValues) => {
+  let text = body;
+  let match: RegExpExecArray | null;
+  while ((match = CONDITIONAL_BLOCK.exec(text))) {
+    const [block, negate, variable, content] = match;
+    const present = values[variable]?.present ?? false;
+    text = text.replace(block, () => present !== (negate === '!') ? content : '');
+  }
+  return text.replace(/\{(\w+)\}/g, (placeholder, variable) => values[variable]?.text ?? placeholder);
+};
+
+export const getSituation = (participant: Participant, cohort: CohortSettings, today = new Date()): MessageSituation => {
+  if (isFullyPaid(participant)) return 'thanks';
+  const balance = getParticipantBalance(participant, cohort, today);
+  return balance.overdue > 0 && countUnpaidToDate(participant, cohort, today) >= 2 ? 'final-notice' : 'reminder';
+};
+
+// The template used for a participant: the chosen one, or the first for their situation.
+export const pickTemplate = (
+  templates: MessageTemplate[],
+  participant: Participant,
+  cohort: CohortSettings,
+  templateId?: string
+) => {
+  const chosen = templateId ? templates.find(t => t.id === templateId) : undefined;
+  if (chosen) return chosen;
+  const situation = getSituation(participant, cohort);
+  return templates.find(t => t.situation === situation) ?? null;
+};
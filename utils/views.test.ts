@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { CohortSettings, CustomField, Participant } from '../types';
+import { ListView, createDefaultView, filterParticipants, sortParticipants, toggleSort, viewFromParams, viewToParams } from './views';
+
+const cohort: CohortSettings = { periodCount: 3, startDate: '2024-03-04', frequency: 'weekly', periodPrice: 5000, dueOffsetDays: 0 };
+// Periods 1 and 2 are past their due date, period 3 is not.
+const today = new Date(2024, 2, 12);
+const fields: CustomField[] = [{ id: 'f1', name: 'Bairro', type: 'select', options: ['Centro', 'Norte'] }];
+
+const ana: Participant = { id: 'p1', name: 'Ana Souza', whatsapp: '(11) 98888-7777', weeks: [true, true, true], tags: ['VIP'] };
+const bruno: Participant = { id: 'p2', name: 'Bruno Lima', whatsapp: '(21) 97777-6666', weeks: [true, false, false], customFields: { f1: 'Centro' } };
+const carla: Participant = {
+  id: 'p3', name: 'Carla Dias', whatsapp: '(31) 96666-5555', weeks: [false, false, false], notes: 'Liga à noite',
+  payments: [{ id: 'pay1', periodIndex: 0, amount: 2000, date: '2024-03-05', method: 'pix' }]
+};
+const blank: Participant = { id: 'p4', name: '', whatsapp: '', weeks: [false, false, false] };
+const participants = [ana, bruno, carla, blank];
+
+const filter = (changes: Partial<ListView>) =>
+  filterParticipants(participants, { ...createDefaultView(), ...changes }, cohort, fields, today).map(p => p.id);
+
+describe('filterParticipants', () => {
+  it('returns everyone, blank rows included, without search or filters', () => {
+    expect(filter({})).toEqual(['p1', 'p2', 'p3', 'p4']);
+  });
+
+  it('searches names, numbers, tags, notes and custom fields', () => {
+    expect(filter({ search: 'bruno' })).toEqual(['p2']);
+    expect(filter({ search: '21 9777' })).toEqual(['p2']);
+    expect(filter({ search: 'vip' })).toEqual(['p1']);
+    expect(filter({ search: 'noite' })).toEqual(['p3']);
+    expect(filter({ search: 'centro' })).toEqual(['p2']);
+  });
+
+  it('filters by status and leaves blank rows out', () => {
+    expect(filter({ status: 'paid' })).toEqual(['p1']);
+    expect(filter({ status: 'partial' })).toEqual(['p2']);
+    expect(filter({ status: 'none' })).toEqual(['p3']);
+  });
+
+  it('filters by an unpaid period, ignoring periods past the cohort', () => {
+    expect(filter({ unpaidPeriod: 1 })).toEqual(['p2', 'p3']);
+    expect(filter({ unpaidPeriod: 5 })).toEqual([]);
+  });
+
+  it('filters by overdue and total amounts', () => {
+    expect(filter({ minOverdue: 5000 })).toEqual(['p2', 'p3']);
+    expect(filter({ minOverdue: 6000 })).toEqual(['p3']);
+    expect(filter({ minPending: 10000 })).toEqual(['p2', 'p3']);
+    expect(filter({ minPending: 10001 })).toEqual(['p3']);
+  });
+
+  it('filters by tag and custom field', () => {
+    expect(filter({ tag: 'vip' })).toEqual(['p1']);
+    expect(filter({ field: { id: 'f1', value: 'centro' } })).toEqual(['p2']);
+    expect(filter({ field: { id: 'missing', value: 'Centro' } })).toEqual([]);
+  });
+});
+
+describe('sorting', () => {
+  it('sorts by name either way and keeps blank rows last', () => {
+    const sorted = (view: ListView) => sortParticipants([blank, carla, ana, bruno], view).map(p => p.id);
+    expect(sorted({ ...createDefaultView(), sortField: 'name' })).toEqual(['p1', 'p2', 'p3', 'p4']);
+    expect(sorted({ ...createDefaultView(), sortField: 'name', sortOrder: 'desc' })).toEqual(['p3', 'p2', 'p1', 'p4']);
+    expect(sorted({ ...createDefaultView(), sortField: 'status' })).toEqual(['p3', 'p2', 'p1', 'p4']);
+  });
+
+  it('cycles ascending, descending and unsorted', () => {
+    const asc = toggleSort(createDefaultView(), 'name');
+    const desc = toggleSort(asc, 'name');
+    expect([asc.sortField, asc.sortOrder, desc.sortOrder]).toEqual(['name', 'asc', 'desc']);
+    expect(toggleSort(desc, 'name').sortField).toBeUndefined();
+  });
+});
+
+describe('view URLs', () => {
+  it('round-trips a view through the query string', () => {
+    const view: ListView = {
+      search: 'ana', status: 'partial', unpaidPeriod: 2, minOverdue: 5050, minPending: 20000,
+      tag: 'vip', field: { id: 'f1', value: 'Centro' }, sortField: 'name', sortOrder: 'desc'
+    };
+    const params = viewToParams(view);
+    expect(params.toString()).toBe('q=ana&status=partial&unpaid=3&overdue=50.5&owed=200&tag=vip&field=f1%3ACentro&sort=-name');
+    expect(viewFromParams(params)).toEqual(view);
+  });
+
+  it('ignores unknown and empty values', () => {
+    expect(viewFromParams(new URLSearchParams('status=toString&overdue=&owed=abc&unpaid=0&sort=age'))).toEqual(createDefaultView());
+  });
+
+  it('reads amounts with a decimal comma', () => {
+    expect(viewFromParams(new URLSearchParams('overdue=12,5')).minOverdue).toBe(1250);
+  });
+});
@@ -0,0 +1,177 @@
+import { CohortSettings, CustomField, Participant, SortField, SortOrder } from '../types';
+import { getParticipantBalance } from './finance';
+import { formatFieldValue, getFieldValue, hasTag } from './fields';
+import { countPaidWeeks, isActiveParticipant, isFullyPaid } from './participant';
+import { normalizePhone } from './phone';
+
+export type StatusFilter = 'paid' | 'partial' | 'none';
+
+export const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  paid: 'Pagos',
+  partial: 'Pagaram parte',
+  none: 'Nenhum pagamento'
+};
+
+// What the list shows: search, filters and sort. Empty fields don't filter.
+export interface ListView {
+  search: string;
+  status?: StatusFilter;
+  unpaidPeriod?: number; // period index the participant hasn't paid
+  minOverdue?: number; // centavos overdue (past the due date), at least
+  minPending?: number; // centavos owed in total, due or not, at least
+  tag?: string;
+  // A custom field: the chosen option of a select field, or text the value contains.
+  field?: { id: string; value: string };
+  sortField?: SortField;
+  sortOrder: SortOrder;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  view: ListView;
+}
+
+export const createDefaultView = (): ListView => ({ search: '', sortOrder: 'asc' });
+
+// Whether anything besides the search box is set.
+export const hasFilters = (view: ListView) =>
+  view.status !== undefined || view.unpaidPeriod !== undefined || view.minOverdue !== undefined ||
+  view.minPending !== undefined || view.tag !== undefined || view.field !== undefined;
+
+// Custom field values match as stored and as shown ("2024-03-15" and "15/03/2024").
+const fieldTexts = (participant: Participant, field: CustomField) => {
+  const value = getFieldValue(participant, field.id);
+  return value ? [value.toLowerCase(), formatFieldValue(field, value).toLowerCase()] : [];
+};
+
+const matchesSearch = (participant: Participant, search: string, fields: CustomField[]) => {
+  const lower = search.toLowerCase();
+  // Numbers are compared digit by digit, so "11 98888" finds "(11) 98888-7777".
+  const digits = search.replace(/\D/g, '');
+  return participant.name.toLowerCase().includes(lower) ||
+    participant.whatsapp.includes(lower) ||
+    (digits.length >= 2 && (participant.whatsapp.replace(/\D/g, '').includes(digits) || normalizePhone(participant.whatsapp).includes(digits))) ||
+    (participant.tags ?? []).some(tag => tag.toLowerCase().includes(lower)) ||
+    (participant.notes ?? '').toLowerCase().includes(lower) ||
+    fields.some(field => fieldTexts(participant, field).some(text => text.includes(lower)));
+};
+
+// A field missing from this workspace matches no one, like a period past the cohort's end.
+const matchesField = (participant: Participant, filter: NonNullable<ListView['field']>, fields: CustomField[]) => {
+  const field = fields.find(f => f.id === filter.id);
+  if (!field) return false;
+  const wanted = filter.value.trim().toLowerCase();
+  if (field.type === 'select') return getFieldValue(participant, field.id).toLowerCase() === wanted;
+  return fieldTexts(participant, field).some(text => text.includes(wanted));
+};
+
+const matchesStatus = (participant: Participant, status: StatusFilter) => {
+  if (status === 'paid') return isFullyPaid(participant);
+  const paid = countPaidWeeks(participant);
+  return status === 'none' ? paid === 0 : paid > 0 && !isFullyPaid(participant);
+};
+
+// Filters never match the blank placeholder rows, which would otherwise fill
+// every "nenhum pagamento" list. `fields` are the workspace's custom fields.
+export const filterParticipants = (
+  participants: Participant[],
+  view: ListView,
+  cohort: CohortSettings,
+  fields: CustomField[] = [],
+  today = new Date()
+) => {
+  const search = view.search.trim();
+  const filtered = hasFilters(view);
+  if (!search && !filtered) return participants;
+  return participants.filter(p => {
+    if (search && !matchesSearch(p, search, fields)) return false;
+    if (!filtered) return true;
+    if (!isActiveParticipant(p)) return false;
+    if (view.status && !matchesStatus(p, view.status)) return false;
+    if (view.unpaidPeriod !== undefined && (view.unpaidPeriod >= cohort.periodCount || p.weeks[view.unpaidPeriod])) return false;
+    if (view.minOverdue !== undefined || view.minPending !== undefined) {
+      const balance = getParticipantBalance(p, cohort, today);
+      if (view.minOverdue !== undefined && balance.overdue < view.minOverdue) return false;
+      if (view.minPending !== undefined && balance.pending < view.minPending) return false;
+    }
+    if (view.tag !== undefined && !hasTag(p, view.tag)) return false;
+    if (view.field && !matchesField(p, view.field, fields)) return false;
+    return true;
+  });
+};
+
+const nameCollator = new Intl.Collator('pt-BR', { sensitivity: 'base', numeric: true });
+
+const compareBy = (field: SortField) => (a: Participant, b: Participant) => {
+  if (field === 'status') return countPaidWeeks(a) - countPaidWeeks(b) || nameCollator.compare(a.name, b.name);
+  if (field === 'whatsapp') return normalizePhone(a.whatsapp).localeCompare(normalizePhone(b.whatsapp));
+  return nameCollator.compare(a.name, b.name);
+};
+
+// Blank rows stay at the end in either order.
+export const sortParticipants = (participants: Participant[], view: ListView) => {
+  if (!view.sortField) return participants;
+  const compare = compareBy(view.sortField);
+  const direction = view.sortOrder === 'desc' ? -1 : 1;
+  return [...participants].sort((a, b) =>
+    Number(!isActiveParticipant(a)) - Number(!isActiveParticipant(b)) || direction * compare(a, b));
+};
+
+// Header clicks cycle ascending, descending, unsorted.
+export const toggleSort = (view: ListView, field: SortField): ListView => {
+  if (view.sortField !== field) return { ...view, sortField: field, sortOrder: 'asc' };
+  if (view.sortOrder === 'asc') return { ...view, sortOrder: 'desc' };
+  return { ...view, sortField: undefined, sortOrder: 'asc' };
+};
+
+// URL form, for sharing a view: ?q=ana&status=partial&unpaid=3&overdue=50&owed=200&tag=vip&field=<id>:Centro&sort=-name
+// Periods are numbered from 1 and amounts are in reais, as shown on screen.
+const SORT_FIELDS: SortField[] = ['name', 'whatsapp', 'status'];
+const VIEW_PARAMS = ['q', 'status', 'unpaid', 'overdue', 'owed', 'tag', 'field', 'sort'];
+
+export const viewToParams = (view: ListView, params = new URLSearchParams()) => {
+  VIEW_PARAMS.forEach(key => params.delete(key));
+  if (view.search) params.set('q', view.search);
+  if (view.status) params.set('status', view.status);
+  if (view.unpaidPeriod !== undefined) params.set('unpaid', String(view.unpaidPeriod + 1));
+  if (view.minOverdue !== undefined) params.set('overdue', String(view.minOverdue / 100));
+  if (view.minPending !== undefined) params.set('owed', String(view.minPending / 100));
+  if (view.tag !== undefined) params.set('tag', view.tag);
+  if (view.field) params.set('field', `${view.field.id}:${view.field.value}`);
+  if (view.sortField) params.set('sort', `${view.sortOrder === 'desc' ? '-' : ''}${view.sortField}`);
+  return params;
+};
+
+// Unknown or malformed values are ignored rather than rejected.
+export const viewFromParams = (params: URLSearchParams): ListView => {
+  const view = createDefaultView();
+  view.search = params.get('q') ?? '';
+  const status = params.get('status');
+  if (status && Object.hasOwn(STATUS_FILTER_LABELS, status)) view.status = status as StatusFilter;
+  const unpaid = Number(params.get('unpaid'));
+  if (Number.isInteger(unpaid) && unpaid >= 1) view.unpaidPeriod = unpaid - 1;
+  // An empty `?overdue=` would read as 0 and filter everyone with any debt.
+  const readAmount = (key: string) => {
+    const text = params.get(key)?.trim().replace(',', '.');
+    const amount = Number(text);
+    return text && Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) : undefined;
+  };
+  const minOverdue = readAmount('overdue');
+  if (minOverdue !== undefined) view.minOverdue = minOverdue;
+  const minPending = readAmount('owed');
+  if (minPending !== undefined) view.minPending = minPending;
+  const tag = params.get('tag')?.trim();
+  if (tag) view.tag = tag;
+  const field = params.get('field')?.match(/^([^:]+):(.+)$/);
+  if (field) view.field = { id: field[1], value: field[2] };
+  const sort = params.get('sort') ?? '';
+  const sortField = sort.replace(/^-/, '') as SortField;
+  if (SORT_FIELDS.includes(sortField)) {
+    view.sortField = sortField;
+    view.sortOrder = sort.startsWith('-') ? 'desc' : 'asc';
+  }
+  return view;
+};
+
+export const hasViewParams = (params: URLSearchParams) => VIEW_PARAMS.some(key => params.has(key));
@@ -1,19 +1,40 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import crypto from 'crypto';
+import { Plugin, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Files copied from public/ that the installed app needs offline.
+const STATIC_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+// Builds sw.js from the template at the project root, with the list of files
+// to cache. The cache name changes with the build, so a new version replaces
+// the old files on the next visit.
+const serviceWorker = (): Plugin => ({
+  name: 'hubx-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = [...STATIC_FILES, ...Object.keys(bundle).map(name => `/${name}`)].sort();
+    const version = crypto.createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('__BUILD_VERSION__', version)
+      .replace('__PRECACHE_FILES__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Lets VITE_API_URL=/api reach the team server (npm run server) in dev.
+        proxy: {
+          '/api': 'http://localhost:3001',
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),